@@ -1,10 +1,12 @@
-import React, { useState, useRef, useEffect } from 'react'
+import React, { useState, useRef, useEffect, useMemo } from 'react'
 import MessageList from './MessageList'
 import ChatInput from './ChatInput'
 import MapUploadModal from './MapUploadModal'
 import AICodeGeneratorLoader from './AICodeGeneratorLoader'
+import LevelReviewModal from './LevelReviewModal'
 import chatAPI, { gameAPI } from '../services/api'
 import mapProcessing from '../services/mapProcessing'
+import type { ProcessingResult, RecognizedLevelData } from '../services/mapProcessing'
 import './ChatPanel.css'
 
 export interface Message {
@@ -40,6 +42,15 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ onLevelGenerated, onLevelPackGene
   const [currentPackId, setCurrentPackId] = useState<number | null>(null)
   const [currentLevelIds, setCurrentLevelIds] = useState<number[]>([])
   const [waitingForPackPublicName, setWaitingForPackPublicName] = useState(false)
+  // Recognition result waiting for the user to check it before it is loaded
+  const [reviewResult, setReviewResult] = useState<ProcessingResult | null>(null)
+  const [reviewImageUrl, setReviewImageUrl] = useState<string | null>(null)
+  const [isSavingReview, setIsSavingReview] = useState(false)
+  const [reviewError, setReviewError] = useState<string | null>(null)
+  const reviewLevelData = useMemo(
+    () => reviewResult ? mapProcessing.getRecognizedLevelData(reviewResult) : null,
+    [reviewResult]
+  )
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
   const scrollToBottom = () => {
@@ -323,13 +334,16 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ onLevelGenerated, onLevelPackGene
     setUploadedFileName(file.name)
     setShowAILoader(true)
 
+    const imageUrl = URL.createObjectURL(file)
+    setReviewImageUrl(imageUrl)
+
     // Add user message with image
     const userMessage: Message = {
       id: Date.now().toString(),
       type: 'user',
       content: 'Here\'s my hand-drawn map!',
       timestamp: new Date(),
-      image: URL.createObjectURL(file)
+      image: imageUrl
     }
     setMessages(prev => [...prev, userMessage])
 
@@ -623,6 +637,45 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ onLevelGenerated, onLevelPackGene
     setIsProcessingMap(false)
     setShowMapUpload(false)
 
+    // Let the user fix recognition mistakes before the level is loaded
+    if (loaderResult?.success && loaderResult.level_id && mapProcessing.getRecognizedLevelData(loaderResult)) {
+      setReviewError(null)
+      setReviewResult(loaderResult)
+      return
+    }
+
+    completeLevelCreation(loaderResult)
+  }
+
+  const handleReviewConfirm = async (corrected: RecognizedLevelData | null) => {
+    if (!reviewResult) return
+
+    // Nothing changed - the backend already saved the level as detected
+    if (!corrected) {
+      finishReview(reviewResult)
+      return
+    }
+
+    setIsSavingReview(true)
+    setReviewError(null)
+    try {
+      const saved = await mapProcessing.saveCorrectedLevel(reviewResult, corrected, `Level ${new Date().toLocaleString()}`)
+      ;(window as any).mapProcessingResult = saved
+      finishReview(saved)
+    } catch (error) {
+      console.error('Failed to save corrected level:', error)
+      setReviewError(error instanceof Error ? error.message : 'Failed to save the corrected level')
+    } finally {
+      setIsSavingReview(false)
+    }
+  }
+
+  const finishReview = (result: ProcessingResult) => {
+    setReviewResult(null)
+    completeLevelCreation(result)
+  }
+
+  const completeLevelCreation = (loaderResult: any) => {
     console.log('🔍 HandleAILoaderComplete - result:', loaderResult)
     console.log('🔍 result?.success:', loaderResult?.success)
     console.log('🔍 result.level_id:', loaderResult.level_id)
@@ -657,13 +710,24 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ onLevelGenerated, onLevelPackGene
       let shapeDetails = '';
       if (loaderResult.levelData?.level_data) {
         const data = loaderResult.levelData.level_data;
-        shapeDetails = `\n🔍 **Shape Detection Results:**\n• ⬡ **Hexagons (Start Points):** ${data.starting_points?.length || 0} detected\n• ✕ **Crosses (End Points):** ${data.end_points?.length || 0} detected\n• ▲ **Triangles (Spikes):** ${data.spikes?.length || 0} detected\n• ● **Circles (Coins):** ${data.coins?.length || 0} detected\n• ■ **Other Shapes (Platforms):** ${data.rigid_bodies?.length || 0} detected\n• 📐 **Image Size:** ${data.image_size?.[0] || 0}x${data.image_size?.[1] || 0} pixels\n`;
+        shapeDetails = `\n🔍 **Shape Detection Results:**\n• ⬡ **Hexagons (Start Points):** ${data.starting_points?.length || 0} detected\n• ✕ **Crosses (End Points):** ${data.end_points?.length || 0} detected\n• ◆ **Diamonds (Checkpoints):** ${data.checkpoint_points?.length || 0} detected\n• ▲ **Triangles (Spikes):** ${data.spikes?.length || 0} detected\n• ● **Circles (Coins):** ${data.coins?.length || 0} detected\n• ■ **Other Shapes (Platforms):** ${data.rigid_bodies?.length || 0} detected\n• 📐 **Image Size:** ${data.image_size?.[0] || 0}x${data.image_size?.[1] || 0} pixels\n`;
+      }
+
+      // Warn before the user shares a level nobody can finish
+      let solvabilityNote = '';
+      if (loaderResult.data) {
+        const validation = mapProcessing.validateGameData(loaderResult.data);
+        if (!validation.isValid) {
+          solvabilityNote = `\n\n⚠️ **This level might not be beatable:**\n${validation.issues.map(issue => `• ${issue}`).join('\n')}\n\n💡 Try drawing the end point lower or the platforms closer together.`;
+        } else if (validation.warnings.length > 0) {
+          solvabilityNote = `\n\n💡 **Heads up:**\n${validation.warnings.map(warning => `• ${warning}`).join('\n')}`;
+        }
       }
 
       const aiMessage: Message = {
         id: (Date.now() + 1).toString(),
         type: 'ai',
-        content: `✅ **New Map Created Successfully!** \nLevel ID: \`${loaderResult.level_id}\`${shapeDetails}\n\n🎯 **Your hand-drawn map has been loaded into the game on the left!**\n\nYou can now play your custom level in the game window on the left!`,
+        content: `✅ **New Map Created Successfully!** \nLevel ID: \`${loaderResult.level_id}\`${shapeDetails}${solvabilityNote}\n\n🎯 **Your hand-drawn map has been loaded into the game on the left!**\n\nYou can now play your custom level in the game window on the left!`,
         timestamp: new Date()
       }
       setMessages(prev => [...prev, aiMessage])
@@ -787,6 +851,16 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ onLevelGenerated, onLevelPackGene
         uploadedFileName={uploadedFileName}
         autoComplete={false}
       />
+
+      <LevelReviewModal
+        isOpen={reviewResult !== null}
+        imageUrl={reviewImageUrl}
+        levelData={reviewLevelData}
+        isSaving={isSavingReview}
+        error={reviewError}
+        onConfirm={handleReviewConfirm}
+        onSkip={() => reviewResult && finishReview(reviewResult)}
+      />
     </div>
   )
 }
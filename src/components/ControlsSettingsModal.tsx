@@ -0,0 +1,219 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { InputBindings, INPUT_ACTIONS } from '../game/engine/input/InputBindings'
+import type { BindingInput, BindingTable, InputAction } from '../game/engine/input/InputBindings'
+import { GamepadInput } from '../game/engine/input/GamepadInput'
+import './ControlsSettingsModal.css'
+
+interface ControlsSettingsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  // Called with the saved bindings, e.g. to apply them to a running game
+  onSave?: (table: BindingTable) => void
+}
+
+type Device = BindingInput['device']
+
+interface Listening {
+  action: InputAction
+  device: Device
+  slot: number
+}
+
+interface Conflict extends Listening {
+  input: BindingInput
+  other: InputAction
+}
+
+const ACTION_LABELS: Record<InputAction, string> = {
+  left: 'Move left',
+  right: 'Move right',
+  up: 'Up / climb',
+  down: 'Down / duck',
+  jump: 'Jump',
+  run: 'Run',
+  action: 'Action / fireball'
+}
+
+// Columns of the table: two keyboard slots and one controller slot per action
+const SLOTS: { device: Device; slot: number; label: string }[] = [
+  { device: 'keyboard', slot: 0, label: 'Key' },
+  { device: 'keyboard', slot: 1, label: 'Alternate' },
+  { device: 'gamepad', slot: 0, label: 'Controller' }
+]
+
+const ControlsSettingsModal: React.FC<ControlsSettingsModalProps> = ({ isOpen, onClose, onSave }) => {
+  const [table, setTable] = useState<BindingTable>(() => InputBindings.loadTable())
+  const [listening, setListening] = useState<Listening | null>(null)
+  const [conflict, setConflict] = useState<Conflict | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isOpen) {
+      setTable(InputBindings.loadTable())
+      setListening(null)
+      setConflict(null)
+      setMessage(null)
+    }
+  }, [isOpen])
+
+  const apply = useCallback((target: Listening, input: BindingInput) => {
+    const bindings = new InputBindings(table)
+    bindings.bind(target.action, input, target.slot)
+    setTable(bindings.getTable())
+  }, [table])
+
+  const receive = useCallback((target: Listening, input: BindingInput) => {
+    setListening(null)
+    if (InputBindings.isReserved(input)) {
+      setMessage(`${InputBindings.describe(input)} is reserved for menus and pausing`)
+      return
+    }
+
+    const other = new InputBindings(table).findConflict(input, target.action)
+    if (other) {
+      setConflict({ ...target, input, other })
+      return
+    }
+    setMessage(null)
+    apply(target, input)
+  }, [table, apply])
+
+  // Capture the next key before the game or the page sees it
+  useEffect(() => {
+    if (!listening) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+      if (e.code === 'Escape') {
+        setListening(null)
+        return
+      }
+      if (listening.device === 'keyboard') {
+        receive(listening, { device: 'keyboard', code: e.code })
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [listening, receive])
+
+  // Controllers have no button events - poll for a button that wasn't already held
+  useEffect(() => {
+    if (!listening || listening.device !== 'gamepad') return
+
+    const held = new Set(GamepadInput.getPressedButtons())
+    let frame = 0
+    const poll = () => {
+      const pressed = GamepadInput.getPressedButtons()
+      const fresh = pressed.find(button => !held.has(button))
+      // Let go of a button that was down when listening started and it can be pressed again
+      held.forEach(button => {
+        if (!pressed.includes(button)) held.delete(button)
+      })
+      if (fresh !== undefined) {
+        receive(listening, { device: 'gamepad', button: fresh })
+        return
+      }
+      frame = requestAnimationFrame(poll)
+    }
+    frame = requestAnimationFrame(poll)
+    return () => cancelAnimationFrame(frame)
+  }, [listening, receive])
+
+  if (!isOpen) return null
+
+  const describeSlot = (action: InputAction, device: Device, slot: number): string => {
+    if (device === 'keyboard') {
+      const code = table[action].keys[slot]
+      return code ? InputBindings.describe({ device, code }) : '—'
+    }
+    const button = table[action].buttons[slot]
+    return button !== undefined ? InputBindings.describe({ device, button }) : '—'
+  }
+
+  const handleSave = () => {
+    const bindings = new InputBindings(table)
+    bindings.save()
+    onSave?.(bindings.getTable())
+    onClose()
+  }
+
+  const handleReset = () => {
+    const bindings = new InputBindings(table)
+    bindings.resetToDefaults()
+    setTable(bindings.getTable())
+    setConflict(null)
+    setMessage('Defaults restored - save to keep them')
+  }
+
+  return (
+    <div className="controls-settings-overlay">
+      <div className="controls-settings">
+        <div className="controls-settings-header">
+          <h2>🎮 Controls</h2>
+          <p>Click a binding, then press the key or controller button to use. Esc cancels.</p>
+        </div>
+
+        <table className="controls-settings-table">
+          <thead>
+            <tr>
+              <th>Action</th>
+              {SLOTS.map(column => <th key={`${column.device}-${column.slot}`}>{column.label}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {INPUT_ACTIONS.map(action => (
+              <tr key={action}>
+                <td>{ACTION_LABELS[action]}</td>
+                {SLOTS.map(({ device, slot }) => {
+                  const isListening = listening?.action === action && listening.device === device && listening.slot === slot
+                  return (
+                    <td key={`${device}-${slot}`}>
+                      <button
+                        className={`controls-settings-binding ${isListening ? 'listening' : ''}`}
+                        onClick={() => {
+                          setConflict(null)
+                          setMessage(null)
+                          setListening({ action, device, slot })
+                        }}
+                      >
+                        {isListening ? (device === 'keyboard' ? 'Press a key…' : 'Press a button…') : describeSlot(action, device, slot)}
+                      </button>
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {conflict && (
+          <div className="controls-settings-conflict">
+            <span>
+              {InputBindings.describe(conflict.input)} already does <strong>{ACTION_LABELS[conflict.other]}</strong>.
+              Move it to <strong>{ACTION_LABELS[conflict.action]}</strong>?
+            </span>
+            <div>
+              <button onClick={() => {
+                apply(conflict, conflict.input)
+                setConflict(null)
+              }}>Move it</button>
+              <button onClick={() => setConflict(null)}>Keep</button>
+            </div>
+          </div>
+        )}
+        {message && <div className="controls-settings-message">{message}</div>}
+
+        <div className="controls-settings-footer">
+          <button onClick={handleReset}>Reset to defaults</button>
+          <span className="spacer" />
+          <button onClick={onClose}>Cancel</button>
+          <button className="primary" onClick={handleSave}>Save</button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ControlsSettingsModal
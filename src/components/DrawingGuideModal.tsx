@@ -40,6 +40,14 @@ const DrawingGuideModal: React.FC<DrawingGuideModalProps> = ({ isOpen, onClose }
             </div>
           </div>
 
+          <div className="shape-item">
+            <div className="shape-icon diamond">◆</div>
+            <div className="shape-info">
+              <h4>Diamond = Checkpoint</h4>
+              <p>Draw a square standing on one corner where Mario should respawn after losing a life. Use several on long levels.</p>
+            </div>
+          </div>
+
           <div className="shape-item">
             <div className="shape-icon triangle">▲</div>
             <div className="shape-info">
@@ -113,12 +121,14 @@ const DrawingGuideModal: React.FC<DrawingGuideModalProps> = ({ isOpen, onClose }
             <p>2. Add <strong>rectangles</strong> (■) as platforms and ground</p>
             <p>3. Place <strong>circles</strong> (●) as collectible coins</p>
             <p>4. Add <strong>triangles</strong> (▲) as dangerous spikes</p>
-            <p>5. Draw a <strong>cross</strong> (✕) on the right for the end</p>
+            <p>5. Put a <strong>diamond</strong> (◆) halfway as a checkpoint</p>
+            <p>6. Draw a <strong>cross</strong> (✕) on the right for the end</p>
           </div>
           <div className="technical-details">
             <h4>⚙️ Technical Details:</h4>
             <p>• <strong>Hexagon Detection</strong>: 6 sides, roughly equal length, ~120° angles</p>
             <p>• <strong>Cross Detection</strong>: 8-12 vertices, extending evenly in 4 directions</p>
+            <p>• <strong>Diamond Detection</strong>: 4 vertices, corners pointing up, down, left and right</p>
             <p>• <strong>Triangle Detection</strong>: 3 vertices, angles 30-120°, reasonable side ratios</p>
             <p>• <strong>Circle Detection</strong>: Circularity &gt; 0.6 (circularity = 4π×area/perimeter²)</p>
           </div>
@@ -2,6 +2,7 @@ import React, { useState, useRef, useEffect } from 'react'
 import GamePanel from './GamePanel'
 import ChatPanel from './ChatPanel'
 import DrawingGuideModal from './DrawingGuideModal'
+import LevelEditor from './LevelEditor'
 import './Layout.css'
 
 const Layout: React.FC = () => {
@@ -12,6 +13,7 @@ const Layout: React.FC = () => {
   } | null>(null)
   const gamePanelRef = useRef<any>(null)
   const [showGuideModal, setShowGuideModal] = useState(false)
+  const [showLevelEditor, setShowLevelEditor] = useState(false)
 
   const handleLevelGenerated = (levelData: {
     jsonUrl?: string,
@@ -111,10 +113,23 @@ const Layout: React.FC = () => {
         />
       </div>
 
+      <button
+        className="level-editor-toggle"
+        onClick={() => setShowLevelEditor(true)}
+        title="Open the level editor"
+      >
+        🛠️ Editor
+      </button>
+
       <DrawingGuideModal
         isOpen={showGuideModal}
         onClose={handleCloseGuideModal}
       />
+
+      <LevelEditor
+        isOpen={showLevelEditor}
+        onClose={() => setShowLevelEditor(false)}
+      />
     </div>
   )
 }
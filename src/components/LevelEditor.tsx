@@ -0,0 +1,950 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { GameAPI } from '../game/engine/api/GameAPI'
+import { BLOCK_CONTENTS, CAMERA_MODES, DEFAULT_WORLD_SIZE, LevelSchema, PLATFORM_TRIGGERS } from '../game/engine/schema/LevelSchema'
+import type { BlockContents, CameraMode, LevelDocument, PlatformTrigger } from '../game/engine/schema/LevelSchema'
+import { LevelMigrations } from '../game/engine/schema/LevelMigrations'
+import ControlsSettingsModal from './ControlsSettingsModal'
+import './LevelEditor.css'
+
+interface LevelEditorProps {
+  isOpen: boolean
+  onClose: () => void
+  initialLevel?: LevelDocument
+}
+
+type ItemKind = 'platform' | 'polygon' | 'enemy' | 'coin' | 'powerUp' | 'playerStart' | 'goal'
+
+interface Selection {
+  kind: ItemKind
+  index: number
+}
+
+type Tool =
+  | { kind: 'select' }
+  | { kind: 'platform'; type: string }
+  | { kind: 'polygon' }
+  | { kind: 'enemy'; type: string }
+  | { kind: 'coin' }
+  | { kind: 'powerUp'; type: string }
+  | { kind: 'playerStart' }
+  | { kind: 'goal' }
+
+type Drag =
+  | { mode: 'move'; offsetX: number; offsetY: number }
+  | { mode: 'resize' }
+  | { mode: 'vertex'; vertex: number }
+
+interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Room left past the level's edge so it can be extended
+const CANVAS_MARGIN = 400
+const HANDLE_SIZE = 8
+
+const CAMERA_MODE_LABELS: Record<CameraMode, string> = {
+  horizontal: 'Side-scrolling',
+  follow: 'Free follow',
+  lookahead: 'Look-ahead',
+  vertical: 'Vertical'
+}
+
+const PLATFORM_TYPES: { type: string; label: string; width: number; height: number; color: string }[] = [
+  { type: 'normal', label: 'Block', width: 96, height: 32, color: '#8B4513' },
+  { type: 'platform', label: 'Platform', width: 96, height: 20, color: '#228B22' },
+  { type: 'ground', label: 'Ground', width: 320, height: 76, color: '#8B4513' },
+  { type: 'brick', label: 'Brick', width: 32, height: 32, color: '#B5651D' },
+  { type: 'question', label: 'Question', width: 32, height: 32, color: '#FFA500' },
+  { type: 'hidden', label: 'Hidden block', width: 32, height: 32, color: 'rgba(255, 165, 0, 0.35)' },
+  { type: 'pipe', label: 'Pipe', width: 64, height: 100, color: '#00AA00' },
+  { type: 'goal_pipe', label: 'Goal pipe', width: 64, height: 100, color: '#00CC00' },
+  { type: 'underground', label: 'Underground', width: 96, height: 32, color: '#2F4F4F' },
+  { type: 'castle', label: 'Castle', width: 96, height: 32, color: '#696969' },
+  { type: 'bridge', label: 'Bridge', width: 160, height: 20, color: '#A0522D' },
+  { type: 'boundary', label: 'Invisible wall', width: 32, height: 128, color: 'rgba(255, 255, 255, 0.35)' }
+]
+// Platform types that give something when hit from below
+const BLOCK_TYPES = ['brick', 'question', 'hidden']
+const ENEMY_TYPES = ['goomba', 'koopa', 'firebar', 'bowser', 'spike']
+const POWER_UP_TYPES = ['mushroom', 'flower', 'star', '1up']
+
+const ENEMY_COLORS: Record<string, string> = {
+  goomba: '#8B4513',
+  koopa: '#2E8B57',
+  firebar: '#FF4500',
+  bowser: '#556B2F',
+  spike: '#A9A9A9'
+}
+const POWER_UP_COLORS: Record<string, string> = {
+  mushroom: '#FF0000',
+  flower: '#FF8C00',
+  star: '#FFD700',
+  '1up': '#00C000'
+}
+
+// Entity sizes match the engine's entity constructors
+const COIN_SIZE = 24
+const POWER_UP_SIZE = 28
+const PLAYER_SIZE = 32
+const GOAL_SIZE = { width: 50, height: 100 }
+
+const enemySize = (enemy: { type: string; size?: number }) => enemy.size || (enemy.type === 'bowser' ? 64 : 32)
+
+const getItemRect = (level: LevelDocument, selection: Selection): Rect | null => {
+  switch (selection.kind) {
+    case 'platform': {
+      const p = level.platforms[selection.index]
+      return p ? { x: p.x, y: p.y, width: p.width, height: p.height } : null
+    }
+    case 'polygon': {
+      const polygon = level.polygons[selection.index]
+      if (!polygon) return null
+      const xs = polygon.points.map(point => point[0])
+      const ys = polygon.points.map(point => point[1])
+      const x = Math.min(...xs)
+      const y = Math.min(...ys)
+      return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+    }
+    case 'enemy': {
+      const e = level.enemies[selection.index]
+      return e ? { x: e.x, y: e.y, width: enemySize(e), height: enemySize(e) } : null
+    }
+    case 'coin': {
+      const c = level.coins[selection.index]
+      return c ? { x: c.x, y: c.y, width: COIN_SIZE, height: COIN_SIZE } : null
+    }
+    case 'powerUp': {
+      const p = level.powerUps[selection.index]
+      return p ? { x: p.x, y: p.y, width: POWER_UP_SIZE, height: POWER_UP_SIZE } : null
+    }
+    case 'playerStart':
+      return level.playerStart ? { x: level.playerStart.x, y: level.playerStart.y, width: PLAYER_SIZE, height: PLAYER_SIZE } : null
+    case 'goal':
+      return level.goal ? { x: level.goal.x, y: level.goal.y, ...GOAL_SIZE } : null
+  }
+}
+
+const pointInPolygon = (x: number, y: number, contours: number[][]) => {
+  let inside = false
+  for (let i = 0, j = contours.length - 1; i < contours.length; j = i++) {
+    const [xi, yi] = contours[i]
+    const [xj, yj] = contours[j]
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+const inRect = (x: number, y: number, rect: Rect) =>
+  x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height
+
+const distanceToSegment = (px: number, py: number, a: number[], b: number[]) => {
+  const dx = b[0] - a[0]
+  const dy = b[1] - a[1]
+  const lengthSquared = dx * dx + dy * dy
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - a[0]) * dx + (py - a[1]) * dy) / lengthSquared))
+  return Math.hypot(px - (a[0] + t * dx), py - (a[1] + t * dy))
+}
+
+/**
+ * Topmost item under a point: small entities first, then platforms and polygons (last drawn wins)
+ */
+const hitTest = (level: LevelDocument, x: number, y: number): Selection | null => {
+  const singles: Selection[] = [{ kind: 'playerStart', index: 0 }, { kind: 'goal', index: 0 }]
+  const ordered: Selection[] = [
+    ...singles,
+    ...level.coins.map((_, index) => ({ kind: 'coin' as const, index })).reverse(),
+    ...level.powerUps.map((_, index) => ({ kind: 'powerUp' as const, index })).reverse(),
+    ...level.enemies.map((_, index) => ({ kind: 'enemy' as const, index })).reverse(),
+    ...level.platforms.map((_, index) => ({ kind: 'platform' as const, index })).reverse()
+  ]
+
+  for (const item of ordered) {
+    const rect = getItemRect(level, item)
+    if (rect && inRect(x, y, rect)) return item
+  }
+
+  for (let index = level.polygons.length - 1; index >= 0; index--) {
+    if (pointInPolygon(x, y, level.polygons[index].points)) {
+      return { kind: 'polygon', index }
+    }
+  }
+  return null
+}
+
+const LevelEditor: React.FC<LevelEditorProps> = ({ isOpen, onClose, initialLevel }) => {
+  const [level, setLevel] = useState<LevelDocument>(() => initialLevel ? LevelMigrations.migrate(initialLevel) : LevelSchema.createEmpty())
+  const [tool, setTool] = useState<Tool>({ kind: 'select' })
+  const [selection, setSelection] = useState<Selection | null>(null)
+  const [draftPolygon, setDraftPolygon] = useState<[number, number][]>([])
+  const [gridSize, setGridSize] = useState(16)
+  const [zoom, setZoom] = useState(0.5)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [showControls, setShowControls] = useState(false)
+
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const playCanvasRef = useRef<HTMLCanvasElement>(null)
+  // The running play-test, so new control bindings apply without restarting it
+  const playApiRef = useRef<GameAPI | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const dragRef = useRef<Drag | null>(null)
+  // The latest level, for the play-test to start from without rebuilding on every edit
+  const levelRef = useRef(level)
+
+  useEffect(() => {
+    levelRef.current = level
+  }, [level])
+
+  // The world the engine will size this level to, and a canvas big enough to grow it
+  const worldSize = useMemo(() => LevelSchema.getWorldSize(level), [level])
+  const canvasWidth = Math.max(DEFAULT_WORLD_SIZE.width, worldSize.width + CANVAS_MARGIN)
+  const canvasHeight = Math.max(DEFAULT_WORLD_SIZE.height, worldSize.height + CANVAS_MARGIN)
+
+  const snap = useCallback((value: number) => Math.round(value / gridSize) * gridSize, [gridSize])
+
+  const toWorld = (e: React.PointerEvent | React.MouseEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect()
+    return {
+      x: (e.clientX - rect.left) / zoom,
+      y: (e.clientY - rect.top) / zoom
+    }
+  }
+
+  const updateLevel = (change: (draft: LevelDocument) => void) => {
+    setLevel(prev => {
+      const next: LevelDocument = JSON.parse(JSON.stringify(prev))
+      change(next)
+      return next
+    })
+  }
+
+  // ==================== DRAWING ====================
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || isPlaying) return
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    ctx.setTransform(zoom, 0, 0, zoom, 0, 0)
+    ctx.fillStyle = '#3A5FA8'
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight)
+    ctx.fillStyle = '#5C94FC'
+    ctx.fillRect(0, 0, worldSize.width, worldSize.height)
+
+    // Grid
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)'
+    ctx.lineWidth = 1 / zoom
+    ctx.beginPath()
+    for (let x = 0; x <= canvasWidth; x += gridSize) {
+      ctx.moveTo(x, 0)
+      ctx.lineTo(x, canvasHeight)
+    }
+    for (let y = 0; y <= canvasHeight; y += gridSize) {
+      ctx.moveTo(0, y)
+      ctx.lineTo(canvasWidth, y)
+    }
+    ctx.stroke()
+
+    level.polygons.forEach(polygon => {
+      ctx.fillStyle = '#666666'
+      ctx.strokeStyle = '#333333'
+      ctx.lineWidth = 2
+      ctx.beginPath()
+      polygon.points.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)))
+      ctx.closePath()
+      ctx.fill()
+      ctx.stroke()
+    })
+
+    level.platforms.forEach(platform => {
+      const style = PLATFORM_TYPES.find(entry => entry.type === platform.type)
+      ctx.fillStyle = style ? style.color : '#FF00FF'
+      ctx.fillRect(platform.x, platform.y, platform.width, platform.height)
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.5)'
+      ctx.lineWidth = 1
+      ctx.strokeRect(platform.x, platform.y, platform.width, platform.height)
+    })
+
+    const drawLabelled = (rect: Rect, color: string, label: string) => {
+      ctx.fillStyle = color
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height)
+      ctx.fillStyle = '#FFFFFF'
+      ctx.font = '12px Arial'
+      ctx.textAlign = 'center'
+      ctx.fillText(label, rect.x + rect.width / 2, rect.y - 4)
+    }
+
+    level.coins.forEach(coin => {
+      ctx.fillStyle = '#FFD700'
+      ctx.beginPath()
+      ctx.arc(coin.x + COIN_SIZE / 2, coin.y + COIN_SIZE / 2, COIN_SIZE / 2, 0, Math.PI * 2)
+      ctx.fill()
+    })
+    level.powerUps.forEach(powerUp => {
+      drawLabelled({ x: powerUp.x, y: powerUp.y, width: POWER_UP_SIZE, height: POWER_UP_SIZE }, POWER_UP_COLORS[powerUp.type] || '#FF00FF', powerUp.type)
+    })
+    level.enemies.forEach(enemy => {
+      const size = enemySize(enemy)
+      drawLabelled({ x: enemy.x, y: enemy.y, width: size, height: size }, ENEMY_COLORS[enemy.type] || '#FF00FF', enemy.type)
+    })
+
+    if (level.playerStart) {
+      drawLabelled({ x: level.playerStart.x, y: level.playerStart.y, width: PLAYER_SIZE, height: PLAYER_SIZE }, '#FF6B6B', 'start')
+    }
+    if (level.goal) {
+      drawLabelled({ x: level.goal.x, y: level.goal.y, ...GOAL_SIZE }, '#00CC00', 'goal')
+    }
+
+    // Polygon being drawn
+    if (draftPolygon.length > 0) {
+      ctx.strokeStyle = '#FFFFFF'
+      ctx.lineWidth = 2 / zoom
+      ctx.setLineDash([6 / zoom, 4 / zoom])
+      ctx.beginPath()
+      draftPolygon.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)))
+      ctx.stroke()
+      ctx.setLineDash([])
+      draftPolygon.forEach(([x, y]) => {
+        ctx.fillStyle = '#FFFFFF'
+        ctx.fillRect(x - 3 / zoom, y - 3 / zoom, 6 / zoom, 6 / zoom)
+      })
+    }
+
+    // Selection outline and handles
+    if (selection) {
+      const rect = getItemRect(level, selection)
+      if (rect) {
+        const handle = HANDLE_SIZE / zoom
+        ctx.strokeStyle = '#FFEB3B'
+        ctx.lineWidth = 2 / zoom
+        ctx.strokeRect(rect.x, rect.y, rect.width, rect.height)
+
+        ctx.fillStyle = '#FFEB3B'
+        if (selection.kind === 'platform') {
+          ctx.fillRect(rect.x + rect.width - handle / 2, rect.y + rect.height - handle / 2, handle, handle)
+        } else if (selection.kind === 'polygon') {
+          level.polygons[selection.index].points.forEach(([x, y]) => {
+            ctx.fillRect(x - handle / 2, y - handle / 2, handle, handle)
+          })
+        }
+      }
+    }
+  }, [level, selection, draftPolygon, gridSize, zoom, isPlaying, worldSize, canvasWidth, canvasHeight])
+
+  // ==================== POINTER INTERACTION ====================
+
+  const addItemAt = (x: number, y: number) => {
+    const sx = snap(x)
+    const sy = snap(y)
+
+    switch (tool.kind) {
+      case 'platform': {
+        const preset = PLATFORM_TYPES.find(entry => entry.type === tool.type)!
+        updateLevel(draft => { draft.platforms.push({ x: sx, y: sy, width: preset.width, height: preset.height, type: tool.type }) })
+        setSelection({ kind: 'platform', index: level.platforms.length })
+        break
+      }
+      case 'enemy':
+        updateLevel(draft => { draft.enemies.push({ x: sx, y: sy, type: tool.type }) })
+        setSelection({ kind: 'enemy', index: level.enemies.length })
+        break
+      case 'coin':
+        updateLevel(draft => { draft.coins.push({ x: sx, y: sy }) })
+        setSelection({ kind: 'coin', index: level.coins.length })
+        break
+      case 'powerUp':
+        updateLevel(draft => { draft.powerUps.push({ x: sx, y: sy, type: tool.type }) })
+        setSelection({ kind: 'powerUp', index: level.powerUps.length })
+        break
+      case 'playerStart':
+        updateLevel(draft => { draft.playerStart = { x: sx, y: sy } })
+        setSelection({ kind: 'playerStart', index: 0 })
+        break
+      case 'goal':
+        updateLevel(draft => { draft.goal = { x: sx, y: sy } })
+        setSelection({ kind: 'goal', index: 0 })
+        break
+      case 'polygon': {
+        const first = draftPolygon[0]
+        // Clicking the first vertex again closes the shape
+        if (first && draftPolygon.length >= 3 && Math.hypot(first[0] - sx, first[1] - sy) <= gridSize / 2) {
+          finishPolygon()
+        } else {
+          setDraftPolygon(prev => [...prev, [sx, sy]])
+        }
+        break
+      }
+    }
+  }
+
+  const finishPolygon = () => {
+    if (draftPolygon.length >= 3) {
+      const points = draftPolygon
+      updateLevel(draft => { draft.polygons.push({ points, type: 'polygon' }) })
+      setSelection({ kind: 'polygon', index: level.polygons.length })
+    }
+    setDraftPolygon([])
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = toWorld(e)
+    setError(null)
+
+    if (tool.kind !== 'select') {
+      addItemAt(x, y)
+      return
+    }
+
+    const handle = HANDLE_SIZE / zoom
+
+    // Handles of the current selection take priority over whatever is underneath
+    if (selection?.kind === 'polygon') {
+      const contours = level.polygons[selection.index].points
+      const vertex = contours.findIndex(([vx, vy]) => Math.abs(vx - x) <= handle && Math.abs(vy - y) <= handle)
+      if (vertex >= 0) {
+        dragRef.current = { mode: 'vertex', vertex }
+        canvasRef.current?.setPointerCapture(e.pointerId)
+        return
+      }
+
+      // Alt-click on an edge inserts a vertex there
+      if (e.altKey) {
+        const edge = contours.findIndex((point, i) => distanceToSegment(x, y, point, contours[(i + 1) % contours.length]) <= handle)
+        if (edge >= 0) {
+          updateLevel(draft => { draft.polygons[selection.index].points.splice(edge + 1, 0, [snap(x), snap(y)]) })
+          dragRef.current = { mode: 'vertex', vertex: edge + 1 }
+          canvasRef.current?.setPointerCapture(e.pointerId)
+          return
+        }
+      }
+    }
+    if (selection?.kind === 'platform') {
+      const rect = getItemRect(level, selection)
+      if (rect && Math.abs(rect.x + rect.width - x) <= handle && Math.abs(rect.y + rect.height - y) <= handle) {
+        dragRef.current = { mode: 'resize' }
+        canvasRef.current?.setPointerCapture(e.pointerId)
+        return
+      }
+    }
+
+    const hit = hitTest(level, x, y)
+    setSelection(hit)
+    if (hit) {
+      const rect = getItemRect(level, hit)!
+      dragRef.current = { mode: 'move', offsetX: x - rect.x, offsetY: y - rect.y }
+      canvasRef.current?.setPointerCapture(e.pointerId)
+    }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current
+    if (!drag || !selection) return
+    const { x, y } = toWorld(e)
+
+    updateLevel(draft => {
+      if (drag.mode === 'vertex') {
+        draft.polygons[selection.index].points[drag.vertex] = [snap(x), snap(y)]
+        return
+      }
+
+      if (drag.mode === 'resize') {
+        const platform = draft.platforms[selection.index]
+        platform.width = Math.max(gridSize, snap(x) - platform.x)
+        platform.height = Math.max(gridSize, snap(y) - platform.y)
+        return
+      }
+
+      const rect = getItemRect(draft, selection)
+      if (!rect) return
+      const dx = snap(x - drag.offsetX) - rect.x
+      const dy = snap(y - drag.offsetY) - rect.y
+      moveItem(draft, selection, dx, dy)
+    })
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    dragRef.current = null
+    if (canvasRef.current?.hasPointerCapture(e.pointerId)) {
+      canvasRef.current.releasePointerCapture(e.pointerId)
+    }
+  }
+
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (tool.kind === 'polygon') {
+      finishPolygon()
+      return
+    }
+
+    // Double-clicking a vertex removes it, as long as the shape stays a polygon
+    if (selection?.kind === 'polygon') {
+      const { x, y } = toWorld(e)
+      const handle = HANDLE_SIZE / zoom
+      const contours = level.polygons[selection.index].points
+      const vertex = contours.findIndex(([vx, vy]) => Math.abs(vx - x) <= handle && Math.abs(vy - y) <= handle)
+      if (vertex >= 0 && contours.length > 3) {
+        updateLevel(draft => { draft.polygons[selection.index].points.splice(vertex, 1) })
+      }
+    }
+  }
+
+  const moveItem = (draft: LevelDocument, item: Selection, dx: number, dy: number) => {
+    switch (item.kind) {
+      case 'platform':
+        draft.platforms[item.index].x += dx
+        draft.platforms[item.index].y += dy
+        break
+      case 'polygon':
+        draft.polygons[item.index].points = draft.polygons[item.index].points.map(([px, py]) => [px + dx, py + dy])
+        break
+      case 'enemy':
+        draft.enemies[item.index].x += dx
+        draft.enemies[item.index].y += dy
+        break
+      case 'coin':
+        draft.coins[item.index].x += dx
+        draft.coins[item.index].y += dy
+        break
+      case 'powerUp':
+        draft.powerUps[item.index].x += dx
+        draft.powerUps[item.index].y += dy
+        break
+      case 'playerStart':
+        if (draft.playerStart) {
+          draft.playerStart.x += dx
+          draft.playerStart.y += dy
+        }
+        break
+      case 'goal':
+        if (draft.goal) {
+          draft.goal.x += dx
+          draft.goal.y += dy
+        }
+        break
+    }
+  }
+
+  const deleteSelection = useCallback(() => {
+    if (!selection) return
+    // The player always needs somewhere to start
+    if (selection.kind === 'playerStart') return
+
+    updateLevel(draft => {
+      switch (selection.kind) {
+        case 'platform': draft.platforms.splice(selection.index, 1); break
+        case 'polygon': draft.polygons.splice(selection.index, 1); break
+        case 'enemy': draft.enemies.splice(selection.index, 1); break
+        case 'coin': draft.coins.splice(selection.index, 1); break
+        case 'powerUp': draft.powerUps.splice(selection.index, 1); break
+        case 'goal': draft.goal = null; break
+      }
+    })
+    setSelection(null)
+  }, [selection])
+
+  // Keyboard shortcuts while editing
+  useEffect(() => {
+    if (!isOpen || isPlaying) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave typing in the property fields alone
+      if ((e.target as HTMLElement)?.tagName === 'INPUT' || (e.target as HTMLElement)?.tagName === 'SELECT') return
+      if (showControls) return
+
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault()
+        deleteSelection()
+      } else if (e.key === 'Escape') {
+        setDraftPolygon([])
+        setSelection(null)
+        setTool({ kind: 'select' })
+      } else if (e.key === 'Enter' && draftPolygon.length > 0) {
+        finishPolygon()
+      } else if (selection && e.key.startsWith('Arrow')) {
+        e.preventDefault()
+        const dx = e.key === 'ArrowLeft' ? -gridSize : e.key === 'ArrowRight' ? gridSize : 0
+        const dy = e.key === 'ArrowUp' ? -gridSize : e.key === 'ArrowDown' ? gridSize : 0
+        updateLevel(draft => moveItem(draft, selection, dx, dy))
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
+  // ==================== PLAY-TEST ====================
+
+  useEffect(() => {
+    if (!isPlaying || !playCanvasRef.current) return
+
+    // Straight into play - the editor is the title screen here
+    const api = new GameAPI(playCanvasRef.current, { titleScreen: false })
+    try {
+      api.builder.importJSON(JSON.stringify(levelRef.current))
+    } catch (err) {
+      console.error('Play-test level is invalid:', err)
+      setError(err instanceof Error ? err.message : 'The level could not be started')
+      setIsPlaying(false)
+      api.getEngine().destroy()
+      return
+    }
+    playApiRef.current = api
+    api.builder.build()
+    api.startGame().catch(err => {
+      console.error('Play-test failed to start:', err)
+      setError('The level could not be started')
+      setIsPlaying(false)
+    })
+    playCanvasRef.current.focus()
+
+    return () => {
+      playApiRef.current = null
+      api.getEngine().destroy()
+    }
+  }, [isPlaying])
+
+  // ==================== IMPORT / EXPORT ====================
+
+  const handleExport = () => {
+    // Same versioned format as LevelBuilder.exportJSON
+    const json = JSON.stringify(level, null, 2)
+    const blob = new Blob([json], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'level.json'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      // Older builder and drawn levels are migrated to the current schema
+      const imported = LevelMigrations.migrate(JSON.parse(await file.text()))
+      setLevel(imported)
+      setSelection(null)
+      setDraftPolygon([])
+      setError(null)
+    } catch (err) {
+      console.error('Failed to import level JSON:', err)
+      setError(err instanceof Error ? `Import failed: ${err.message}` : 'Import failed')
+    }
+  }
+
+  const handleClear = () => {
+    if (!window.confirm('Clear the whole level?')) return
+    setLevel(LevelSchema.createEmpty())
+    setSelection(null)
+    setDraftPolygon([])
+  }
+
+  const handleCameraModeChange = (mode: string) => {
+    updateLevel(draft => {
+      const { mode: _previous, ...rest } = draft.camera || {}
+      const camera = mode ? { ...rest, mode: mode as CameraMode } : rest
+      if (Object.keys(camera).length > 0) draft.camera = camera
+      else delete draft.camera
+    })
+  }
+
+  // ==================== PROPERTIES ====================
+
+  const renderProperties = () => {
+    if (!selection) {
+      return <p className="level-editor-hint">Select an item to edit it. Alt-click a polygon edge to add a vertex, double-click a vertex to remove it.</p>
+    }
+
+    const numberField = (label: string, value: number, apply: (draft: LevelDocument, value: number) => void) => (
+      <label className="level-editor-field" key={label}>
+        <span>{label}</span>
+        <input
+          type="number"
+          value={Math.round(value)}
+          onChange={(e) => {
+            const parsed = Number(e.target.value)
+            if (isFinite(parsed)) updateLevel(draft => apply(draft, parsed))
+          }}
+        />
+      </label>
+    )
+
+    const typeField = (value: string, options: string[], apply: (draft: LevelDocument, value: string) => void) => (
+      <label className="level-editor-field">
+        <span>Type</span>
+        <select value={value} onChange={(e) => updateLevel(draft => apply(draft, e.target.value))}>
+          {options.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+      </label>
+    )
+
+    const { index } = selection
+    switch (selection.kind) {
+      case 'platform': {
+        const p = level.platforms[index]
+        if (!p) return null
+        return (
+          <>
+            {typeField(p.type || 'normal', PLATFORM_TYPES.map(entry => entry.type), (d, v) => { d.platforms[index].type = v })}
+            {numberField('X', p.x, (d, v) => { d.platforms[index].x = v })}
+            {numberField('Y', p.y, (d, v) => { d.platforms[index].y = v })}
+            {numberField('Width', p.width, (d, v) => { d.platforms[index].width = Math.max(1, v) })}
+            {numberField('Height', p.height, (d, v) => { d.platforms[index].height = Math.max(1, v) })}
+            {BLOCK_TYPES.includes(p.type || '') && (
+              <label className="level-editor-field">
+                <span>Contents</span>
+                <select
+                  value={p.contents || ''}
+                  onChange={(e) => updateLevel(draft => {
+                    if (e.target.value) draft.platforms[index].contents = e.target.value as BlockContents
+                    else delete draft.platforms[index].contents
+                  })}
+                >
+                  <option value="">Default</option>
+                  {BLOCK_CONTENTS.map(contents => <option key={contents} value={contents}>{contents}</option>)}
+                </select>
+              </label>
+            )}
+            <label className="level-editor-field">
+              <span>When stood on</span>
+              <select
+                value={p.trigger || ''}
+                onChange={(e) => updateLevel(draft => {
+                  if (e.target.value) draft.platforms[index].trigger = e.target.value as PlatformTrigger
+                  else delete draft.platforms[index].trigger
+                })}
+              >
+                <option value="">Stays put</option>
+                {PLATFORM_TRIGGERS.map(trigger => <option key={trigger} value={trigger}>{trigger}</option>)}
+              </select>
+            </label>
+            <label className="level-editor-field">
+              <span>One-way</span>
+              <select
+                value={p.oneWay ? 'yes' : 'no'}
+                onChange={(e) => updateLevel(draft => {
+                  if (e.target.value === 'yes') draft.platforms[index].oneWay = true
+                  else delete draft.platforms[index].oneWay
+                })}
+              >
+                <option value="no">No</option>
+                <option value="yes">Yes</option>
+              </select>
+            </label>
+            {p.type === 'pipe' && (
+              <label className="level-editor-field">
+                <span>Warps to</span>
+                <select
+                  value={p.warp ? `area:${p.warp.area ?? ''}` : ''}
+                  onChange={(e) => updateLevel(draft => {
+                    const platform = draft.platforms[index]
+                    if (!e.target.value) {
+                      delete platform.warp
+                      return
+                    }
+                    const area = e.target.value.slice('area:'.length)
+                    platform.warp = { x: platform.warp?.x ?? platform.x, y: platform.warp?.y ?? platform.y - 64 }
+                    if (area) platform.warp.area = area
+                  })}
+                >
+                  <option value="">Nowhere</option>
+                  <option value="area:">Main level</option>
+                  {(level.areas || []).map(area => <option key={area.id} value={`area:${area.id}`}>{area.id}</option>)}
+                </select>
+              </label>
+            )}
+            {p.type === 'pipe' && p.warp && (
+              <>
+                {numberField('Warp X', p.warp.x, (d, v) => { d.platforms[index].warp!.x = v })}
+                {numberField('Warp Y', p.warp.y, (d, v) => { d.platforms[index].warp!.y = v })}
+              </>
+            )}
+            {p.path && (
+              <p className="level-editor-hint">
+                Moves through {p.path.points.length} point(s) at {p.path.speed}px/s ({p.path.mode || 'linear'}).
+              </p>
+            )}
+          </>
+        )
+      }
+      case 'polygon': {
+        const polygon = level.polygons[index]
+        if (!polygon) return null
+        return <p className="level-editor-hint">Polygon with {polygon.points.length} vertices. Drag the handles to reshape it.</p>
+      }
+      case 'enemy': {
+        const enemy = level.enemies[index]
+        if (!enemy) return null
+        return (
+          <>
+            {typeField(enemy.type, ENEMY_TYPES, (d, v) => { d.enemies[index].type = v })}
+            {numberField('X', enemy.x, (d, v) => { d.enemies[index].x = v })}
+            {numberField('Y', enemy.y, (d, v) => { d.enemies[index].y = v })}
+          </>
+        )
+      }
+      case 'powerUp': {
+        const powerUp = level.powerUps[index]
+        if (!powerUp) return null
+        return (
+          <>
+            {typeField(powerUp.type, POWER_UP_TYPES, (d, v) => { d.powerUps[index].type = v })}
+            {numberField('X', powerUp.x, (d, v) => { d.powerUps[index].x = v })}
+            {numberField('Y', powerUp.y, (d, v) => { d.powerUps[index].y = v })}
+          </>
+        )
+      }
+      case 'coin': {
+        const coin = level.coins[index]
+        if (!coin) return null
+        return (
+          <>
+            {numberField('X', coin.x, (d, v) => { d.coins[index].x = v })}
+            {numberField('Y', coin.y, (d, v) => { d.coins[index].y = v })}
+          </>
+        )
+      }
+      case 'playerStart':
+        if (!level.playerStart) return null
+        return (
+          <>
+            {numberField('X', level.playerStart.x, (d, v) => { if (d.playerStart) d.playerStart.x = v })}
+            {numberField('Y', level.playerStart.y, (d, v) => { if (d.playerStart) d.playerStart.y = v })}
+          </>
+        )
+      case 'goal':
+        if (!level.goal) return null
+        return (
+          <>
+            {numberField('X', level.goal.x, (d, v) => { if (d.goal) d.goal.x = v })}
+            {numberField('Y', level.goal.y, (d, v) => { if (d.goal) d.goal.y = v })}
+          </>
+        )
+    }
+  }
+
+  if (!isOpen) return null
+
+  const isActive = (candidate: Tool) =>
+    candidate.kind === tool.kind && (!('type' in candidate) || ('type' in tool && candidate.type === tool.type))
+
+  const toolButton = (candidate: Tool, label: string, key: string) => (
+    <button
+      key={key}
+      className={`level-editor-tool ${isActive(candidate) ? 'active' : ''}`}
+      onClick={() => {
+        setTool(candidate)
+        setDraftPolygon([])
+      }}
+      disabled={isPlaying}
+    >
+      {label}
+    </button>
+  )
+
+  return (
+    <div className="level-editor-overlay">
+      <div className="level-editor">
+        <div className="level-editor-header">
+          <h2>🛠️ Level Editor</h2>
+          <div className="level-editor-actions">
+            <label className="level-editor-field inline">
+              <span>Grid</span>
+              <select value={gridSize} onChange={(e) => setGridSize(Number(e.target.value))} disabled={isPlaying}>
+                {[8, 16, 32].map(size => <option key={size} value={size}>{size}px</option>)}
+              </select>
+            </label>
+            <label className="level-editor-field inline">
+              <span>Zoom</span>
+              <select value={zoom} onChange={(e) => setZoom(Number(e.target.value))} disabled={isPlaying}>
+                {[0.25, 0.5, 1].map(value => <option key={value} value={value}>{value * 100}%</option>)}
+              </select>
+            </label>
+            <label className="level-editor-field inline">
+              <span>Camera</span>
+              <select value={level.camera?.mode ?? ''} onChange={(e) => handleCameraModeChange(e.target.value)} disabled={isPlaying}>
+                <option value="">Auto</option>
+                {CAMERA_MODES.map(mode => <option key={mode} value={mode}>{CAMERA_MODE_LABELS[mode]}</option>)}
+              </select>
+            </label>
+            <button className="level-editor-button" onClick={() => fileInputRef.current?.click()} disabled={isPlaying}>📂 Import</button>
+            <button className="level-editor-button" onClick={handleExport}>💾 Export</button>
+            <button className="level-editor-button" onClick={handleClear} disabled={isPlaying}>🗑️ Clear</button>
+            <button className="level-editor-button" onClick={() => setShowControls(true)}>🎮 Controls</button>
+            <button className={`level-editor-button primary ${isPlaying ? 'playing' : ''}`} onClick={() => setIsPlaying(prev => !prev)}>
+              {isPlaying ? '⏹️ Stop' : '▶️ Play-test'}
+            </button>
+            <button className="level-editor-close" onClick={onClose} aria-label="Close editor">×</button>
+          </div>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+        </div>
+
+        {error && <div className="level-editor-error">❌ {error}</div>}
+
+        <div className="level-editor-body">
+          <aside className="level-editor-palette">
+            <h3>Tools</h3>
+            {toolButton({ kind: 'select' }, '🖱️ Select', 'select')}
+            {toolButton({ kind: 'polygon' }, '⬟ Polygon', 'polygon')}
+            {toolButton({ kind: 'playerStart' }, '🏁 Start', 'start')}
+            {toolButton({ kind: 'goal' }, '🚩 Goal', 'goal')}
+            {toolButton({ kind: 'coin' }, '🪙 Coin', 'coin')}
+
+            <h3>Platforms</h3>
+            {PLATFORM_TYPES.map(entry => toolButton({ kind: 'platform', type: entry.type }, entry.label, `platform-${entry.type}`))}
+
+            <h3>Enemies</h3>
+            {ENEMY_TYPES.map(type => toolButton({ kind: 'enemy', type }, type, `enemy-${type}`))}
+
+            <h3>Power-ups</h3>
+            {POWER_UP_TYPES.map(type => toolButton({ kind: 'powerUp', type }, type, `powerup-${type}`))}
+          </aside>
+
+          <div className="level-editor-stage">
+            {isPlaying ? (
+              <canvas ref={playCanvasRef} className="level-editor-play" tabIndex={0} />
+            ) : (
+              <canvas
+                ref={canvasRef}
+                width={canvasWidth * zoom}
+                height={canvasHeight * zoom}
+                className={`level-editor-canvas ${tool.kind === 'select' ? '' : 'placing'}`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onDoubleClick={handleDoubleClick}
+              />
+            )}
+          </div>
+
+          <aside className="level-editor-properties">
+            <h3>Properties</h3>
+            {renderProperties()}
+            {selection && selection.kind !== 'playerStart' && !isPlaying && (
+              <button className="level-editor-button danger" onClick={deleteSelection}>Delete</button>
+            )}
+            {tool.kind === 'polygon' && (
+              <p className="level-editor-hint">Click to place vertices. Click the first vertex, double-click or press Enter to close the shape.</p>
+            )}
+          </aside>
+        </div>
+      </div>
+
+      <ControlsSettingsModal
+        isOpen={showControls}
+        onClose={() => setShowControls(false)}
+        onSave={(table) => playApiRef.current?.setInputBindings(table)}
+      />
+    </div>
+  )
+}
+
+export default LevelEditor
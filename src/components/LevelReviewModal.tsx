@@ -0,0 +1,395 @@
+import React, { useEffect, useRef, useState } from 'react'
+import mapProcessing from '../services/mapProcessing'
+import type { RecognizedLevelData } from '../services/mapProcessing'
+import './LevelReviewModal.css'
+
+interface LevelReviewModalProps {
+  isOpen: boolean
+  imageUrl: string | null
+  levelData: RecognizedLevelData | null
+  isSaving?: boolean
+  error?: string | null
+  // Called with null when nothing was changed
+  onConfirm: (corrected: RecognizedLevelData | null) => void
+  onSkip: () => void
+}
+
+type PointKind = 'start' | 'end' | 'checkpoint'
+
+type Selection =
+  | { kind: PointKind; index: number }
+  | { kind: 'body'; index: number }
+
+type Drag =
+  | { kind: PointKind; index: number }
+  | { kind: 'vertex'; index: number; vertex: number }
+  | { kind: 'body'; index: number; lastX: number; lastY: number }
+
+// The engine's level space, used when the backend doesn't report an image size
+const DEFAULT_VIEW = { width: 1024, height: 576 }
+// Side of the square a point becomes when it is turned into a platform
+const DEFAULT_POINT_SIZE = 20
+
+const LevelReviewModal: React.FC<LevelReviewModalProps> = ({
+  isOpen,
+  imageUrl,
+  levelData,
+  isSaving = false,
+  error,
+  onConfirm,
+  onSkip
+}) => {
+  const [data, setData] = useState<RecognizedLevelData | null>(null)
+  const [selection, setSelection] = useState<Selection | null>(null)
+  const [splitFrom, setSplitFrom] = useState<number | null>(null)
+  const [isSplitting, setIsSplitting] = useState(false)
+  const svgRef = useRef<SVGSVGElement>(null)
+  const dragRef = useRef<Drag | null>(null)
+
+  // Start every review from what the recognizer found
+  useEffect(() => {
+    if (isOpen && levelData) {
+      setData(JSON.parse(JSON.stringify(levelData)))
+      setSelection(null)
+      setIsSplitting(false)
+      setSplitFrom(null)
+    }
+  }, [isOpen, levelData])
+
+  if (!isOpen || !data || !levelData) return null
+
+  // image_size is [height, width]
+  const view = data.image_size
+    ? { width: data.image_size[1], height: data.image_size[0] }
+    : DEFAULT_VIEW
+  const handleRadius = Math.max(view.width, view.height) / 120
+
+  const update = (change: (draft: RecognizedLevelData) => void) => {
+    setData(prev => {
+      if (!prev) return prev
+      const next: RecognizedLevelData = JSON.parse(JSON.stringify(prev))
+      change(next)
+      return next
+    })
+  }
+
+  const setContour = (draft: RecognizedLevelData, index: number, points: [number, number][]) => {
+    draft.rigid_bodies[index] = { ...draft.rigid_bodies[index], ...mapProcessing.describeContour(points) }
+  }
+
+  // Older recognition results have no checkpoint list
+  const pointsOf = (draft: RecognizedLevelData, kind: PointKind) => {
+    if (kind === 'start') return draft.starting_points
+    if (kind === 'end') return draft.end_points
+    if (!draft.checkpoint_points) draft.checkpoint_points = []
+    return draft.checkpoint_points
+  }
+
+  const toImageSpace = (e: React.PointerEvent): [number, number] => {
+    const svg = svgRef.current!
+    const point = svg.createSVGPoint()
+    point.x = e.clientX
+    point.y = e.clientY
+    const local = point.matrixTransform(svg.getScreenCTM()!.inverse())
+    return [
+      Math.max(0, Math.min(view.width, local.x)),
+      Math.max(0, Math.min(view.height, local.y))
+    ]
+  }
+
+  const startDrag = (e: React.PointerEvent, drag: Drag) => {
+    e.stopPropagation()
+    dragRef.current = drag
+    svgRef.current?.setPointerCapture(e.pointerId)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag) return
+    const [x, y] = toImageSpace(e)
+
+    if (drag.kind === 'start' || drag.kind === 'end' || drag.kind === 'checkpoint') {
+      update(draft => {
+        pointsOf(draft, drag.kind)[drag.index].coordinates = [x, y]
+      })
+    } else if (drag.kind === 'vertex') {
+      update(draft => {
+        const points = draft.rigid_bodies[drag.index].contour_points.slice()
+        points[drag.vertex] = [x, y]
+        setContour(draft, drag.index, points)
+      })
+    } else if (drag.kind === 'body') {
+      const dx = x - drag.lastX
+      const dy = y - drag.lastY
+      dragRef.current = { ...drag, lastX: x, lastY: y }
+      update(draft => {
+        const points = draft.rigid_bodies[drag.index].contour_points.map(([px, py]) => [px + dx, py + dy] as [number, number])
+        setContour(draft, drag.index, points)
+      })
+    }
+  }
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    dragRef.current = null
+    if (svgRef.current?.hasPointerCapture(e.pointerId)) {
+      svgRef.current.releasePointerCapture(e.pointerId)
+    }
+  }
+
+  const handleVertexDown = (e: React.PointerEvent, index: number, vertex: number) => {
+    if (!isSplitting) {
+      setSelection({ kind: 'body', index })
+      startDrag(e, { kind: 'vertex', index, vertex })
+      return
+    }
+
+    e.stopPropagation()
+    if (splitFrom === null || splitFrom === vertex) {
+      setSplitFrom(vertex)
+      return
+    }
+    splitBody(index, splitFrom, vertex)
+  }
+
+  // Cut a contour along the chord between two of its vertices
+  const splitBody = (index: number, first: number, second: number) => {
+    const points = data.rigid_bodies[index].contour_points
+    const a = Math.min(first, second)
+    const b = Math.max(first, second)
+    const adjacent = b - a === 1 || (a === 0 && b === points.length - 1)
+    if (adjacent) {
+      // Splitting along an existing edge would leave a degenerate shape
+      setSplitFrom(second)
+      return
+    }
+
+    const left = points.slice(a, b + 1)
+    const right = [...points.slice(b), ...points.slice(0, a + 1)]
+    update(draft => {
+      setContour(draft, index, left)
+      draft.rigid_bodies.splice(index + 1, 0, { contour_points: [] })
+      setContour(draft, index + 1, right)
+    })
+    setIsSplitting(false)
+    setSplitFrom(null)
+  }
+
+  const deleteSelection = () => {
+    if (!selection) return
+    update(draft => {
+      if (selection.kind === 'body') draft.rigid_bodies.splice(selection.index, 1)
+      else pointsOf(draft, selection.kind).splice(selection.index, 1)
+    })
+    setSelection(null)
+    setIsSplitting(false)
+  }
+
+  // Turn the selected shape into a start or end point, replacing any existing one,
+  // or into one more checkpoint
+  const reclassifyAsPoint = (kind: PointKind) => {
+    if (!selection) return
+    // Worked out from the current data - the update below may not have run by the time it's selected
+    const checkpoints = data.checkpoint_points?.length ?? 0
+    const index = kind === 'checkpoint' ? checkpoints - (selection.kind === 'checkpoint' ? 1 : 0) : 0
+    update(draft => {
+      let point: { coordinates: [number, number]; area?: number }
+      if (selection.kind === 'body') {
+        const body = mapProcessing.describeContour(draft.rigid_bodies[selection.index].contour_points)
+        point = { coordinates: body.centroid!, area: body.area }
+        draft.rigid_bodies.splice(selection.index, 1)
+      } else {
+        point = pointsOf(draft, selection.kind).splice(selection.index, 1)[0]
+      }
+
+      if (kind === 'start') draft.starting_points = [point]
+      else if (kind === 'end') draft.end_points = [point]
+      else pointsOf(draft, kind).push(point)
+    })
+    setSelection({ kind, index })
+  }
+
+  const reclassifyAsPlatform = () => {
+    if (!selection || selection.kind === 'body') return
+    update(draft => {
+      const [point] = pointsOf(draft, selection.kind).splice(selection.index, 1)
+      const half = (point.area ? Math.sqrt(point.area) : DEFAULT_POINT_SIZE) / 2
+      const [x, y] = point.coordinates
+      draft.rigid_bodies.push(mapProcessing.describeContour([
+        [x - half, y - half],
+        [x + half, y - half],
+        [x + half, y + half],
+        [x - half, y + half]
+      ]))
+    })
+    setSelection({ kind: 'body', index: data.rigid_bodies.length })
+  }
+
+  const handleConfirm = () => {
+    const changed = JSON.stringify(data) !== JSON.stringify(levelData)
+    onConfirm(changed ? data : null)
+  }
+
+  const isSelected = (kind: Selection['kind'], index: number) =>
+    selection?.kind === kind && selection.index === index
+
+  const renderPoint = (kind: PointKind, index: number, [x, y]: [number, number]) => (
+    <g key={`${kind}-${index}`} className={`review-point ${kind} ${isSelected(kind, index) ? 'selected' : ''}`}>
+      {kind === 'checkpoint' ? (
+        <polygon
+          points={`${x},${y - handleRadius * 2} ${x + handleRadius * 2},${y} ${x},${y + handleRadius * 2} ${x - handleRadius * 2},${y}`}
+          onPointerDown={(e) => {
+            setSelection({ kind, index })
+            startDrag(e, { kind, index })
+          }}
+        />
+      ) : kind === 'start' ? (
+        <polygon
+          points={`${x},${y - handleRadius * 2} ${x + handleRadius * 2},${y + handleRadius * 1.5} ${x - handleRadius * 2},${y + handleRadius * 1.5}`}
+          onPointerDown={(e) => {
+            setSelection({ kind, index })
+            startDrag(e, { kind, index })
+          }}
+        />
+      ) : (
+        <circle
+          cx={x}
+          cy={y}
+          r={handleRadius * 2}
+          onPointerDown={(e) => {
+            setSelection({ kind, index })
+            startDrag(e, { kind, index })
+          }}
+        />
+      )}
+    </g>
+  )
+
+  return (
+    <div className="level-review-overlay">
+      <div className="level-review">
+        <div className="level-review-header">
+          <h2>🔍 Check the detected shapes</h2>
+          <p>
+            Drag points and corners to fix them, or select a shape to delete, split or reclassify it.
+            Triangles mark the start, circles the end and diamonds the checkpoints.
+          </p>
+        </div>
+
+        <div className="level-review-body">
+          <div className="level-review-stage">
+            <svg
+              ref={svgRef}
+              viewBox={`0 0 ${view.width} ${view.height}`}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerDown={() => {
+                setSelection(null)
+                setIsSplitting(false)
+                setSplitFrom(null)
+              }}
+            >
+              {imageUrl && (
+                <image href={imageUrl} x={0} y={0} width={view.width} height={view.height} preserveAspectRatio="none" />
+              )}
+
+              {data.rigid_bodies.map((body, index) => (
+                <g key={`body-${index}`} className={`review-body ${isSelected('body', index) ? 'selected' : ''}`}>
+                  <polygon
+                    points={body.contour_points.map(([x, y]) => `${x},${y}`).join(' ')}
+                    onPointerDown={(e) => {
+                      setSelection({ kind: 'body', index })
+                      if (isSplitting && !isSelected('body', index)) {
+                        setIsSplitting(false)
+                        setSplitFrom(null)
+                      }
+                      const [x, y] = toImageSpace(e)
+                      startDrag(e, { kind: 'body', index, lastX: x, lastY: y })
+                    }}
+                  />
+                  {isSelected('body', index) && body.contour_points.map(([x, y], vertex) => (
+                    <circle
+                      key={vertex}
+                      className={`review-vertex ${isSplitting && splitFrom === vertex ? 'split-from' : ''}`}
+                      cx={x}
+                      cy={y}
+                      r={handleRadius}
+                      onPointerDown={(e) => handleVertexDown(e, index, vertex)}
+                    />
+                  ))}
+                </g>
+              ))}
+
+              {data.starting_points.map((point, index) => renderPoint('start', index, point.coordinates))}
+              {data.end_points.map((point, index) => renderPoint('end', index, point.coordinates))}
+              {(data.checkpoint_points || []).map((point, index) => renderPoint('checkpoint', index, point.coordinates))}
+            </svg>
+          </div>
+
+          <aside className="level-review-sidebar">
+            <div className="level-review-counts">
+              <span>▲ Start: {data.starting_points.length}</span>
+              <span>● End: {data.end_points.length}</span>
+              <span>◆ Checkpoints: {data.checkpoint_points?.length || 0}</span>
+              <span>■ Platforms: {data.rigid_bodies.length}</span>
+            </div>
+
+            {selection ? (
+              <div className="level-review-actions">
+                <h3>{{ body: 'Platform', start: 'Start point', end: 'End point', checkpoint: 'Checkpoint' }[selection.kind]}</h3>
+                {selection.kind === 'body' && (
+                  <button
+                    className={isSplitting ? 'active' : ''}
+                    onClick={() => {
+                      setIsSplitting(prev => !prev)
+                      setSplitFrom(null)
+                    }}
+                  >
+                    ✂️ {isSplitting ? 'Cancel split' : 'Split'}
+                  </button>
+                )}
+                {isSplitting && (
+                  <p className="level-review-hint">
+                    {splitFrom === null ? 'Click the first corner to cut from.' : 'Now click the corner to cut to.'}
+                  </p>
+                )}
+                {selection.kind !== 'start' && <button onClick={() => reclassifyAsPoint('start')}>▲ Make start point</button>}
+                {selection.kind !== 'end' && <button onClick={() => reclassifyAsPoint('end')}>● Make end point</button>}
+                {selection.kind !== 'checkpoint' && <button onClick={() => reclassifyAsPoint('checkpoint')}>◆ Make checkpoint</button>}
+                {selection.kind !== 'body' && <button onClick={reclassifyAsPlatform}>■ Make platform</button>}
+                <button className="danger" onClick={deleteSelection}>🗑️ Delete</button>
+              </div>
+            ) : (
+              <p className="level-review-hint">Click a shape to select it.</p>
+            )}
+
+            {data.starting_points.length === 0 && <p className="level-review-warning">⚠️ No start point - Mario will use a default position</p>}
+            {data.end_points.length === 0 && <p className="level-review-warning">⚠️ No end point - the level can't be finished</p>}
+            {error && <p className="level-review-error">❌ {error}</p>}
+          </aside>
+        </div>
+
+        <div className="level-review-footer">
+          <button
+            className="secondary"
+            onClick={() => {
+              setData(JSON.parse(JSON.stringify(levelData)))
+              setSelection(null)
+              setIsSplitting(false)
+            }}
+            disabled={isSaving}
+          >
+            ↺ Reset
+          </button>
+          <button className="secondary" onClick={onSkip} disabled={isSaving}>
+            Use as detected
+          </button>
+          <button className="primary" onClick={handleConfirm} disabled={isSaving}>
+            {isSaving ? '💾 Saving...' : '✅ Save level'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default LevelReviewModal
@@ -1,9 +1,11 @@
-import React, { useState, useRef, useEffect } from 'react'
+import React, { useState, useRef, useEffect, useMemo } from 'react'
 import GamePanel from './GamePanel'
 import MapUploadModal from './MapUploadModal'
 import AICodeGeneratorLoader from './AICodeGeneratorLoader'
 import DrawingGuideModal from './DrawingGuideModal'
+import LevelReviewModal from './LevelReviewModal'
 import mapProcessing from '../services/mapProcessing'
+import type { RecognizedLevelData } from '../services/mapProcessing'
 import { gameAPI } from '../services/api'
 import './MobileLayout.css'
 
@@ -19,6 +21,15 @@ const MobileLayout: React.FC = () => {
   const [gameLoaded, setGameLoaded] = useState(false)
   const [showGuideModal, setShowGuideModal] = useState(false)
   const gamePanelRef = useRef<any>(null)
+  // Recognition result waiting for the user to check it before it is saved
+  const [reviewResult, setReviewResult] = useState<any>(null)
+  const [reviewImageUrl, setReviewImageUrl] = useState<string | null>(null)
+  const [isSavingReview, setIsSavingReview] = useState(false)
+  const [reviewError, setReviewError] = useState<string | null>(null)
+  const reviewLevelData = useMemo(
+    () => reviewResult ? mapProcessing.getRecognizedLevelData(reviewResult) : null,
+    [reviewResult]
+  )
 
   // Debug info
   console.log('📱 MobileLayout rendered')
@@ -119,6 +130,9 @@ const MobileLayout: React.FC = () => {
     setShowUploadModal(false)
     setShowAILoader(true)
 
+    if (reviewImageUrl) URL.revokeObjectURL(reviewImageUrl)
+    setReviewImageUrl(URL.createObjectURL(file))
+
     try {
       // Start processing and store result when done
       const result = await mapProcessing.processMap(file, (step: string, message: string) => {
@@ -169,30 +183,12 @@ const MobileLayout: React.FC = () => {
       return
     }
 
-    // Handle single level
-    if (result.level_id) {
-      try {
-        // 手机模式：自动保存到数据库（public）
-        console.log('📱 Auto-publishing level to database...')
-        await gameAPI.saveLevel(
-          `Mobile Level ${new Date().toLocaleString()}`,
-          result.levelData || result.rawData,
-          'medium'
-        )
-        console.log('📱 Level published to database successfully')
-
-        // 直接跳转到游戏页面，而不是在 iframe 中加载
-        const gameUrl = `https://frontend-mario.vercel.app/embed?id=${result.level_id}&mobile=true`
-        console.log('📱 Redirecting to game page:', gameUrl)
-
-        // 直接跳转
-        window.location.href = gameUrl
-      } catch (error) {
-        console.error('📱 Error publishing level:', error)
-        // 即使保存失败，也尝试跳转到游戏
-        const gameUrl = `https://frontend-mario.vercel.app/embed?id=${result.level_id}&mobile=true`
-        window.location.href = gameUrl
-      }
+    // Handle single level - let the user fix recognition mistakes before it is published
+    if (result.level_id && mapProcessing.getRecognizedLevelData(result)) {
+      setReviewError(null)
+      setReviewResult(result)
+    } else if (result.level_id) {
+      await publishLevel(result)
     } else {
       console.error('📱 No level_id or pack_id in result')
       alert('Upload processing failed, please try again')
@@ -200,6 +196,57 @@ const MobileLayout: React.FC = () => {
     }
   }
 
+  const publishLevel = async (result: any) => {
+    try {
+      // 手机模式：自动保存到数据库（public）
+      console.log('📱 Auto-publishing level to database...')
+      await gameAPI.saveLevel(
+        `Mobile Level ${new Date().toLocaleString()}`,
+        result.levelData || result.rawData,
+        'medium'
+      )
+      console.log('📱 Level published to database successfully')
+    } catch (error) {
+      // 即使保存失败，也尝试跳转到游戏
+      console.error('📱 Error publishing level:', error)
+    }
+
+    // 直接跳转到游戏页面，而不是在 iframe 中加载
+    const gameUrl = `https://frontend-mario.vercel.app/embed?id=${result.level_id}&mobile=true`
+    console.log('📱 Redirecting to game page:', gameUrl)
+    window.location.href = gameUrl
+  }
+
+  const handleReviewConfirm = async (corrected: RecognizedLevelData | null) => {
+    if (!reviewResult) return
+
+    if (!corrected) {
+      setReviewResult(null)
+      await publishLevel(reviewResult)
+      return
+    }
+
+    setIsSavingReview(true)
+    setReviewError(null)
+    try {
+      // The corrected shapes are saved as their own level, so play that one
+      const saved = await mapProcessing.saveCorrectedLevel(reviewResult, corrected, `Mobile Level ${new Date().toLocaleString()}`)
+      console.log('📱 Corrected level published to database successfully')
+      window.location.href = `https://frontend-mario.vercel.app/embed?id=${saved.level_id}&mobile=true`
+    } catch (error) {
+      console.error('📱 Error publishing corrected level:', error)
+      setReviewError(error instanceof Error ? error.message : 'Failed to save the corrected level')
+    } finally {
+      setIsSavingReview(false)
+    }
+  }
+
+  const handleReviewSkip = async () => {
+    const result = reviewResult
+    setReviewResult(null)
+    if (result) await publishLevel(result)
+  }
+
   const handleBackToUpload = () => {
     setGameLoaded(false)
     setCurrentLevelData(null)
@@ -339,6 +386,16 @@ const MobileLayout: React.FC = () => {
         isOpen={showGuideModal}
         onClose={handleCloseGuideModal}
       />
+
+      <LevelReviewModal
+        isOpen={reviewResult !== null}
+        imageUrl={reviewImageUrl}
+        levelData={reviewLevelData}
+        isSaving={isSavingReview}
+        error={reviewError}
+        onConfirm={handleReviewConfirm}
+        onSkip={handleReviewSkip}
+      />
     </div>
   )
 }
@@ -1,24 +1,100 @@
 import { Renderer } from './render/Renderer'
 import { PhysicsEngine } from './physics/PhysicsEngine'
+import type { AABB } from './physics/PhysicsEngine'
 import { EntityManager } from './entities/EntityManager'
-import { InputManager } from './input/InputManager'
+import { InputManager, InputSource } from './input/InputManager'
 import { Camera } from './render/Camera'
 import { Level } from './level/Level'
 import { Player } from './entities/Player'
 import { Platform } from './level/Platform'
+import { Polygon } from './level/Polygon'
+import { Region } from './level/Region'
 import { Entity } from './entities/Entity'
+import { Enemy } from './entities/Enemy'
+import { MAX_ENEMY_REACH } from './entities/behaviors/EnemyBehavior'
+import type { EnemyWorld } from './entities/behaviors/EnemyBehavior'
+import { Fireball } from './entities/Fireball'
+import { PowerUp } from './entities/PowerUp'
+import { Checkpoint } from './entities/Checkpoint'
 import { SpriteLoader } from './sprites/SpriteLoader'
+import { GameUI, DomGameUI, NullGameUI } from './render/GameUI'
+import { MenuRenderer } from './render/MenuRenderer'
+import { TouchControlsRenderer } from './render/TouchControlsRenderer'
+import { ParticleEffects } from './render/ParticleEffects'
+import type { TouchControlsConfig } from './input/TouchControls'
+import { SceneManager } from './scenes/SceneManager'
+import type { SceneName, SceneMenu } from './scenes/SceneManager'
 import { audioManager } from './audio/AudioManager'
+import { SoundBindings } from './audio/SoundBindings'
+import { LevelMusic } from './audio/LevelMusic'
+import type { SoundBindingMap } from './audio/SoundBindings'
+import { EventBus } from './core/EventBus'
+import { SeededRandom } from './core/SeededRandom'
+import { LevelBuilder } from './LevelBuilder'
+import { DEFAULT_PLAYER_START, DEFAULT_WORLD_SIZE } from './schema/LevelSchema'
+import type { BlockContents, LevelDocument, LevelWarp } from './schema/LevelSchema'
+import { LevelMigrations } from './schema/LevelMigrations'
+import { Replay } from './replay/Replay'
+import { ReplayRecorder } from './replay/ReplayRecorder'
+import { ReplayPlayer } from './replay/ReplayPlayer'
 
 export interface GameConfig {
   width?: number
   height?: number
   gravity?: number
+  /** No longer used - the simulation always runs at TICK_RATE and rendering follows the display */
   fps?: number
+  /** Seed for the simulation RNG; the same seed and inputs replay identically */
+  seed?: number
   goal_x?: number
   goal_y?: number
   start_x?: number
   start_y?: number
+  /** Run without canvas, DOM, keyboard or audio - step the simulation manually with step() */
+  headless?: boolean
+  /** Use the spatial grid to find nearby shapes and entities (default true) - off scans everything */
+  broadphase?: boolean
+  /** Where score, lives and coins are shown (defaults to the page's DOM elements, none when headless) */
+  ui?: GameUI
+  /** Open on the title screen (default true) - off starts straight into play. Headless engines never show it. */
+  titleScreen?: boolean
+  /** On-screen stick and buttons - shown once the screen is touched by default */
+  touchControls?: Partial<TouchControlsConfig>
+}
+
+export type GameOutcome = 'playing' | 'victory' | 'game_over'
+
+/**
+ * The serializable data a level was built from. New sources are always level
+ * documents; 'drawn' and 'builder' only appear in replays recorded before the
+ * unified schema and are migrated when they are rebuilt.
+ */
+export interface LevelSource {
+  format: 'document' | 'drawn' | 'builder'
+  data: any
+}
+
+/**
+ * Summary of a replay run to completion, for comparing against the bug report
+ */
+export interface ReplayResult {
+  ticks: number
+  outcome: GameOutcome
+  score: number
+  coins: number
+  lives: number
+  playerPosition: { x: number; y: number } | null
+}
+
+/**
+ * How far a player got through a pack - what savePackProgress stores and
+ * loadLevelPack can resume from
+ */
+export interface PackProgress {
+  currentLevelIndex: number
+  completedLevels: number[]
+  // Checkpoint indices reached on levels not finished yet, keyed by level index
+  checkpoints: Record<number, number[]>
 }
 
 export interface LevelPackData {
@@ -28,58 +104,183 @@ export interface LevelPackData {
     name: string
     totalLevels: number
   }
+  // Per-pack changes to which sound each event plays
+  sounds?: SoundBindingMap
+}
+
+// Simulation steps per second. Fixed at the rate the player's speeds, jump and
+// stomp impulses and enemy timings are tuned for - any other rate would change
+// jump heights and trajectories, and replays would no longer match
+const TICK_RATE = PhysicsEngine.REFERENCE_TICK_RATE
+// Longest frame we try to catch up on (e.g. after a background tab resumes)
+const MAX_FRAME_TIME = 0.25
+// Hard cap on simulation steps per rendered frame to avoid a spiral of death
+const MAX_TICKS_PER_FRAME = 10
+// Seconds the level-complete banner stays up before advancing in a pack
+const LEVEL_ADVANCE_DELAY = 3
+// How close the player must get to the goal pipe to finish the level
+const GOAL_TOUCH_MARGIN = 1
+// How far above the player's head a block can be and still be hit
+const BLOCK_HIT_REACH = 2
+// Lives at the start of a game and after continuing from game over
+const STARTING_LIVES = 3
+// Seconds spent sinking into a warp pipe, the last part of it fading to black,
+// and fading back in where it leads
+const WARP_ENTER_TIME = 0.8
+const WARP_FADE_TIME = 0.3
+const WARP_EXIT_TIME = 0.4
+// How far in from a pipe's edges the player's centre must be to go down it
+const PIPE_ENTRY_MARGIN = 8
+// Entities that move further than this in one tick (respawns, teleports) are not interpolated
+const INTERPOLATION_SNAP_DISTANCE = 64
+
+// Fed to the player when no input source is attached (headless without a script)
+const IDLE_INPUT: InputSource = {
+  getInput: () => ({ left: false, right: false, up: false, down: false, jump: false, run: false, action: false })
 }
 
 export class GameEngine {
-  private canvas: HTMLCanvasElement
-  private ctx: CanvasRenderingContext2D
-  private renderer: Renderer
+  // Canvas, context and renderer are null in headless mode
+  private canvas: HTMLCanvasElement | null
+  private ctx: CanvasRenderingContext2D | null
+  private renderer: Renderer | null
+  private menuRenderer: MenuRenderer | null
+  private touchControlsRenderer: TouchControlsRenderer | null
+  private width: number
+  private height: number
+  private headless: boolean
+  private ui: GameUI
   private physics: PhysicsEngine
   private entityManager: EntityManager
-  private inputManager: InputManager
+  private inputManager: InputManager | null
+  private inputSource: InputSource
   private camera: Camera
+  // The area being played - the level as loaded, or one of its rooms
   private currentLevel: Level | null = null
+  private mainLevel: Level | null = null
   private player: Player | null = null
+  // Going down a warp pipe, null the rest of the time
+  private warp: { pipe: Platform; target: LevelWarp; phase: 'enter' | 'exit'; timer: number } | null = null
+
+  private scenes: SceneManager
+  private titleScreen: boolean
+  private events = new EventBus()
+  // Null when headless - events still fire, nothing plays them
+  private soundBindings: SoundBindings | null
+  private levelMusic: LevelMusic | null
 
   private running = false
-  private paused = false
   private lastTime = 0
-  private deltaTime = 0
-  private fps = 60
-  private frameInterval: number
+  private frameHandle = 0
+  private destroyed = false
+  private accumulator = 0
+  private readonly fixedDelta = 1 / TICK_RATE
+  private tickCount = 0
+  private random: SeededRandom
+  // What enemy behaviors can see of the game
+  private enemyWorld: EnemyWorld = {
+    isSolidAt: (x, y) => this.isSolidAt(x, y),
+    getWorldWidth: () => this.currentLevel?.getWidth() ?? DEFAULT_WORLD_SIZE.width,
+    getPlayer: () => this.player,
+    spawnEnemy: (x, y, type) => {
+      const enemy = new Enemy(x, y, type)
+      this.entityManager.addEntity(enemy)
+      return enemy
+    },
+    random: () => this.random.next()
+  }
+
+  // Blocks mid-bounce, and debris and coins flying out of blocks
+  private bumpingBlocks: Set<Platform> = new Set()
+  private particles = new ParticleEffects()
+
+  // Positions at the start of the current tick, used to interpolate rendering
+  private previousPositions: Map<Entity, { x: number; y: number }> = new Map()
+  private previousCamera = { x: 0, y: 0 }
 
   private score = 0
   private lives = 3
   private coins = 0
+  private outcome: GameOutcome = 'playing'
   private spriteLoader: SpriteLoader
   private spritesInitialized = false
 
   // Level pack support
   private levelPack: LevelPackData | null = null
   private currentLevelIndex = 0
-
-  constructor(canvas: HTMLCanvasElement, config: GameConfig = {}) {
-    this.canvas = canvas
-    const context = canvas.getContext('2d')
-    if (!context) {
-      throw new Error('Failed to get 2D rendering context from canvas')
+  private levelAdvanceTimer: number | null = null
+  // Score, lives and coins when the current level began, restored by retrying it
+  private levelStartStats = { score: 0, lives: STARTING_LIVES, coins: 0 }
+
+  // Checkpoints touched so far by level index (0 outside a pack), in the order they were reached
+  private checkpointsReached: Record<number, number[]> = {}
+  private activeCheckpoint: Checkpoint | null = null
+
+  // Source data of the level being played, so it can be rebuilt for recording/replay
+  private levelSource: LevelSource | null = null
+  private currentLevelId: string | null = null
+
+  private useBroadphase: boolean
+
+  // Replay support
+  private recorder: ReplayRecorder | null = null
+  private replayPlayer: ReplayPlayer | null = null
+  // The engine's own gravity while a replay plays with its recorded one
+  private playbackSettings: { gravity: number } | null = null
+
+  constructor(canvas: HTMLCanvasElement | null, config: GameConfig = {}) {
+    this.headless = config.headless || !canvas
+    this.width = config.width || 1024
+    this.height = config.height || 576
+
+    if (this.headless || !canvas) {
+      this.canvas = null
+      this.ctx = null
+      this.renderer = null
+      this.menuRenderer = null
+      this.touchControlsRenderer = null
+      this.inputManager = null
+      this.inputSource = IDLE_INPUT
+      this.ui = config.ui || new NullGameUI()
+      this.soundBindings = null
+      this.levelMusic = null
+    } else {
+      this.canvas = canvas
+      const context = canvas.getContext('2d')
+      if (!context) {
+        throw new Error('Failed to get 2D rendering context from canvas')
+      }
+      this.ctx = context
+
+      // Set canvas size
+      this.canvas.width = this.width
+      this.canvas.height = this.height
+
+      this.renderer = new Renderer(this.ctx, this.width, this.height)
+      this.menuRenderer = new MenuRenderer(this.ctx, this.width, this.height)
+      this.touchControlsRenderer = new TouchControlsRenderer(this.ctx, this.width, this.height)
+      this.inputManager = new InputManager(canvas)
+      if (config.touchControls) {
+        this.inputManager.setTouchControls(config.touchControls)
+      }
+      this.inputSource = this.inputManager
+      this.ui = config.ui || new DomGameUI()
+      this.soundBindings = new SoundBindings(audioManager)
+      this.soundBindings.attach(this.events)
+      this.levelMusic = new LevelMusic(audioManager)
     }
-    this.ctx = context
-
-    // Set canvas size
-    this.canvas.width = config.width || 1024
-    this.canvas.height = config.height || 576
 
     // Initialize subsystems
-    this.renderer = new Renderer(this.ctx, this.canvas.width, this.canvas.height)
     this.physics = new PhysicsEngine(config.gravity || 0.5)
     this.entityManager = new EntityManager()
-    this.inputManager = new InputManager()
-    this.camera = new Camera(this.canvas.width, this.canvas.height)
+    this.camera = new Camera(this.width, this.height)
     this.spriteLoader = SpriteLoader.getInstance()
 
-    this.fps = config.fps || 60
-    this.frameInterval = 1000 / this.fps
+    this.useBroadphase = config.broadphase ?? true
+    this.titleScreen = !this.headless && (config.titleScreen ?? true)
+    this.scenes = new SceneManager(this.titleScreen ? 'title' : 'playing')
+
+    this.random = new SeededRandom(config.seed ?? Date.now())
 
     // Goal and start positions removed as they're not used
 
@@ -90,8 +291,8 @@ export class GameEngine {
   private setupDemoLevel() {
     this.currentLevel = new Level()
 
-    const worldWidth = 3000
-    const worldHeight = 600
+    const worldWidth = this.currentLevel.getWidth()
+    const worldHeight = this.currentLevel.getHeight()
 
     // Add invisible boundary walls to prevent wall clipping
     // Left boundary wall
@@ -124,33 +325,71 @@ export class GameEngine {
     this.loadLevel(this.currentLevel)
   }
 
-  public loadLevel(level: Level) {
+  public loadLevel(level: Level, source: LevelSource | null = null) {
+    this.mainLevel = level
+    this.levelSource = source
+    this.activeCheckpoint = null
+    this.warp = null
+    this.enterArea(level)
+  }
+
+  /**
+   * Play in one area of the level - the main level or one of its rooms - with
+   * the current player. Each area keeps what is left of its own enemies and coins.
+   */
+  private enterArea(level: Level) {
     this.currentLevel = level
+
+    // Put out fireballs from the old area so the player's throw limit resets
+    this.entityManager.update()
+    this.entityManager.getEntities().forEach(entity => {
+      if (entity instanceof Fireball) entity.dead = true
+    })
     this.entityManager.clear()
+    this.bumpingBlocks.clear()
+    this.particles.clear()
+    this.camera.setWorldSize(level.getWidth(), level.getHeight())
+    this.camera.configure(level.getCamera())
 
-    // Load level entities first
+    // Load level entities first - ones already collected or defeated stay gone
     level.getEntities().forEach(entity => {
-      this.entityManager.addEntity(entity)
+      if (!entity.dead) this.entityManager.addEntity(entity)
     })
 
     // Always add player back if exists
     if (this.player) {
       this.entityManager.addEntity(this.player)
     }
+
+    this.levelMusic?.playLevel(this.currentLevelId, level.getMusic())
   }
 
   /**
-   * Load a level pack for sequential play
+   * Load a level pack for sequential play, optionally resuming saved progress
    */
-  public loadLevelPack(packData: LevelPackData) {
+  public loadLevelPack(packData: LevelPackData, progress: PackProgress | null = null) {
     console.log(`🎮 Loading level pack: ${packData.packInfo.name}`)
     this.levelPack = packData
     this.currentLevelIndex = 0
+    this.soundBindings?.setBindings(packData.sounds)
+    this.checkpointsReached = progress ? this.copyCheckpoints(progress.checkpoints) : {}
+
+    // A new run through the pack starts from scratch
+    this.score = 0
+    this.lives = STARTING_LIVES
+    this.coins = 0
+    this.outcome = 'playing'
+    this.tickCount = 0
+    this.accumulator = 0
+    this.levelAdvanceTimer = null
+    this.player = new Player(DEFAULT_PLAYER_START.x, DEFAULT_PLAYER_START.y)
 
-    // Load the first level
+    // Load the first level, or the one the saved progress stopped at
     if (packData.levels.length > 0) {
-      this.loadLevelFromPack(0)
+      const index = progress ? Math.max(0, Math.min(progress.currentLevelIndex, packData.levels.length - 1)) : 0
+      this.loadLevelFromPack(index)
     }
+    this.updateUI()
   }
 
   /**
@@ -167,50 +406,172 @@ export class GameEngine {
 
     console.log(`📖 Loading level ${index + 1}/${this.levelPack.levels.length} from pack`)
 
+    this.currentLevelId = levelResult.id ?? null
+
     // Build the level from level data
-    const levelData = levelResult.data
-    const newLevel = new Level()
-
-    // Add platforms from rigid_bodies
-    if (levelData.rigid_bodies) {
-      levelData.rigid_bodies.forEach((body: any) => {
-        if (body.contour_points && body.contour_points.length >= 3) {
-          newLevel.addPolygon(body.contour_points)
-        }
-      })
+    const document = LevelMigrations.migrate(levelResult.data)
+    const newLevel = LevelBuilder.createLevel(document)
+
+    // Set player start position
+    if (document.playerStart && this.player) {
+      this.player.position.x = document.playerStart.x
+      this.player.position.y = document.playerStart.y
     }
 
-    // Add coins
-    if (levelData.coins) {
-      levelData.coins.forEach((coin: any) => {
-        newLevel.addCoin(coin.x, coin.y)
-      })
+    this.loadLevel(newLevel, { format: 'document', data: document })
+    this.restoreCheckpoints()
+    this.levelStartStats = { score: this.score, lives: this.lives, coins: this.coins }
+  }
+
+  /**
+   * Load a single level from a level document or any legacy level format
+   */
+  public loadLevelData(levelData: any, levelId: string | null = null) {
+    this.levelPack = null
+    this.soundBindings?.setBindings()
+    this.currentLevelIndex = 0
+    this.checkpointsReached = {}
+    this.levelSource = { format: 'document', data: LevelMigrations.migrate(levelData) }
+    this.currentLevelId = levelId
+    this.restartLevel()
+  }
+
+  /**
+   * Rebuild the current level from its source data with a fresh player and
+   * the RNG rewound to its seed, so the next tick is identical every time
+   */
+  private restartLevel() {
+    this.score = 0
+    this.lives = STARTING_LIVES
+    this.coins = 0
+    this.levelStartStats = { score: 0, lives: STARTING_LIVES, coins: 0 }
+    delete this.checkpointsReached[this.currentLevelIndex]
+    this.outcome = 'playing'
+    this.tickCount = 0
+    this.accumulator = 0
+    this.levelAdvanceTimer = null
+    this.random.reset()
+    this.previousPositions.clear()
+    this.entityManager.clear()
+    this.player = null
+
+    const source = this.levelSource
+    if (!source) {
+      this.setupDemoLevel()
+      return
     }
 
-    // Add enemies
-    if (levelData.enemies) {
-      levelData.enemies.forEach((enemy: any) => {
-        newLevel.addEnemy(enemy.x, enemy.y, enemy.type || 'goomba')
-      })
+    // Sources from older replays may still be in a legacy format
+    const document = LevelMigrations.migrate(source.data)
+    const start = document.playerStart || DEFAULT_PLAYER_START
+    this.player = new Player(start.x, start.y)
+    this.loadLevel(LevelBuilder.createLevel(document), { format: 'document', data: document })
+  }
+
+  /**
+   * Play the current level again, from its start or its last checkpoint. In a
+   * pack the score and coins go back to what they were when the level began, so
+   * earlier levels still count; after a game over the lives are refilled.
+   */
+  private retryLevel(fromCheckpoint: boolean) {
+    const start = this.levelStartStats
+    const lives = this.outcome === 'game_over' ? STARTING_LIVES : start.lives
+    const reached = this.checkpointsReached[this.currentLevelIndex]
+
+    this.restartLevel()
+    this.score = start.score
+    this.coins = start.coins
+    this.lives = lives
+    this.levelStartStats = { score: start.score, lives, coins: start.coins }
+    if (fromCheckpoint && reached) {
+      this.checkpointsReached[this.currentLevelIndex] = reached
+      this.restoreCheckpoints()
     }
+    this.updateUI()
+  }
 
-    // Set player start position
-    if (levelData.starting_points && levelData.starting_points.length > 0) {
-      const start = levelData.starting_points[0].coordinates
-      if (this.player) {
-        this.player.position.x = start[0]
-        this.player.position.y = start[1]
+  /**
+   * Raise the flags already reached on the current level (after a continue or
+   * resumed pack progress) and move the player to the last of them
+   */
+  private restoreCheckpoints() {
+    const checkpoints = this.currentLevel?.getCheckpoints() || []
+    const reached = this.checkpointsReached[this.currentLevelIndex] || []
+
+    reached.forEach(index => {
+      const checkpoint = checkpoints[index]
+      if (checkpoint) {
+        checkpoint.activate()
+        this.activeCheckpoint = checkpoint
       }
+    })
+
+    if (this.activeCheckpoint && this.player) {
+      const spawn = this.getSpawnPoint()
+      this.player.position.x = spawn.x
+      this.player.position.y = spawn.y
     }
+  }
+
+  private activateCheckpoint(checkpoint: Checkpoint) {
+    if (checkpoint.activated) return
+
+    checkpoint.activate()
+    this.activeCheckpoint = checkpoint
+    this.events.emit('checkpointReached', { x: checkpoint.position.x, y: checkpoint.position.y, index: checkpoint.index })
+    const reached = this.checkpointsReached[this.currentLevelIndex] || []
+    this.checkpointsReached[this.currentLevelIndex] = [...reached, checkpoint.index]
+    console.log(`🚩 Checkpoint ${checkpoint.index + 1} reached`)
+  }
 
-    // Set goal/end point
-    if (levelData.end_points && levelData.end_points.length > 0) {
-      const end = levelData.end_points[0].coordinates
-      // Add a goal pipe platform at the end point
-      newLevel.addPlatform(end[0], end[1], 50, 100, 'goal_pipe')
+  /**
+   * Where the player (re)appears: the last checkpoint reached, else the level's start
+   */
+  private getSpawnPoint(): { x: number; y: number } {
+    if (this.activeCheckpoint && this.player) {
+      return this.activeCheckpoint.getRespawnPoint(this.player.height)
     }
+    return this.getLevelDocument()?.playerStart || DEFAULT_PLAYER_START
+  }
 
-    this.loadLevel(newLevel)
+  /**
+   * Progress through the current pack, or null outside pack mode
+   */
+  public getPackProgress(): PackProgress | null {
+    if (!this.levelPack) return null
+
+    // The current level counts as done once its goal is reached
+    const finished = this.outcome === 'victory' || this.levelAdvanceTimer !== null
+    const completed = finished ? this.currentLevelIndex + 1 : this.currentLevelIndex
+    return {
+      currentLevelIndex: this.currentLevelIndex,
+      completedLevels: Array.from({ length: completed }, (_, index) => index),
+      checkpoints: this.copyCheckpoints(this.checkpointsReached)
+    }
+  }
+
+  // Saved progress comes back from the server - keep only well-formed entries
+  private copyCheckpoints(checkpoints: Record<number, number[]>): Record<number, number[]> {
+    const copy: Record<number, number[]> = {}
+    Object.keys(checkpoints || {}).forEach(key => {
+      const reached = checkpoints[Number(key)]
+      if (Array.isArray(reached) && reached.length > 0) {
+        copy[Number(key)] = reached.filter(index => typeof index === 'number')
+      }
+    })
+    return copy
+  }
+
+  /**
+   * Start over from the first level of the pack (or the only level)
+   */
+  private restartGame() {
+    if (this.levelPack) {
+      this.loadLevelPack(this.levelPack)
+    } else {
+      this.restartLevel()
+      this.updateUI()
+    }
   }
 
   /**
@@ -231,6 +592,9 @@ export class GameEngine {
   }
 
   public async initialize() {
+    // Nothing to load when there is nothing to draw or hear
+    if (this.headless) return
+
     // Initialize sprites
     if (!this.spritesInitialized) {
       console.log('Loading sprites...')
@@ -256,14 +620,51 @@ export class GameEngine {
 
   public async start() {
     if (this.running) return
+    if (this.headless) {
+      throw new Error('A headless GameEngine has no frame loop - advance it with step()')
+    }
 
     // Initialize sprites first
     await this.initialize()
+    // destroy() may have been called while assets were loading
+    if (this.destroyed) return
 
     this.running = true
-    this.paused = false
+    this.accumulator = 0
     this.lastTime = performance.now()
-    this.gameLoop()
+    this.frameHandle = requestAnimationFrame(this.gameLoop)
+  }
+
+  /**
+   * Stop the frame loop; start() resumes from the current state
+   */
+  public stop() {
+    this.running = false
+    if (this.frameHandle) {
+      cancelAnimationFrame(this.frameHandle)
+      this.frameHandle = 0
+    }
+  }
+
+  /**
+   * Stop and release input listeners - the engine can't be started again
+   */
+  public destroy() {
+    this.destroyed = true
+    this.stop()
+    this.soundBindings?.detach()
+    this.levelMusic?.dispose()
+    this.events.clear()
+    this.inputManager?.dispose()
+    this.inputManager = null
+    this.setInputSource(null)
+  }
+
+  /**
+   * Live keyboard, touch and controller input - null when headless
+   */
+  public getInputManager(): InputManager | null {
+    return this.inputManager
   }
 
   // Getters for debug access
@@ -275,69 +676,241 @@ export class GameEngine {
     return this.entityManager
   }
 
+  /**
+   * Toggle between playing and the pause menu (ignored on other screens)
+   */
   public pause() {
-    this.paused = !this.paused
+    const scene = this.scenes.getScene()
+    if (scene === 'playing') {
+      this.scenes.setScene('paused')
+      this.inputManager?.reset()
+      this.levelMusic?.pause()
+    } else if (scene === 'paused') {
+      this.resume()
+    }
+  }
+
+  public resume() {
+    if (this.scenes.getScene() !== 'paused') return
+
+    this.scenes.setScene('playing')
+    // Don't resume into a clock that counted the whole pause
+    this.accumulator = 0
+    this.levelMusic?.resume()
+  }
+
+  public isPaused(): boolean {
+    return this.scenes.getScene() === 'paused'
+  }
+
+  public getScene(): SceneName {
+    return this.scenes.getScene()
+  }
+
+  public getRandom(): SeededRandom {
+    return this.random
+  }
+
+  public getTickRate(): number {
+    return TICK_RATE
+  }
+
+  public getTickCount(): number {
+    return this.tickCount
   }
 
   public reset() {
     this.running = false
-    this.paused = false
+    this.scenes.setScene(this.titleScreen ? 'title' : 'playing')
+    this.levelPack = null
+    this.currentLevelIndex = 0
+    this.checkpointsReached = {}
     this.score = 0
-    this.lives = 3
+    this.lives = STARTING_LIVES
     this.coins = 0
+    this.levelStartStats = { score: 0, lives: STARTING_LIVES, coins: 0 }
+    this.outcome = 'playing'
+    this.tickCount = 0
+    this.accumulator = 0
+    this.levelAdvanceTimer = null
+    this.random.reset()
+    this.previousPositions.clear()
     this.entityManager.clear()
+    this.currentLevelId = null
     this.setupDemoLevel()
     this.updateUI()
   }
 
-  private gameLoop = () => {
+  private gameLoop = (currentTime: number) => {
     if (!this.running) return
 
-    const currentTime = performance.now()
-    const elapsed = currentTime - this.lastTime
+    // Fixed-timestep accumulator: the simulation always advances in steps of
+    // fixedDelta regardless of display refresh rate, rendering interpolates between them
+    const frameTime = Math.min((currentTime - this.lastTime) / 1000, MAX_FRAME_TIME)
+    this.lastTime = currentTime
+
+    // Menus read live devices directly - replays and scripts only drive the simulation
+    if (this.inputManager) {
+      this.scenes.handleInput(
+        this.inputManager.getMenuInput(),
+        this.getSceneMenu(),
+        this.width,
+        this.height,
+        Math.max(0, frameTime),
+        () => this.pause()
+      )
+    }
+
+    if (this.scenes.isSimulating() && this.outcome === 'playing') {
+      this.accumulator += Math.max(0, frameTime)
 
-    if (elapsed > this.frameInterval) {
-      this.deltaTime = elapsed / 1000 // Convert to seconds
+      let ticks = 0
+      while (this.accumulator >= this.fixedDelta && ticks < MAX_TICKS_PER_FRAME) {
+        this.tick()
+        this.accumulator -= this.fixedDelta
+        ticks++
+      }
 
-      if (!this.paused) {
-        this.update(this.deltaTime)
-        this.render()
+      // Still behind after the cap - drop the backlog rather than slowing down further
+      if (ticks === MAX_TICKS_PER_FRAME) {
+        this.accumulator = 0
       }
 
-      this.lastTime = currentTime - (elapsed % this.frameInterval)
+      this.render(this.accumulator / this.fixedDelta)
+    } else {
+      // Frozen behind a menu - no blending between ticks
+      this.render(1)
+    }
+
+    this.frameHandle = requestAnimationFrame(this.gameLoop)
+  }
+
+  public isHeadless(): boolean {
+    return this.headless
+  }
+
+  /**
+   * Advance the simulation synchronously, e.g. from Node tests or batch checks.
+   * Stops early once the level is won or lost; returns the number of ticks run.
+   */
+  public step(ticks = 1): number {
+    let ran = 0
+    while (ran < ticks && this.outcome === 'playing') {
+      this.tick()
+      ran++
+    }
+    return ran
+  }
+
+  /**
+   * Advance the simulation by exactly one fixed step
+   */
+  private tick() {
+    this.snapshotPositions()
+    this.update(this.fixedDelta)
+    this.tickCount++
+
+    if (this.replayPlayer && this.replayPlayer.isFinished()) {
+      this.finishPlayback()
     }
+  }
 
-    requestAnimationFrame(this.gameLoop)
+  private snapshotPositions() {
+    this.previousPositions.clear()
+    this.entityManager.getEntities().forEach(entity => {
+      this.previousPositions.set(entity, { x: entity.position.x, y: entity.position.y })
+    })
+    this.previousCamera.x = this.camera.x
+    this.previousCamera.y = this.camera.y
   }
 
   private update(dt: number) {
     // IMPORTANT: Update entity manager to process pending adds/removes
     this.entityManager.update()
 
+    // Count down to the next level of a pack in simulation time, not wall-clock time
+    if (this.levelAdvanceTimer !== null) {
+      this.levelAdvanceTimer -= dt
+      if (this.levelAdvanceTimer <= 0) {
+        this.advanceLevel()
+      }
+    }
+
     // Update input
-    const input = this.inputManager.getInput()
+    const input = this.inputSource.getInput()
+    if (this.recorder) {
+      this.recorder.record(input)
+    }
 
     // Update player with input
-    if (this.player) {
-      this.player.handleInput(input)
+    const player = this.player
+    const wasGrounded = player ? player.grounded : false
+    const hadCeiling = player ? player.ceilingCollision : false
+    if (player && input.down && !this.warp) {
+      this.enterPipe(player)
+    }
+
+    // Going through a pipe holds the rest of the world still, the player's controls included
+    if (this.warp) {
+      this.updateWarp(dt)
+      return
     }
 
+    if (player) {
+      player.handleInput(input)
+      if (player.takeJump()) {
+        this.events.emit('jump', { x: player.position.x, y: player.position.y })
+      }
+
+      // Thrown fireballs join the world like any other new entity
+      player.takeThrownFireballs().forEach(fireball => {
+        this.entityManager.addEntity(fireball)
+        this.events.emit('fireballThrown', { x: fireball.position.x, y: fireball.position.y, direction: fireball.direction })
+      })
+    }
+
+    // Moving platforms go first, taking whatever stands on them along
+    this.updatePlatforms(dt)
+
     // Update physics for all entities
     const entities = this.entityManager.getEntities()
-    const platforms = this.currentLevel?.getPlatforms() || []
 
     entities.forEach(entity => {
-      this.physics.updateEntity(entity, dt, platforms)
+      if (!entity.physics) return
+      const area = this.physics.getSweepArea(entity, dt)
+      this.physics.updateEntity(entity, dt, this.getPlatformsNear(area), this.getPolygonsNear(area), this.getRegionsNear(area))
     })
+    this.entityManager.updateSpatialIndex()
+
+    if (player && player.grounded && !wasGrounded) {
+      this.events.emit('land', { x: player.position.x, y: player.position.y })
+    }
+
+    // Jumping into a block from below hits it - once, not every tick the head stays pressed against it
+    if (player && player.ceilingCollision && !hadCeiling) {
+      this.hitBlockAbove(player)
+    }
+    this.bumpingBlocks.forEach(block => {
+      if (!block.updateBump(dt)) this.bumpingBlocks.delete(block)
+    })
+    this.particles.update(dt)
 
     // Check collisions
     this.checkCollisions()
 
     // Update entities
     entities.forEach(entity => {
-      entity.update(dt)
+      if (entity instanceof Enemy) {
+        entity.update(dt, this.enemyWorld)
+      } else {
+        entity.update(dt)
+      }
       // Apply world boundaries
       this.enforceWorldBoundaries(entity)
+      // Fireballs that leave the screen are gone for good
+      if (entity instanceof Fireball && !this.camera.isInView(entity.position.x, entity.position.y, entity.width, entity.height)) {
+        entity.dead = true
+      }
     })
 
     // Update camera to follow player
@@ -352,31 +925,183 @@ export class GameEngine {
     this.updateUI()
   }
 
+  /**
+   * Move platforms along their paths and carry their riders with them, and
+   * set off falling and crumbling platforms the player stands on
+   */
+  private updatePlatforms(dt: number) {
+    const level = this.currentLevel
+    if (!level) return
+
+    const riders = new Map<Platform, Entity[]>()
+    this.entityManager.getEntities().forEach(entity => {
+      const platform = entity.groundPlatform
+      if (!platform || !platform.motion || entity.dead) return
+      const onPlatform = riders.get(platform)
+      if (onPlatform) onPlatform.push(entity)
+      else riders.set(platform, [entity])
+    })
+
+    level.getMovingPlatforms().forEach(platform => {
+      const motion = platform.motion!
+      if (this.player && this.player.groundPlatform === platform) {
+        motion.standOn()
+      }
+
+      const wasPresent = platform.isPresent()
+      const delta = motion.update(platform, dt, level.getHeight())
+      level.updatePlatformBounds(platform)
+      if (wasPresent && !platform.isPresent() && motion.trigger === 'crumbling') {
+        this.particles.spawnDebris(platform.x, platform.y, platform.width, platform.height)
+      }
+      if (delta.x === 0 && delta.y === 0) return
+
+      riders.get(platform)?.forEach(entity => {
+        const area = this.expandArea(this.physics.getBounds(entity), Math.abs(delta.x) + Math.abs(delta.y))
+        const others = this.getPlatformsNear(area).filter(other => other !== platform)
+        this.physics.carry(entity, delta, others, this.getPolygonsNear(area))
+      })
+    })
+  }
+
+  /**
+   * Start going down the warp pipe the player is standing on, if they are over its opening
+   */
+  private enterPipe(player: Player) {
+    const pipe = player.groundPlatform
+    if (!pipe || !pipe.warp || !player.grounded) return
+
+    const center = player.position.x + player.width / 2
+    if (center < pipe.x + PIPE_ENTRY_MARGIN || center > pipe.x + pipe.width - PIPE_ENTRY_MARGIN) return
+
+    player.position.x = pipe.x + (pipe.width - player.width) / 2
+    player.velocity.x = 0
+    player.velocity.y = 0
+    this.warp = { pipe, target: pipe.warp, phase: 'enter', timer: WARP_ENTER_TIME }
+    this.events.emit('pipeEntered', { x: player.position.x, y: player.position.y, area: pipe.warp.area ?? null })
+  }
+
+  private updateWarp(dt: number) {
+    const warp = this.warp
+    const player = this.player
+    if (!warp) return
+    if (!player) {
+      this.warp = null
+      return
+    }
+
+    warp.timer -= dt
+    if (warp.phase === 'enter') {
+      // Sink out of sight into the pipe, then cut to where it leads
+      player.position.y += player.height / WARP_ENTER_TIME * dt
+      if (warp.timer <= 0) {
+        this.exitPipe(player, warp.target)
+        warp.phase = 'exit'
+        warp.timer = WARP_EXIT_TIME
+      }
+    } else if (warp.timer <= 0) {
+      this.warp = null
+    }
+  }
+
+  private exitPipe(player: Player, target: LevelWarp) {
+    const area = target.area ? this.mainLevel?.getArea(target.area) : this.mainLevel
+    if (!area) {
+      console.warn(`Warp leads to unknown area "${target.area}" - staying in this one`)
+    } else if (area !== this.currentLevel) {
+      this.enterArea(area)
+    }
+
+    player.position.x = target.x
+    player.position.y = target.y
+    player.velocity.x = 0
+    player.velocity.y = 0
+    player.grounded = false
+
+    // Cut the camera rather than panning across the level
+    this.camera.cut()
+    this.camera.follow(player)
+    this.previousCamera.x = this.camera.x
+    this.previousCamera.y = this.camera.y
+    this.events.emit('pipeExited', { x: target.x, y: target.y, area: target.area ?? null })
+  }
+
   private checkCollisions() {
     const entities = this.entityManager.getEntities()
-    const platforms = this.currentLevel?.getPlatforms() || []
-    const polygons = this.currentLevel?.getPolygons() || []
 
-    // Note: Basic platform collisions are now handled by Swept AABB in updateEntity
+    // Note: Platform and polygon collisions are swept in updateEntity
     // We only need additional collision checks here
 
-    // Check entity vs polygon collisions (still needed for complex shapes)
+    // Push out anything that ended up inside a polygon, e.g. spawned overlapping one
     entities.forEach(entity => {
-      polygons.forEach(polygon => {
+      this.getPolygonsNear(this.physics.getBounds(entity)).forEach(polygon => {
         this.physics.checkPolygonCollision(entity, polygon)
       })
     })
 
+    // Lava and pits take a life whatever the player's size, and destroy anything
+    // else that falls in
+    entities.forEach(entity => {
+      if (entity.dead) return
+      const bounds = this.physics.getBounds(entity)
+      const x = bounds.x + bounds.width / 2
+      const y = bounds.y + bounds.height / 2
+      const hazard = this.getRegionsNear(bounds).find(region => region.isDeadly() && region.contains(x, y))
+      if (!hazard) return
+      if (entity === this.player) {
+        this.loseLife(hazard.material)
+      } else if (entity.physics?.gravity) {
+        entity.dead = true
+      }
+    })
+
+    // Sliding shells knock out the enemies they run into
+    entities.forEach(entity => {
+      if (!(entity instanceof Enemy) || entity.dead || !entity.hitsEnemies()) return
+      const bounds = this.physics.getBounds(entity)
+      const nearby = this.useBroadphase ? this.entityManager.getEntitiesIn(this.expandArea(bounds, MAX_ENEMY_REACH)) : entities
+      nearby.forEach(other => {
+        if (other === entity || !(other instanceof Enemy) || other.dead || other.getRules().shellproof) return
+        if (other.overlaps(bounds)) {
+          this.defeatEnemy(other, 'shell')
+        }
+      })
+    })
+
     // Check player vs other entities
     if (this.player) {
-      entities.forEach(entity => {
-        if (entity !== this.player && this.player && this.physics.checkEntityCollision(this.player, entity)) {
+      const playerBounds = this.physics.getBounds(this.player)
+      // Enemies can reach past their own box (firebar arms), so look wider for them
+      const nearby = this.useBroadphase ? this.entityManager.getEntitiesIn(this.expandArea(playerBounds, MAX_ENEMY_REACH)) : entities
+      nearby.forEach(entity => {
+        if (entity === this.player || !this.player || entity.dead) return
+        const touching = entity instanceof Enemy
+          ? entity.overlaps(playerBounds)
+          : this.physics.checkEntityCollision(this.player, entity)
+        if (touching) {
           this.handlePlayerCollision(entity)
         }
       })
 
+      // Check fireballs vs enemies
+      entities.forEach(entity => {
+        if (!(entity instanceof Fireball) || entity.dead) return
+        const bounds = this.physics.getBounds(entity)
+        const nearby = this.useBroadphase ? this.entityManager.getEntitiesIn(this.expandArea(bounds, MAX_ENEMY_REACH)) : entities
+        const enemy = nearby.find(other => other instanceof Enemy && !other.dead && other.overlaps(bounds))
+        if (enemy) {
+          this.handleFireballCollision(entity, enemy as Enemy)
+        }
+      })
+
       // Check for victory condition (player reaching goal pipe)
-      platforms.forEach(platform => {
+      const goalArea = {
+        x: playerBounds.x - GOAL_TOUCH_MARGIN,
+        y: playerBounds.y - GOAL_TOUCH_MARGIN,
+        width: playerBounds.width + GOAL_TOUCH_MARGIN * 2,
+        height: playerBounds.height + GOAL_TOUCH_MARGIN * 2
+      }
+      this.getPlatformsNear(goalArea).forEach(platform => {
         if (platform.isGoal) {
           const overlap = this.checkPlayerPlatformOverlap(this.player!, platform)
           if (overlap) {
@@ -388,16 +1113,49 @@ export class GameEngine {
     }
   }
 
+  private expandArea(area: AABB, margin: number): AABB {
+    return {
+      x: area.x - margin,
+      y: area.y - margin,
+      width: area.width + margin * 2,
+      height: area.height + margin * 2
+    }
+  }
+
+  // Whether a solid platform or polygon covers the point
+  private isSolidAt(x: number, y: number): boolean {
+    const area = { x, y, width: 1, height: 1 }
+    return this.getPlatformsNear(area).some(platform => platform.solid && platform.isPresent() && platform.contains(x, y)) ||
+      this.getPolygonsNear(area).some(polygon => polygon.solid && polygon.contains(x, y))
+  }
+
+  // Shapes that may touch the area, or every shape with the broadphase off
+  private getPlatformsNear(area: AABB): Platform[] {
+    if (!this.currentLevel) return []
+    return this.useBroadphase ? this.currentLevel.getPlatformsIn(area) : this.currentLevel.getPlatforms()
+  }
+
+  private getPolygonsNear(area: AABB): Polygon[] {
+    if (!this.currentLevel) return []
+    return this.useBroadphase ? this.currentLevel.getPolygonsIn(area) : this.currentLevel.getPolygons()
+  }
+
+  private getRegionsNear(area: AABB): Region[] {
+    if (!this.currentLevel) return []
+    return this.useBroadphase ? this.currentLevel.getRegionsIn(area) : this.currentLevel.getRegions()
+  }
+
+  // The goal pipe is solid, so touching it counts - collision keeps the player a skin's width away
   private checkPlayerPlatformOverlap(player: Player, platform: Platform): boolean {
-    return player.position.x < platform.x + platform.width &&
-           player.position.x + player.width > platform.x &&
-           player.position.y < platform.y + platform.height &&
-           player.position.y + player.height > platform.y
+    return player.position.x < platform.x + platform.width + GOAL_TOUCH_MARGIN &&
+           player.position.x + player.width > platform.x - GOAL_TOUCH_MARGIN &&
+           player.position.y < platform.y + platform.height + GOAL_TOUCH_MARGIN &&
+           player.position.y + player.height > platform.y - GOAL_TOUCH_MARGIN
   }
 
   private enforceWorldBoundaries(entity: Entity) {
-    const worldWidth = 3000  // Match the ground width
-    const worldHeight = 600  // Allow some space above and below
+    const worldWidth = this.currentLevel?.getWidth() ?? DEFAULT_WORLD_SIZE.width
+    const worldHeight = this.currentLevel?.getHeight() ?? DEFAULT_WORLD_SIZE.height
 
     // Store if collision occurred to prevent momentum issues
     let collisionOccurred = false
@@ -440,7 +1198,7 @@ export class GameEngine {
     if (entity.position.y > worldHeight + 100) {
       // Entity fell off the world
       if (entity.type === 'player') {
-        this.playerHit() // Player loses a life
+        this.playerHit('fall') // Player loses a life
       } else {
         entity.dead = true // Other entities just die
       }
@@ -454,41 +1212,191 @@ export class GameEngine {
       this.coins++
       this.score += 10
       entity.dead = true
-    } else if (entity.type === 'enemy') {
-      if (this.player.velocity.y > 0 && this.player.position.y < entity.position.y) {
-        // Player jumping on enemy
-        this.score += 100
-        entity.dead = true
-        this.player.velocity.y = -10 // Bounce
-      } else {
-        // Player hit by enemy
-        this.playerHit()
-      }
+      this.events.emit('coinCollected', { x: entity.position.x, y: entity.position.y, coins: this.coins, score: this.score })
+    } else if (entity instanceof Checkpoint) {
+      this.activateCheckpoint(entity)
+    } else if (entity instanceof Enemy) {
+      this.handleEnemyContact(entity)
     } else if (entity.type === 'powerup') {
       this.handlePowerUp(entity.powerType)
       entity.dead = true
+      this.events.emit('powerUpCollected', { x: entity.position.x, y: entity.position.y, powerType: entity.powerType })
     }
   }
 
-  private playerHit() {
-    if (!this.player || this.player.invulnerable) return
+  // The block most squarely over the player's head takes the hit, as in the original
+  private hitBlockAbove(player: Player) {
+    const head = { x: player.position.x, y: player.position.y - BLOCK_HIT_REACH, width: player.width, height: BLOCK_HIT_REACH }
+    const centerX = player.position.x + player.width / 2
+
+    let target: Platform | null = null
+    this.getPlatformsNear(head).forEach(platform => {
+      if (!platform.isBlock()) return
+      const bottom = platform.y + platform.height
+      if (bottom < head.y || bottom > player.position.y + 1) return
+      if (platform.x >= head.x + head.width || platform.x + platform.width <= head.x) return
+
+      const distance = Math.abs(platform.x + platform.width / 2 - centerX)
+      if (!target || distance < Math.abs(target.x + target.width / 2 - centerX)) {
+        target = platform
+      }
+    })
 
-    if (this.player.size === 'big') {
-      this.player.shrink()
-    } else {
-      this.lives--
-      if (this.lives <= 0) {
-        this.gameOver()
-      } else {
-        this.respawnPlayer()
+    if (target) {
+      this.hitBlock(target, player)
+    }
+  }
+
+  private hitBlock(block: Platform, player: Player) {
+    const position = { x: block.x, y: block.y }
+    if (block.used) {
+      this.events.emit('blockBumped', { ...position, contents: null })
+      return
+    }
+
+    block.reveal()
+    this.defeatEnemiesOnBlock(block)
+
+    const contents = block.takeContents()
+    if (contents) {
+      block.bump()
+      this.bumpingBlocks.add(block)
+      const released = this.releaseContents(block, contents, player)
+      this.events.emit('blockBumped', { ...position, contents: released })
+      return
+    }
+
+    // Plain bricks break under a big player and just bounce under a small one
+    if (block.breakable && player.size === 'big') {
+      this.currentLevel?.removePlatform(block)
+      this.bumpingBlocks.delete(block)
+      this.particles.spawnDebris(block.x, block.y, block.width, block.height)
+      this.score += 50
+      this.events.emit('blockBroken', position)
+      return
+    }
+
+    block.bump()
+    this.bumpingBlocks.add(block)
+    this.events.emit('blockBumped', { ...position, contents: null })
+  }
+
+  // Returns what actually came out
+  private releaseContents(block: Platform, contents: BlockContents, player: Player): BlockContents {
+    const centerX = block.x + block.width / 2
+
+    if (contents === 'coin' || contents === 'coins') {
+      this.coins++
+      this.score += 200
+      this.particles.spawnCoin(centerX, block.y)
+      this.events.emit('coinCollected', { x: centerX, y: block.y, coins: this.coins, score: this.score })
+      return contents
+    }
+
+    // A player who is already big gets the next power-up along instead
+    const type = contents === 'mushroom' && player.size === 'big' ? 'flower' : contents
+    // Placed on top of the block, it rises up out of it
+    this.entityManager.addEntity(new PowerUp(centerX - PowerUp.SIZE / 2, block.y - PowerUp.SIZE, type, true))
+    return type
+  }
+
+  // Hitting a block knocks out whatever is walking on it
+  private defeatEnemiesOnBlock(block: Platform) {
+    const top = { x: block.x, y: block.y - BLOCK_HIT_REACH * 2, width: block.width, height: BLOCK_HIT_REACH * 2 }
+    const nearby = this.useBroadphase ? this.entityManager.getEntitiesIn(top) : this.entityManager.getEntities()
+    nearby.forEach(entity => {
+      if (!(entity instanceof Enemy) || entity.dead || entity.getRules().shellproof) return
+      if (entity.overlaps(top)) {
+        this.defeatEnemy(entity, 'block')
+      }
+    })
+  }
+
+  // Each enemy type decides what landing on it or touching it does
+  private handleEnemyContact(enemy: Enemy) {
+    const player = this.player
+    if (!player) return
+
+    const position = { x: enemy.position.x, y: enemy.position.y }
+    const falling = player.velocity.y > 0 && player.position.y < enemy.position.y
+    if (falling) {
+      const result = enemy.stomp(player)
+      if (result === 'hurt') {
+        this.playerHit(enemy.enemyType)
+        return
+      }
+
+      this.score += 100
+      if (result === 'defeated') {
+        enemy.dead = true
       }
+      player.velocity.y = -10 // Bounce
+      this.events.emit('enemyStomped', { ...position, enemyType: enemy.enemyType })
+      return
+    }
+
+    const result = enemy.touch(player)
+    if (result === 'hurt') {
+      this.playerHit(enemy.enemyType)
+    } else if (result === 'kicked') {
+      this.score += 400
+      this.events.emit('shellKicked', { ...position, enemyType: enemy.enemyType })
+    }
+  }
+
+  private handleFireballCollision(fireball: Fireball, enemy: Enemy) {
+    fireball.dead = true
+
+    // Fire doesn't hurt fire, spikes and the like
+    if (enemy.getRules().fireproof) return
+
+    if (enemy.damage()) {
+      this.defeatEnemy(enemy, 'fireball')
+    }
+  }
+
+  private defeatEnemy(enemy: Enemy, cause: string) {
+    this.score += 100
+    enemy.dead = true
+    this.events.emit('enemyDefeated', { x: enemy.position.x, y: enemy.position.y, enemyType: enemy.enemyType, cause })
+  }
+
+  private playerHit(cause: string) {
+    const player = this.player
+    if (!player || player.invulnerable) return
+
+    if (player.size === 'big') {
+      player.shrink()
+      this.events.emit('playerDamaged', { x: player.position.x, y: player.position.y, cause })
+    } else {
+      this.loseLife(cause)
+    }
+  }
+
+  // Straight to losing a life, skipping the shrink and invulnerability checks
+  private loseLife(cause: string) {
+    const player = this.player
+    if (!player) return
+
+    this.lives--
+    this.events.emit('playerDied', { x: player.position.x, y: player.position.y, cause, lives: this.lives })
+    if (this.lives <= 0) {
+      this.gameOver()
+    } else {
+      this.respawnPlayer()
     }
   }
 
   private respawnPlayer() {
+    // Checkpoints and the start are in the main level, whichever room the player was lost in
+    if (this.mainLevel && this.currentLevel !== this.mainLevel) {
+      this.enterArea(this.mainLevel)
+    }
+    this.warp = null
     if (this.player) {
-      this.player.position.x = 100
-      this.player.position.y = 400
+      const spawn = this.getSpawnPoint()
+      this.player.position.x = spawn.x
+      this.player.position.y = spawn.y
       this.player.velocity.x = 0
       this.player.velocity.y = 0
       this.player.makeInvulnerable(2000) // 2 seconds invulnerability
@@ -511,94 +1419,166 @@ export class GameEngine {
         this.player.enableFireball()
         this.score += 50
         break
+      case '1up':
+        this.lives++
+        break
     }
   }
 
   private gameOver() {
-    this.running = false
+    this.outcome = 'game_over'
+    this.levelAdvanceTimer = null
+    this.scenes.setScene('game_over')
+    this.levelMusic?.stop()
+    this.events.emit('gameOver', { levelIndex: this.currentLevelIndex, score: this.score })
     console.log('Game Over! Score:', this.score)
-    // TODO: Show game over screen
   }
 
   private victory() {
+    // Already celebrating - the player is still overlapping the goal, or touched two goals at once
+    if (this.levelAdvanceTimer !== null || this.outcome === 'victory') return
+
     this.score += 1000 // Bonus points for completing level
+    // Nothing left to respawn at on a finished level
+    delete this.checkpointsReached[this.currentLevelIndex]
     console.log('🎉 Level Complete! Score:', this.score)
 
     // Check if in level pack mode
     if (this.levelPack && this.hasNextLevel()) {
-      this.displayLevelComplete()
-
-      // Auto-advance to next level after 3 seconds
-      setTimeout(() => {
-        if (this.running) {
-          this.loadNextLevel()
-          this.resetPlayerForNewLevel()
-        }
-      }, 3000)
+      // Auto-advance to next level after a short delay
+      this.levelAdvanceTimer = LEVEL_ADVANCE_DELAY
+      this.scenes.setScene('level_complete')
     } else {
       // Single level or last level of pack - full victory
-      this.running = false
-      this.displayPackComplete()
+      this.outcome = 'victory'
+      this.scenes.setScene('pack_complete')
     }
+    this.events.emit('levelComplete', {
+      levelIndex: this.currentLevelIndex,
+      score: this.score,
+      packComplete: this.outcome === 'victory'
+    })
+  }
+
+  /**
+   * Move on to the next level of the pack, keeping score, lives and coins
+   */
+  private advanceLevel() {
+    this.levelAdvanceTimer = null
+    this.loadNextLevel()
+    this.resetPlayerForNewLevel()
+    this.scenes.setScene('playing')
   }
 
-  private displayLevelComplete() {
-    // Display "Level Complete" overlay
-    this.ctx.save()
-    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)'
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height)
+  /**
+   * The menu for the current scene, or null while playing
+   */
+  private getSceneMenu(): SceneMenu | null {
+    const pack = this.levelPack
+    const levelNumber = this.currentLevelIndex + 1
+
+    switch (this.scenes.getScene()) {
+      case 'title': {
+        const inProgress = this.tickCount > 0 && this.outcome !== 'victory'
+        const items = inProgress
+          ? [
+              { label: this.outcome === 'game_over' ? `Continue from Level ${levelNumber}` : 'Continue', action: () => this.continueFromTitle() },
+              { label: 'New Game', action: () => this.startNewGame() }
+            ]
+          : [{ label: 'Start', action: () => this.startNewGame() }]
+        return {
+          title: pack ? pack.packInfo.name : 'Super Mario',
+          lines: pack ? [`${pack.levels.length} levels`] : [],
+          items
+        }
+      }
 
-    this.ctx.fillStyle = '#FFD700'
-    this.ctx.font = 'bold 48px Arial'
-    this.ctx.textAlign = 'center'
-    this.ctx.fillText(`✨ Level ${this.currentLevelIndex + 1} Complete! ✨`, this.canvas.width / 2, this.canvas.height / 2 - 50)
+      case 'paused':
+        return {
+          title: 'Paused',
+          lines: pack ? [`Level ${levelNumber}/${pack.levels.length}`] : [],
+          items: [
+            { label: 'Resume', action: () => this.resume() },
+            { label: 'Restart Level', action: () => this.playAgain(() => this.retryLevel(false)) },
+            ...this.getQuitItems()
+          ],
+          back: () => this.resume()
+        }
 
-    this.ctx.fillStyle = '#FFFFFF'
-    this.ctx.font = '32px Arial'
-    this.ctx.fillText(`Score: ${this.score}`, this.canvas.width / 2, this.canvas.height / 2 + 20)
+      case 'level_complete':
+        return {
+          title: `✨ Level ${levelNumber} Complete! ✨`,
+          lines: [
+            `Score: ${this.score}`,
+            ...(pack ? [`Advancing to Level ${levelNumber + 1}/${pack.levels.length}...`] : [])
+          ],
+          items: [{ label: 'Continue', action: () => this.advanceLevel() }]
+        }
 
-    if (this.levelPack) {
-      this.ctx.font = '24px Arial'
-      this.ctx.fillText(
-        `Advancing to Level ${this.currentLevelIndex + 2}/${this.levelPack.levels.length}...`,
-        this.canvas.width / 2,
-        this.canvas.height / 2 + 70
-      )
-    }
+      case 'game_over':
+        return {
+          title: 'Game Over',
+          lines: [`Score: ${this.score}`],
+          items: pack
+            ? [
+                {
+                  label: this.checkpointsReached[this.currentLevelIndex] ? 'Continue from Checkpoint' : `Continue from Level ${levelNumber}`,
+                  action: () => this.playAgain(() => this.retryLevel(true))
+                },
+                { label: 'Restart Pack', action: () => this.playAgain(() => this.restartGame()) },
+                ...this.getQuitItems()
+              ]
+            : [
+                { label: 'Try Again', action: () => this.playAgain(() => this.retryLevel(true)) },
+                ...this.getQuitItems()
+              ]
+        }
 
-    this.ctx.restore()
+      case 'pack_complete':
+        return {
+          title: pack ? '🎊 PACK COMPLETE! 🎊' : '🎉 VICTORY! 🎉',
+          lines: [
+            ...(pack ? [`You completed all ${pack.levels.length} levels!`] : []),
+            `Final Score: ${this.score}`
+          ],
+          items: [
+            { label: pack ? 'Play Pack Again' : 'Play Again', action: () => this.playAgain(() => this.restartGame()) },
+            ...this.getQuitItems()
+          ]
+        }
+
+      default:
+        return null
+    }
   }
 
-  private displayPackComplete() {
-    // Display victory message on canvas
-    this.ctx.save()
-    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)'
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height)
+  private getQuitItems() {
+    return this.titleScreen ? [{ label: 'Quit to Title', action: () => this.scenes.setScene('title') }] : []
+  }
 
-    this.ctx.fillStyle = '#FFD700'
-    this.ctx.font = 'bold 48px Arial'
-    this.ctx.textAlign = 'center'
+  private playAgain(restart: () => void) {
+    restart()
+    this.accumulator = 0
+    this.scenes.setScene('playing')
+  }
 
-    if (this.levelPack) {
-      this.ctx.fillText('🎊 PACK COMPLETE! 🎊', this.canvas.width / 2, this.canvas.height / 2 - 50)
-      this.ctx.fillStyle = '#FFFFFF'
-      this.ctx.font = '28px Arial'
-      this.ctx.fillText(
-        `You completed all ${this.levelPack.levels.length} levels!`,
-        this.canvas.width / 2,
-        this.canvas.height / 2 + 10
-      )
+  private continueFromTitle() {
+    if (this.outcome === 'game_over') {
+      this.playAgain(() => this.retryLevel(true))
     } else {
-      this.ctx.fillText('🎉 VICTORY! 🎉', this.canvas.width / 2, this.canvas.height / 2 - 50)
+      this.accumulator = 0
+      this.scenes.setScene(this.levelAdvanceTimer !== null ? 'level_complete' : 'playing')
     }
+  }
 
-    this.ctx.fillStyle = '#FFFFFF'
-    this.ctx.font = '32px Arial'
-    this.ctx.fillText(`Final Score: ${this.score}`, this.canvas.width / 2, this.canvas.height / 2 + 60)
-
-    this.ctx.font = '20px Arial'
-    this.ctx.fillText('Press R to restart', this.canvas.width / 2, this.canvas.height / 2 + 100)
-    this.ctx.restore()
+  private startNewGame() {
+    // The level is already fresh when nothing has been played yet
+    if (this.tickCount === 0 && this.outcome === 'playing') {
+      this.accumulator = 0
+      this.scenes.setScene('playing')
+      return
+    }
+    this.playAgain(() => this.restartGame())
   }
 
   private resetPlayerForNewLevel() {
@@ -608,32 +1588,44 @@ export class GameEngine {
     this.player.velocity.x = 0
     this.player.velocity.y = 0
 
-    // Set to starting position of new level
-    const levelData = this.levelPack?.levels[this.currentLevelIndex]?.data
-    if (levelData?.starting_points && levelData.starting_points.length > 0) {
-      const start = levelData.starting_points[0].coordinates
-      this.player.position.x = start[0]
-      this.player.position.y = start[1]
-    }
+    // Set to the new level's start, or its checkpoint when resuming progress
+    const spawn = this.getSpawnPoint()
+    this.player.position.x = spawn.x
+    this.player.position.y = spawn.y
   }
 
-  private render() {
+  /**
+   * Draw the current state, blending between the last two ticks by alpha (0..1)
+   */
+  private render(alpha = 1) {
+    const ctx = this.ctx
+    const renderer = this.renderer
+    if (!ctx || !renderer) return
+
     // Clear canvas
-    this.renderer.clear()
+    renderer.clear()
 
     // Ensure entity manager is up to date before rendering
     this.entityManager.update()
 
     // Apply camera transform
-    this.ctx.save()
-    this.ctx.translate(-this.camera.x, -this.camera.y)
+    const cameraX = this.previousCamera.x + (this.camera.x - this.previousCamera.x) * alpha
+    const cameraY = this.previousCamera.y + (this.camera.y - this.previousCamera.y) * alpha
+    // Sounds pan by where they happen on screen
+    audioManager.setListener({ left: cameraX, right: cameraX + this.width })
+    ctx.save()
+    ctx.translate(-cameraX, -cameraY)
 
     // Render background
-    this.renderer.renderBackground()
+    if (this.currentLevel) {
+      renderer.renderBackground(this.currentLevel.getWidth(), this.currentLevel.getHeight(), this.currentLevel.getBackground())
+    } else {
+      renderer.renderBackground()
+    }
 
     // Render level
     if (this.currentLevel) {
-      this.renderer.renderLevel(this.currentLevel)
+      renderer.renderLevel(this.currentLevel, alpha)
     }
 
     // Render entities
@@ -645,13 +1637,38 @@ export class GameEngine {
     }
 
     entities.forEach(entity => {
-      this.renderer.renderEntity(entity)
+      // The player disappears into a pipe from its top edge down
+      if (entity === this.player && this.warp?.phase === 'enter') {
+        ctx.save()
+        ctx.beginPath()
+        ctx.rect(cameraX, cameraY, this.width, this.warp.pipe.y - cameraY)
+        ctx.clip()
+        this.renderInterpolated(entity, alpha)
+        ctx.restore()
+        return
+      }
+      this.renderInterpolated(entity, alpha)
     })
+    this.particles.render(ctx)
+    if (this.currentLevel) {
+      renderer.renderWater(this.currentLevel)
+    }
+
+    ctx.restore()
 
-    this.ctx.restore()
+    // Fade to black going into a pipe and back in coming out
+    if (this.warp) {
+      const fade = this.warp.phase === 'enter'
+        ? (WARP_FADE_TIME - this.warp.timer) / WARP_FADE_TIME
+        : this.warp.timer / WARP_EXIT_TIME
+      if (fade > 0) {
+        ctx.fillStyle = `rgba(0, 0, 0, ${Math.min(1, fade)})`
+        ctx.fillRect(0, 0, this.width, this.height)
+      }
+    }
 
     // Render UI (not affected by camera)
-    this.renderer.renderUI({
+    renderer.renderUI({
       score: this.score,
       lives: this.lives,
       coins: this.coins
@@ -661,32 +1678,75 @@ export class GameEngine {
     if (this.levelPack) {
       this.renderPackProgress()
     }
+
+    // Menus and the touch controls draw over everything
+    if (this.menuRenderer) {
+      const menu = this.getSceneMenu()
+      if (menu) {
+        this.menuRenderer.renderMenu(menu, this.scenes.getSelected())
+      } else {
+        this.menuRenderer.renderPauseButton()
+        if (this.touchControlsRenderer && this.inputManager?.isTouchControlsVisible()) {
+          this.touchControlsRenderer.render(
+            this.inputManager.getTouchControls(),
+            this.inputManager.getTouchControlsState()
+          )
+        }
+      }
+    }
+  }
+
+  private renderInterpolated(entity: Entity, alpha: number) {
+    const renderer = this.renderer
+    if (!renderer) return
+
+    const previous = this.previousPositions.get(entity)
+    if (!previous) {
+      renderer.renderEntity(entity)
+      return
+    }
+
+    const currentX = entity.position.x
+    const currentY = entity.position.y
+    if (Math.abs(currentX - previous.x) > INTERPOLATION_SNAP_DISTANCE ||
+        Math.abs(currentY - previous.y) > INTERPOLATION_SNAP_DISTANCE) {
+      renderer.renderEntity(entity)
+      return
+    }
+
+    // Draw at the blended position, then restore the simulated one
+    entity.position.x = previous.x + (currentX - previous.x) * alpha
+    entity.position.y = previous.y + (currentY - previous.y) * alpha
+    renderer.renderEntity(entity)
+    entity.position.x = currentX
+    entity.position.y = currentY
   }
 
   private renderPackProgress() {
     if (!this.levelPack) return
 
-    this.ctx.save()
-    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)'
-    this.ctx.font = '16px Arial'
-    this.ctx.textAlign = 'center'
-    this.ctx.fillStyle = '#FFD700'
-    this.ctx.fillText(
+    const ctx = this.ctx
+    if (!ctx) return
+
+    ctx.save()
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)'
+    ctx.font = '16px Arial'
+    ctx.textAlign = 'center'
+    ctx.fillStyle = '#FFD700'
+    ctx.fillText(
       `Level ${this.currentLevelIndex + 1}/${this.levelPack.levels.length}`,
-      this.canvas.width / 2,
+      this.width / 2,
       30
     )
-    this.ctx.restore()
+    ctx.restore()
   }
 
   private updateUI() {
-    const scoreEl = document.getElementById('score')
-    const livesEl = document.getElementById('lives')
-    const coinsEl = document.getElementById('coins')
-
-    if (scoreEl) scoreEl.textContent = this.score.toString()
-    if (livesEl) livesEl.textContent = this.lives.toString()
-    if (coinsEl) coinsEl.textContent = this.coins.toString()
+    this.ui.update({
+      score: this.score,
+      lives: this.lives,
+      coins: this.coins
+    })
   }
 
   // Public API methods
@@ -715,7 +1775,144 @@ export class GameEngine {
     return audioManager
   }
 
-  public setLevelData(_levelData: any) {
-    // Level data handling removed as it's not used
+  /**
+   * Engine events for audio, UI and analytics to subscribe to
+   */
+  public getEvents(): EventBus {
+    return this.events
+  }
+
+  public getSoundBindings(): SoundBindings | null {
+    return this.soundBindings
+  }
+
+  public setLevelData(levelData: any) {
+    this.loadLevelData(levelData)
+  }
+
+  /**
+   * The document the current level was built from (null for the built-in demo level)
+   */
+  public getLevelDocument(): LevelDocument | null {
+    return this.levelSource?.format === 'document' ? this.levelSource.data : null
+  }
+
+  public getOutcome(): GameOutcome {
+    return this.outcome
+  }
+
+  /**
+   * Swap where the engine reads input from (null restores the keyboard/touch manager)
+   */
+  public setInputSource(source: InputSource | null) {
+    this.inputSource = source || this.inputManager || IDLE_INPUT
+  }
+
+  // Replay recording and playback
+
+  /**
+   * Restart the current level and record every tick's input until stopRecording().
+   * Level packs can't be recorded.
+   */
+  public startRecording() {
+    // A replay rebuilds one level, so the levels after it in a pack would never play back
+    if (this.levelPack) {
+      throw new Error('Replays record a single level - load the level on its own to record it')
+    }
+    this.finishPlayback()
+    this.setInputSource(null)
+    this.restartLevel()
+    this.scenes.setScene('playing')
+    this.recorder = new ReplayRecorder(this.currentLevelId, this.levelSource, {
+      tickRate: TICK_RATE,
+      seed: this.random.getSeed(),
+      gravity: this.physics.getGravity()
+    })
+    console.log('⏺️ Recording replay')
+  }
+
+  public stopRecording(): Replay | null {
+    if (!this.recorder) return null
+
+    const replay = this.recorder.finish()
+    this.recorder = null
+    console.log(`⏹️ Recorded replay: ${replay.tickCount} ticks`)
+    return replay
+  }
+
+  public isRecording(): boolean {
+    return this.recorder !== null
+  }
+
+  public isPlayingReplay(): boolean {
+    return this.replayPlayer !== null
+  }
+
+  /**
+   * Rebuild the replay's level with its recorded config and feed its inputs back.
+   * On a running engine this plays on-canvas in real time; use runReplay() to
+   * step through it headlessly.
+   */
+  public playReplay(replay: Replay) {
+    if (replay.config.tickRate !== TICK_RATE) {
+      throw new Error(`Replay was recorded at ${replay.config.tickRate} ticks per second - this game runs at ${TICK_RATE}`)
+    }
+    this.recorder = null
+    this.levelPack = null
+    this.currentLevelIndex = 0
+    this.checkpointsReached = {}
+    this.levelSource = replay.level
+    this.currentLevelId = replay.levelId
+
+    // Replaying over a replay keeps the settings from before the first one
+    this.playbackSettings = this.playbackSettings ?? { gravity: this.physics.getGravity() }
+    this.physics.setGravity(replay.config.gravity)
+    this.random.reset(replay.config.seed)
+
+    this.restartLevel()
+    this.scenes.setScene('playing')
+    this.replayPlayer = new ReplayPlayer(replay)
+    this.setInputSource(this.replayPlayer)
+    console.log(`▶️ Playing replay: ${replay.tickCount} ticks on level ${replay.levelId ?? 'demo'}`)
+  }
+
+  /**
+   * Play a replay as fast as possible without rendering and report where it ended
+   */
+  public runReplay(replay: Replay): ReplayResult {
+    const wasRunning = this.running
+    this.running = false
+    this.playReplay(replay)
+
+    // The outcome ends the run early - later input can no longer matter
+    while (this.replayPlayer && this.outcome === 'playing') {
+      this.tick()
+    }
+    this.finishPlayback()
+
+    const result: ReplayResult = {
+      ticks: this.tickCount,
+      outcome: this.outcome,
+      score: this.score,
+      coins: this.coins,
+      lives: this.lives,
+      playerPosition: this.player ? { x: this.player.position.x, y: this.player.position.y } : null
+    }
+
+    this.running = wasRunning
+    return result
+  }
+
+  private finishPlayback() {
+    if (!this.replayPlayer) return
+
+    console.log(`⏏️ Replay finished after ${this.tickCount} ticks`)
+    this.replayPlayer = null
+    this.setInputSource(null)
+
+    if (this.playbackSettings) {
+      this.physics.setGravity(this.playbackSettings.gravity)
+      this.playbackSettings = null
+    }
   }
 }
\ No newline at end of file
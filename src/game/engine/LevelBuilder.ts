@@ -1,7 +1,25 @@
-import { GameEngine } from './GameEngine'
+import type { GameEngine } from './GameEngine'
 import { Level } from './level/Level'
 import { Player } from './entities/Player'
-
+import { DEFAULT_PLAYER_START, LevelSchema } from './schema/LevelSchema'
+import type {
+  BlockContents,
+  LevelArea,
+  LevelBackground,
+  LevelCamera,
+  LevelDocument,
+  LevelWarp,
+  MusicMood,
+  PathMode,
+  RegionType
+} from './schema/LevelSchema'
+import { LevelMigrations } from './schema/LevelMigrations'
+
+/**
+ * The builder's original save format, still accepted by importJSON and
+ * converted by LegacyFormats.fromBuilder. Nothing writes it any more, so new
+ * fields go in LevelDocument only.
+ */
 export interface LevelData {
   platforms: Array<{
     x: number
@@ -41,14 +59,9 @@ export interface LevelData {
 
 export class LevelBuilder {
   private engine: GameEngine
-  private levelData: LevelData = {
-    platforms: [],
-    polygons: [],
-    enemies: [],
-    coins: [],
-    powerUps: [],
-    playerStart: { x: 100, y: 400 }
-  }
+  private levelData: LevelDocument = LevelSchema.createEmpty()
+  // Area being added to, null for the main level
+  private currentArea: LevelArea | null = null
 
   constructor(engine: GameEngine) {
     this.engine = engine
@@ -56,39 +69,79 @@ export class LevelBuilder {
   }
 
   public clear(): this {
-    this.levelData = {
-      platforms: [],
-      polygons: [],
-      enemies: [],
-      coins: [],
-      powerUps: [],
-      playerStart: { x: 100, y: 400 }
+    this.levelData = LevelSchema.createEmpty()
+    this.currentArea = null
+    return this
+  }
+
+  // Where platforms, enemies and the like are added right now
+  private content(): LevelDocument | LevelArea {
+    return this.currentArea || this.levelData
+  }
+
+  /**
+   * Start adding to an area - a separate room warp pipes lead to, such as a
+   * bonus room underground. Everything added goes into it until mainArea().
+   */
+  public area(id: string, background: LevelBackground = 'underground'): this {
+    if (!this.levelData.areas) {
+      this.levelData.areas = []
+    }
+    let area = this.levelData.areas.find(existing => existing.id === id)
+    if (!area) {
+      area = { id, platforms: [], polygons: [], enemies: [], coins: [], powerUps: [], background }
+      this.levelData.areas.push(area)
     }
+    this.currentArea = area
+    return this
+  }
+
+  /**
+   * Go back to adding to the main level after area()
+   */
+  public mainArea(): this {
+    this.currentArea = null
+    return this
+  }
+
+  public setBackground(background: LevelBackground): this {
+    this.content().background = background
     return this
   }
 
   public addPlatform(x: number, y: number, width: number, height: number, type = 'normal'): this {
-    this.levelData.platforms.push({ x, y, width, height, type })
+    this.content().platforms.push({ x, y, width, height, type })
     return this
   }
 
   public addPolygon(contours: number[][], type = 'polygon'): this {
-    this.levelData.polygons.push({ contours, type })
+    this.content().polygons.push({ points: contours.map(([x, y]) => [x, y] as [number, number]), type })
     return this
   }
 
   public addEnemy(x: number, y: number, type: string, size?: number): this {
-    this.levelData.enemies.push({ x, y, type, size })
+    this.content().enemies.push(size === undefined ? { x, y, type } : { x, y, type, size })
     return this
   }
 
   public addCoin(x: number, y: number): this {
-    this.levelData.coins.push({ x, y })
+    this.content().coins.push({ x, y })
     return this
   }
 
   public addPowerUp(x: number, y: number, type: string): this {
-    this.levelData.powerUps.push({ x, y, type })
+    this.content().powerUps.push({ x, y, type })
+    return this
+  }
+
+  /**
+   * Add a checkpoint flag - after losing a life the player respawns at the last one touched
+   */
+  public addCheckpoint(x: number, y: number): this {
+    if (!this.levelData.checkpoints) {
+      this.levelData.checkpoints = []
+    }
+    this.levelData.checkpoints.push({ x, y })
     return this
   }
 
@@ -97,6 +150,16 @@ export class LevelBuilder {
     return this
   }
 
+  public setCamera(camera: LevelCamera): this {
+    this.content().camera = camera
+    return this
+  }
+
+  public setMusic(music: MusicMood): this {
+    this.content().music = music
+    return this
+  }
+
   public addGoal(x: number, y: number): this {
     this.levelData.goal = { x, y }
     return this
@@ -107,8 +170,71 @@ export class LevelBuilder {
     return this
   }
 
-  public addBlock(x: number, y: number, type = 'brick'): this {
-    this.addPlatform(x, y, 32, 32, type)
+  /**
+   * Add a pipe the player can go down by pressing down on top of it - it comes
+   * out at the warp's point, in the warp's area or else the main level
+   */
+  public addWarpPipe(x: number, y: number, warp: LevelWarp, height = 100): this {
+    this.content().platforms.push({ x, y, width: 64, height, type: 'pipe', warp: { ...warp } })
+    return this
+  }
+
+  /**
+   * Add a 32x32 block - question, brick or hidden, optionally with what it gives when hit
+   */
+  public addBlock(x: number, y: number, type = 'brick', contents?: BlockContents): this {
+    this.content().platforms.push(contents === undefined ? { x, y, width: 32, height: 32, type } : { x, y, width: 32, height: 32, type, contents })
+    return this
+  }
+
+  /**
+   * Add a platform that travels through waypoints given as [dx, dy] offsets from
+   * x, y - out and back again, or round in a loop - at speed pixels per second
+   */
+  public addMovingPlatform(x: number, y: number, width: number, points: [number, number][], speed = 60, mode: PathMode = 'linear', height = 20): this {
+    this.content().platforms.push({ x, y, width, height, type: 'bridge', path: { points, speed, mode } })
+    return this
+  }
+
+  /**
+   * Add a platform that drops away shortly after the player stands on it
+   */
+  public addFallingPlatform(x: number, y: number, width: number, height = 20): this {
+    this.content().platforms.push({ x, y, width, height, type: 'bridge', trigger: 'falling' })
+    return this
+  }
+
+  /**
+   * Add a platform that breaks up shortly after the player stands on it, and reforms a few seconds later
+   */
+  public addCrumblingPlatform(x: number, y: number, width: number, height = 20): this {
+    this.content().platforms.push({ x, y, width, height, type: 'bridge', trigger: 'crumbling' })
+    return this
+  }
+
+  /**
+   * Add a ledge that can be jumped up through and landed on from above
+   */
+  public addOneWayPlatform(x: number, y: number, width: number, height = 20): this {
+    this.content().platforms.push({ x, y, width, height, type: 'platform', oneWay: true })
+    return this
+  }
+
+  /**
+   * Add a rectangle of water, lava, pit, ice or conveyor - speed is how fast a
+   * conveyor runs in pixels per second, negative for leftwards
+   */
+  public addRegion(x: number, y: number, width: number, height: number, type: RegionType, speed?: number): this {
+    return this.addRegionShape([[x, y], [x + width, y], [x + width, y + height], [x, y + height]], type, speed)
+  }
+
+  /**
+   * Add a region with any outline, like addPolygon
+   */
+  public addRegionShape(contours: number[][], type: RegionType, speed?: number): this {
+    const content = this.content()
+    const points = contours.map(([x, y]) => [x, y] as [number, number])
+    content.regions = [...(content.regions || []), speed === undefined ? { type, points } : { type, points, speed }]
     return this
   }
 
@@ -138,40 +264,100 @@ export class LevelBuilder {
   }
 
   public build(): Level {
+    const level = LevelBuilder.createLevel(this.levelData)
+
+    // Set player start position
+    const start = this.levelData.playerStart || DEFAULT_PLAYER_START
+    const player = new Player(start.x, start.y)
+    this.engine.setPlayer(player)
+
+    // Load level into engine, keeping a copy of the data so it can be rebuilt for replays
+    this.engine.loadLevel(level, { format: 'document', data: this.getLevelDocument() })
+
+    return level
+  }
+
+  /**
+   * Create a Level from a level document without touching any engine
+   */
+  public static createLevel(levelData: LevelDocument): Level {
+    const level = LevelBuilder.createArea(levelData)
+    if (levelData.background) {
+      level.setBackground(levelData.background)
+    }
+
+    // Add checkpoints, numbered in level order
+    levelData.checkpoints?.forEach(c => {
+      level.addCheckpoint(c.x, c.y)
+    })
+
+    // Add goal as a pipe, the same size drawn levels use
+    if (levelData.goal) {
+      level.addPlatform(levelData.goal.x, levelData.goal.y, 50, 100, 'goal_pipe')
+    }
+
+    // Rooms reached through warp pipes are levels of their own
+    levelData.areas?.forEach(area => {
+      const room = LevelBuilder.createArea(area)
+      room.setBackground(area.background ?? 'underground')
+      level.addArea(area.id, room)
+    })
+
+    return level
+  }
+
+  // The parts the main level and its areas have in common
+  private static createArea(levelData: LevelDocument | LevelArea): Level {
     const level = new Level()
 
+    // Size the world to the level rather than a fixed 3000x600
+    const worldSize = LevelSchema.getWorldSize(levelData)
+    level.setDimensions(worldSize.width, worldSize.height)
+    if (levelData.camera) {
+      level.setCamera(levelData.camera)
+    }
+    if (levelData.music) {
+      level.setMusic(levelData.music)
+    }
+
     // Add platforms
-    this.levelData.platforms.forEach(p => {
-      level.addPlatform(p.x, p.y, p.width, p.height, p.type)
+    levelData.platforms.forEach(p => {
+      const platform = level.addPlatform(p.x, p.y, p.width, p.height, p.type)
+      if (p.contents) {
+        platform.setContents(p.contents)
+      }
+      if (p.path || p.trigger) {
+        platform.setMotion(p.path ?? null, p.trigger ?? null)
+      }
+      platform.oneWay = p.oneWay === true
+      platform.warp = p.warp ?? null
     })
 
     // Add polygons
-    this.levelData.polygons.forEach(p => {
-      level.addPolygon(p.contours, p.type)
+    levelData.polygons.forEach(p => {
+      level.addPolygon(p.points, p.type)
+    })
+
+    // Add regions
+    levelData.regions?.forEach(r => {
+      level.addRegion(r.points, r.type, r.speed)
     })
 
     // Add coins
-    this.levelData.coins.forEach(c => {
+    levelData.coins.forEach(c => {
       level.addCoin(c.x, c.y)
     })
 
     // Add enemies
-    this.levelData.enemies.forEach(e => {
+    levelData.enemies.forEach(e => {
       level.addEnemy(e.x, e.y, e.type, e.size)
     })
 
     // Add power-ups
-    this.levelData.powerUps.forEach(p => {
+    levelData.powerUps.forEach(p => {
       level.addPowerUp(p.x, p.y, p.type)
     })
 
-    // Set player start position
-    const player = new Player(this.levelData.playerStart.x, this.levelData.playerStart.y)
-    this.engine.setPlayer(player)
-
-    // Load level into engine
-    this.engine.loadLevel(level)
-
     return level
   }
 
@@ -195,6 +381,7 @@ export class LevelBuilder {
 
   private createClassicLevel() {
     this.clear()
+    this.setMusic('overworld')
 
     // Ground
     this.addPlatform(0, 500, 3000, 76, 'platform')
@@ -238,6 +425,7 @@ export class LevelBuilder {
 
   private createUndergroundLevel() {
     this.clear()
+    this.setMusic('underground')
 
     // Underground floor and ceiling
     this.addPlatform(0, 550, 3000, 26, 'underground')
@@ -273,6 +461,7 @@ export class LevelBuilder {
 
   private createCastleLevel() {
     this.clear()
+    this.setMusic('castle')
 
     // Castle floor
     this.addPlatform(0, 550, 3000, 26, 'castle')
@@ -304,16 +493,11 @@ export class LevelBuilder {
     this.setPlayerStart(100, 450)
   }
 
-  // Import level from JSON
+  // Import level from JSON - any legacy format is migrated to the current schema.
+  // Throws if it isn't a level this game can read, keeping the current level.
   public importJSON(json: string): this {
-    try {
-      const data = JSON.parse(json)
-      this.levelData = data
-      return this
-    } catch (e) {
-      console.error('Failed to import level JSON:', e)
-      return this
-    }
+    this.levelData = LevelMigrations.migrate(JSON.parse(json))
+    return this
   }
 
   // Export level to JSON
@@ -321,6 +505,10 @@ export class LevelBuilder {
     return JSON.stringify(this.levelData, null, 2)
   }
 
+  public getLevelDocument(): LevelDocument {
+    return JSON.parse(JSON.stringify(this.levelData))
+  }
+
   // Generate level from image recognition data
   public generateFromImageData(imageData: any[]): this {
     this.clear()
@@ -0,0 +1,418 @@
+import type { LevelDocument } from '../schema/LevelSchema'
+import { PhysicsEngine } from '../physics/PhysicsEngine'
+import { Player } from '../entities/Player'
+import { Polygon } from '../level/Polygon'
+
+/**
+ * One tick of a full-power running jump, relative to the take-off point
+ */
+export interface JumpArcPoint {
+  dx: number
+  dy: number
+  vy: number
+}
+
+/**
+ * Solid shapes are numbered polygons first, then rectangular platforms, in document order
+ */
+export interface SolvabilityGap {
+  // Index of the closest reachable shape
+  fromBody: number
+  // Index of the unreachable shape, or 'goal'
+  to: number | 'goal'
+  reason: 'too_high' | 'too_far'
+  // Horizontal distance to cover and height to climb (negative = drop)
+  distance: number
+  rise: number
+  // What the jump arc allows at that height
+  maxDistance: number
+  maxRise: number
+}
+
+export interface SolvabilityReport {
+  solvable: boolean
+  hasGround: boolean
+  goalReachable: boolean
+  reachablePlatforms: number
+  totalPlatforms: number
+  maxJumpHeight: number
+  maxJumpDistance: number
+  gaps: SolvabilityGap[]
+  issues: string[]
+  // The level has water or rooms behind pipes, which aren't modelled - an
+  // unreachable goal may still be reachable by swimming or through a room
+  approximate: boolean
+}
+
+interface Ledge {
+  body: number
+  x1: number
+  x2: number
+  y: number
+}
+
+interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Matches PhysicsEngine.resolvePolygonCollision: steeper edges push sideways instead of grounding
+const MAX_WALKABLE_SLOPE = 1
+// Surfaces are cut into pieces this wide so slopes are treated as small steps
+const LEDGE_PIECE_WIDTH = 16
+// Goal pipe size used by LevelBuilder.createLevel
+const GOAL_SIZE = { width: 50, height: 100 }
+const MAX_ARC_TICKS = 600
+const MAX_FALL = 2000
+
+/**
+ * LevelSolvabilityChecker - Static reachability analysis for level documents
+ *
+ * Walkable surfaces are the upward-facing edges of solid shapes. Two surfaces
+ * are connected when the player's running jump arc - simulated tick by tick
+ * with the engine's own gravity, friction, air resistance and velocity caps -
+ * can carry the player from one onto the other. Riding a moving platform
+ * reaches every point on its path, and standing on a warp pipe reaches where
+ * it comes out. Walls, ceilings, hazards and platforms that fall away are not
+ * considered, so a "reachable" verdict is optimistic. Swimming and rooms
+ * behind pipes aren't modelled either - levels with them are reported as
+ * approximate, and only without them can a reported gap never be crossed.
+ */
+export class LevelSolvabilityChecker {
+  private arc: JumpArcPoint[]
+  private apex: number
+  private playerWidth: number
+  private playerHeight: number
+
+  constructor(physics: PhysicsEngine = new PhysicsEngine(), player: Player = new Player(0, 0)) {
+    this.playerWidth = player.width
+    this.playerHeight = player.height
+    this.arc = LevelSolvabilityChecker.simulateJumpArc(physics, player.getRunSpeed(), player.getJumpPower())
+    this.apex = -Math.min(0, ...this.arc.map(point => point.dy))
+  }
+
+  /**
+   * Replay the order of operations in GameEngine.update for a player holding
+   * run, jump and a direction from a standstill on flat ground
+   */
+  public static simulateJumpArc(physics: PhysicsEngine, speed: number, jumpPower: number): JumpArcPoint[] {
+    const gravity = physics.getGravity()
+    const maxVelocity = physics.getMaxVelocity()
+    const arc: JumpArcPoint[] = []
+
+    let dx = 0
+    let dy = 0
+    let vy = -jumpPower
+    for (let tick = 0; tick < MAX_ARC_TICKS && dy < MAX_FALL; tick++) {
+      const grounded = tick === 0
+
+      // Player.handleInput sets horizontal speed every tick the direction is held
+      let vx = speed
+      if (!grounded) {
+        vy += gravity
+      }
+      vx *= grounded ? physics.getFriction() : physics.getAirResistance()
+
+      vx = Math.min(maxVelocity.x, vx)
+      vy = Math.max(-maxVelocity.y, Math.min(maxVelocity.y, vy))
+
+      dx += vx
+      dy += vy
+      arc.push({ dx, dy, vy })
+    }
+
+    return arc
+  }
+
+  public getJumpArc(): JumpArcPoint[] {
+    return this.arc
+  }
+
+  public analyze(level: LevelDocument): SolvabilityReport {
+    const bodies = this.getBodies(level)
+    const ledges = [...this.extractLedges(bodies), ...this.extractRouteLedges(level, bodies)]
+    const issues: string[] = []
+    const gaps: SolvabilityGap[] = []
+
+    const report: SolvabilityReport = {
+      solvable: false,
+      hasGround: false,
+      goalReachable: false,
+      reachablePlatforms: 0,
+      totalPlatforms: bodies.length,
+      maxJumpHeight: Math.round(this.apex),
+      maxJumpDistance: Math.round(this.getMaxDistance()),
+      gaps,
+      issues,
+      approximate: (level.regions || []).some(region => region.type === 'water') ||
+        level.platforms.some(platform => platform.warp?.area !== undefined)
+    }
+
+    const start = level.playerStart
+    const end = level.goal
+    if (!start || !end) {
+      issues.push('Level needs both a start and an end point to be checked')
+      return report
+    }
+
+    // The player spawns at the start point and drops onto the first surface below it
+    const spawnLedges = this.landingLedges(ledges, start.x, start.y)
+    if (spawnLedges.length === 0) {
+      issues.push('There is no ground below the start point - Mario falls straight out of the level')
+      return report
+    }
+    report.hasGround = true
+
+    const ledgesByBody = new Map<number, Ledge[]>()
+    ledges.forEach(ledge => {
+      if (!ledgesByBody.has(ledge.body)) ledgesByBody.set(ledge.body, [])
+      ledgesByBody.get(ledge.body)!.push(ledge)
+    })
+    const platformBody = (index: number) => level.polygons.length + index
+    const moving = new Set(level.platforms.flatMap((platform, index) => platform.path ? [platformBody(index)] : []))
+    // Pipes leading elsewhere in this level, by body - pipes into other rooms make the report approximate instead
+    const warps = new Map(level.platforms.flatMap((platform, index) =>
+      platform.warp && platform.warp.area === undefined ? [[platformBody(index), platform.warp] as const] : []
+    ))
+
+    // Breadth-first search over surfaces connected by a jump, a ride or a pipe
+    const reachable = new Set<Ledge>()
+    const queue: Ledge[] = []
+    const reach = (ledge: Ledge) => {
+      if (reachable.has(ledge)) return
+      reachable.add(ledge)
+      queue.push(ledge)
+      if (moving.has(ledge.body)) {
+        ledgesByBody.get(ledge.body)!.forEach(reach)
+      }
+      const warp = warps.get(ledge.body)
+      if (warp) {
+        this.landingLedges(ledges, warp.x, warp.y).forEach(reach)
+      }
+    }
+    spawnLedges.forEach(reach)
+    while (queue.length > 0) {
+      const from = queue.shift()!
+      ledges.forEach(to => {
+        if (!reachable.has(to) && this.canJump(from, to)) {
+          reach(to)
+        }
+      })
+    }
+
+    const reachableBodies = new Set(Array.from(reachable).map(ledge => ledge.body))
+    report.reachablePlatforms = reachableBodies.size
+
+    const goal: Rect = { x: end.x, y: end.y, width: GOAL_SIZE.width, height: GOAL_SIZE.height }
+    report.goalReachable = Array.from(reachable).some(ledge => this.canTouch(ledge, goal))
+    report.solvable = report.goalReachable
+
+    // Explain each platform that can never be stood on, from its nearest reachable neighbour
+    ledgesByBody.forEach((targets, body) => {
+      if (reachableBodies.has(body)) return
+      const gap = this.closestGap(Array.from(reachable), targets.map(ledge => this.ledgeRect(ledge)), body, 0)
+      if (gap) gaps.push(gap)
+    })
+
+    if (!report.goalReachable) {
+      // Touching the goal only needs the player's head to get level with its bottom
+      const gap = this.closestGap(Array.from(reachable), [goal], 'goal', this.playerHeight)
+      if (gap) gaps.push(gap)
+
+      if (gap?.reason === 'too_high') {
+        issues.push(`Reaching the goal needs a ${Math.round(gap.rise)}px jump from the closest reachable ground, but Mario can only jump ${report.maxJumpHeight}px`)
+      } else if (gap) {
+        issues.push(`The goal is ${Math.round(gap.distance)}px away from the closest reachable ground, but Mario can only jump ${Math.round(gap.maxDistance)}px at that height`)
+      } else {
+        issues.push('The goal cannot be reached from the start point')
+      }
+    }
+
+    const unreachable = gaps.filter(gap => gap.to !== 'goal').length
+    if (unreachable > 0) {
+      issues.push(`${unreachable} platform${unreachable === 1 ? ' is' : 's are'} out of jumping range`)
+    }
+    if (report.approximate && (!report.goalReachable || unreachable > 0)) {
+      issues.push('Swimming and rooms behind pipes aren\'t checked - they may still get Mario there')
+    }
+
+    return report
+  }
+
+  /**
+   * Outlines of every solid shape: polygons as drawn, platforms as rectangles
+   */
+  private getBodies(level: LevelDocument): [number, number][][] {
+    return [
+      ...level.polygons.map(polygon => polygon.points),
+      ...level.platforms.map(({ x, y, width, height }): [number, number][] => [
+        [x, y], [x + width, y], [x + width, y + height], [x, y + height]
+      ])
+    ]
+  }
+
+  /**
+   * The surfaces a player standing at x, y drops onto - the highest ones below
+   */
+  private landingLedges(ledges: Ledge[], x: number, y: number): Ledge[] {
+    const below = ledges.filter(ledge =>
+      ledge.y >= y &&
+      x < ledge.x2 && x + this.playerWidth > ledge.x1
+    )
+    if (below.length === 0) return []
+    const top = Math.min(...below.map(ledge => ledge.y))
+    return below.filter(ledge => ledge.y === top)
+  }
+
+  /**
+   * A moving platform's surface again at each waypoint of its path
+   */
+  private extractRouteLedges(level: LevelDocument, bodies: [number, number][][]): Ledge[] {
+    return level.platforms.flatMap((platform, index) => {
+      if (!platform.path) return []
+      const body = level.polygons.length + index
+      const ledges = this.extractLedges([bodies[body]]).map(ledge => ({ ...ledge, body }))
+      return platform.path.points.flatMap(([dx, dy]) =>
+        ledges.map(ledge => ({ ...ledge, x1: ledge.x1 + dx, x2: ledge.x2 + dx, y: ledge.y + dy }))
+      )
+    })
+  }
+
+  private extractLedges(bodies: [number, number][][]): Ledge[] {
+    const ledges: Ledge[] = []
+
+    bodies.forEach((points, index) => {
+      if (points.length < 3) return
+      const polygon = new Polygon(points)
+
+      points.forEach((p1, i) => {
+        const p2 = points[(i + 1) % points.length]
+        const width = Math.abs(p2[0] - p1[0])
+        if (width < 1 || Math.abs(p2[1] - p1[1]) / width > MAX_WALKABLE_SLOPE) return
+
+        // Only the top side of a shape is walkable: open air above, solid below
+        const midX = (p1[0] + p2[0]) / 2
+        const midY = (p1[1] + p2[1]) / 2
+        if (polygon.contains(midX, midY - 2) || !polygon.contains(midX, midY + 2)) return
+
+        const [left, right] = p1[0] < p2[0] ? [p1, p2] : [p2, p1]
+        const pieces = Math.ceil(width / LEDGE_PIECE_WIDTH)
+        for (let piece = 0; piece < pieces; piece++) {
+          const t1 = piece / pieces
+          const t2 = (piece + 1) / pieces
+          ledges.push({
+            body: index,
+            x1: left[0] + (right[0] - left[0]) * t1,
+            x2: left[0] + (right[0] - left[0]) * t2,
+            // Stand on the highest point of the piece
+            y: Math.min(left[1] + (right[1] - left[1]) * t1, left[1] + (right[1] - left[1]) * t2)
+          })
+        }
+      })
+    })
+
+    return ledges
+  }
+
+  /**
+   * Horizontal distance between where the player can stand on `from` and where
+   * the player's box would overlap `to`
+   */
+  private horizontalGap(from: Ledge, toX1: number, toX2: number): number {
+    const fromLeft = from.x1 - this.playerWidth + 1
+    const fromRight = from.x2 - 1
+    const toLeft = toX1 - this.playerWidth + 1
+    const toRight = toX2 - 1
+    return Math.max(0, toLeft - fromRight, fromLeft - toRight)
+  }
+
+  private canJump(from: Ledge, to: Ledge): boolean {
+    const drop = to.y - from.y
+    const reach = this.landingReach(drop)
+    return reach !== null && this.horizontalGap(from, to.x1, to.x2) <= reach
+  }
+
+  /**
+   * Horizontal distance covered by the time the player's feet fall back through
+   * a surface `drop` pixels below the take-off height (null if the arc never gets there)
+   */
+  private landingReach(drop: number): number | null {
+    if (-drop > this.apex) return null
+
+    for (let i = 1; i < this.arc.length; i++) {
+      const point = this.arc[i]
+      if (point.vy > 0 && point.dy >= drop && this.arc[i - 1].dy < drop) {
+        return point.dx
+      }
+    }
+    return null
+  }
+
+  /**
+   * Whether any tick of the arc from `from` puts the player's box over `target`
+   */
+  private canTouch(from: Ledge, target: Rect): boolean {
+    const gap = this.horizontalGap(from, target.x, target.x + target.width)
+    return this.arc.some(point => {
+      const top = from.y - this.playerHeight + point.dy
+      const bottom = from.y + point.dy
+      return top <= target.y + target.height && bottom >= target.y && gap <= point.dx
+    })
+  }
+
+  private ledgeRect(ledge: Ledge): Rect {
+    return { x: ledge.x1, y: ledge.y, width: ledge.x2 - ledge.x1, height: 0 }
+  }
+
+  /**
+   * Find the attempt that falls shortest of reaching any of `targets`.
+   * `reach` is how far above its feet the player can touch the target from.
+   */
+  private closestGap(reachable: Ledge[], targets: Rect[], to: number | 'goal', reach: number): SolvabilityGap | null {
+    let best: SolvabilityGap | null = null
+    let bestShortfall = Infinity
+
+    for (const from of reachable) {
+      for (const target of targets) {
+        const distance = this.horizontalGap(from, target.x, target.x + target.width)
+        // Height the player's feet have to climb
+        const rise = from.y - (target.y + target.height) - reach
+        const tooHigh = rise > this.apex
+        const maxDistance = tooHigh ? 0 : this.maxDistanceAtRise(rise)
+        const shortfall = tooHigh ? rise - this.apex + distance : distance - maxDistance
+
+        if (shortfall < bestShortfall) {
+          bestShortfall = shortfall
+          best = {
+            fromBody: from.body,
+            to,
+            reason: tooHigh ? 'too_high' : 'too_far',
+            distance,
+            rise,
+            maxDistance,
+            maxRise: this.apex
+          }
+        }
+      }
+    }
+
+    return best
+  }
+
+  /**
+   * Furthest horizontal distance at which the player's feet are at least `rise` above take-off
+   */
+  private maxDistanceAtRise(rise: number): number {
+    let distance = 0
+    this.arc.forEach(point => {
+      if (-point.dy >= rise) distance = Math.max(distance, point.dx)
+    })
+    return distance
+  }
+
+  private getMaxDistance(): number {
+    return this.maxDistanceAtRise(0)
+  }
+}
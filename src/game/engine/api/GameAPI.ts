@@ -1,6 +1,14 @@
 import { GameEngine } from '../GameEngine'
-import type { GameConfig } from '../GameEngine'
+import type { GameConfig, PackProgress, ReplayResult } from '../GameEngine'
 import { LevelBuilder } from '../LevelBuilder'
+import { ReplayCodec } from '../replay/Replay'
+import type { Replay } from '../replay/Replay'
+import type { GameEventName, GameEventHandler } from '../core/EventBus'
+import type { SoundBindingMap } from '../audio/SoundBindings'
+import type { GamepadInfo } from '../input/GamepadInput'
+import type { BindingTable } from '../input/InputBindings'
+import type { TouchControlsConfig } from '../input/TouchControls'
+import type { BlockContents, LevelBackground, LevelWarp, PathMode, RegionType } from '../schema/LevelSchema'
 
 /**
  * GameAPI - Complete API interface for the Mario Game Engine
@@ -121,6 +129,15 @@ export class GameAPI {
     return this
   }
 
+  /**
+   * Add a checkpoint flag - after losing a life the player respawns at the last one touched
+   */
+  addCheckpoint(x: number, y: number): this {
+    this.builder.addCheckpoint(x, y)
+    this.log(`Checkpoint added at (${x}, ${y})`)
+    return this
+  }
+
   // ==================== HELPER METHODS ====================
 
   /**
@@ -140,14 +157,107 @@ export class GameAPI {
   }
 
   /**
-   * Add a block
+   * Add a pipe the player goes down by pressing down on top of it, coming out
+   * at the warp's point - in the warp's area, or the main level if it has none
+   */
+  addWarpPipe(x: number, y: number, warp: LevelWarp, height = 100): this {
+    this.builder.addWarpPipe(x, y, warp, height)
+    this.log(`Warp pipe added at (${x}, ${y}) leading to (${warp.x}, ${warp.y})${warp.area ? ` in ${warp.area}` : ''}`)
+    return this
+  }
+
+  /**
+   * Start building an area - a separate room warp pipes lead to. Everything
+   * added goes into it until mainArea() is called.
+   */
+  area(id: string, background: LevelBackground = 'underground'): this {
+    this.builder.area(id, background)
+    this.log(`Building area: ${id}`)
+    return this
+  }
+
+  /**
+   * Go back to building the main level after area()
    */
-  addBlock(x: number, y: number, type = 'brick'): this {
-    this.builder.addBlock(x, y, type)
+  mainArea(): this {
+    this.builder.mainArea()
+    this.log('Building main level')
+    return this
+  }
+
+  /**
+   * Set the background of the level, or of the area being built
+   */
+  setBackground(background: LevelBackground): this {
+    this.builder.setBackground(background)
+    this.log(`Background set to: ${background}`)
+    return this
+  }
+
+  /**
+   * Add a block - 'question', 'brick' or 'hidden', optionally with what it gives when hit
+   */
+  addBlock(x: number, y: number, type = 'brick', contents?: BlockContents): this {
+    this.builder.addBlock(x, y, type, contents)
     this.log(`Block (${type}) added at (${x}, ${y})`)
     return this
   }
 
+  /**
+   * Add a platform that travels through waypoints given as [dx, dy] offsets from
+   * x, y - 'linear' goes out and back again, 'loop' runs round from the last point to the first
+   */
+  addMovingPlatform(x: number, y: number, width: number, points: [number, number][], speed = 60, mode: PathMode = 'linear', height = 20): this {
+    this.builder.addMovingPlatform(x, y, width, points, speed, mode, height)
+    this.log(`Moving platform added at (${x}, ${y}) through ${points.length} point(s)`)
+    return this
+  }
+
+  /**
+   * Add a platform that drops away shortly after the player stands on it
+   */
+  addFallingPlatform(x: number, y: number, width: number, height = 20): this {
+    this.builder.addFallingPlatform(x, y, width, height)
+    this.log(`Falling platform added at (${x}, ${y})`)
+    return this
+  }
+
+  /**
+   * Add a platform that breaks up shortly after the player stands on it and reforms later
+   */
+  addCrumblingPlatform(x: number, y: number, width: number, height = 20): this {
+    this.builder.addCrumblingPlatform(x, y, width, height)
+    this.log(`Crumbling platform added at (${x}, ${y})`)
+    return this
+  }
+
+  /**
+   * Add a ledge that can be jumped up through and landed on from above
+   */
+  addOneWayPlatform(x: number, y: number, width: number, height = 20): this {
+    this.builder.addOneWayPlatform(x, y, width, height)
+    this.log(`One-way platform added at (${x}, ${y})`)
+    return this
+  }
+
+  /**
+   * Add a rectangle of water, lava, pit, ice or conveyor (speed in pixels per second, negative runs left)
+   */
+  addRegion(x: number, y: number, width: number, height: number, type: RegionType, speed?: number): this {
+    this.builder.addRegion(x, y, width, height, type, speed)
+    this.log(`${type} region added at (${x}, ${y})`)
+    return this
+  }
+
+  /**
+   * Add a water, lava, pit, ice or conveyor region with any outline
+   */
+  addRegionShape(contours: number[][], type: RegionType, speed?: number): this {
+    this.builder.addRegionShape(contours, type, speed)
+    this.log(`${type} region added with ${contours.length} points`)
+    return this
+  }
+
   /**
    * Add a row of coins
    */
@@ -200,9 +310,10 @@ export class GameAPI {
    * Generate enemies
    */
   generateEnemies(count: number, startX: number, endX: number, y: number): this {
+    const random = this.engine.getRandom()
     for (let i = 0; i < count; i++) {
-      const x = startX + Math.random() * (endX - startX)
-      const type = Math.random() > 0.5 ? 'goomba' : 'koopa'
+      const x = random.range(startX, endX)
+      const type = random.chance(0.5) ? 'goomba' : 'koopa'
       this.addEnemy(x, y, type)
     }
     this.log(`Generated ${count} enemies`)
@@ -239,7 +350,7 @@ export class GameAPI {
   }
 
   /**
-   * Import level from JSON
+   * Import level from JSON - throws if it isn't a level the game can read
    */
   importJSON(json: string): this {
     this.builder.importJSON(json)
@@ -294,6 +405,50 @@ export class GameAPI {
     return this
   }
 
+  // ==================== REPLAY ====================
+
+  /**
+   * Restart the current level and record inputs for a bug report
+   */
+  startRecording(): this {
+    this.engine.startRecording()
+    this.log('Replay recording started')
+    return this
+  }
+
+  /**
+   * Stop recording and return the replay as JSON (null if nothing was recording)
+   */
+  stopRecording(): string | null {
+    const replay = this.engine.stopRecording()
+    if (!replay) return null
+
+    this.log(`Replay recorded: ${replay.tickCount} ticks`)
+    return ReplayCodec.toJSON(replay)
+  }
+
+  /**
+   * Play a recorded replay (JSON string, parsed object or binary) on the canvas
+   */
+  playReplay(replay: string | Replay | Uint8Array): this {
+    this.engine.playReplay(this.parseReplay(replay))
+    this.log('Replay playback started')
+    return this
+  }
+
+  /**
+   * Run a recorded replay to the end without rendering and return where it ended
+   */
+  runReplay(replay: string | Replay | Uint8Array): ReplayResult {
+    const result = this.engine.runReplay(this.parseReplay(replay))
+    this.log(`Replay finished: ${result.outcome} after ${result.ticks} ticks`)
+    return result
+  }
+
+  private parseReplay(replay: string | Replay | Uint8Array): Replay {
+    return replay instanceof Uint8Array ? ReplayCodec.fromBinary(replay) : ReplayCodec.fromJSON(replay)
+  }
+
   // ==================== AUDIO CONTROL ====================
 
   /**
@@ -373,6 +528,66 @@ export class GameAPI {
     return this.engine.getAudioManager().getSettings()
   }
 
+  /**
+   * Change which sound engine events play, on top of the defaults (null silences an event)
+   */
+  setSoundBindings(bindings: SoundBindingMap): this {
+    this.engine.getSoundBindings()?.setBindings(bindings)
+    return this
+  }
+
+  // ==================== CONTROLLERS ====================
+
+  /**
+   * Connected game controllers
+   */
+  getGamepads(): GamepadInfo[] {
+    return this.engine.getInputManager()?.getGamepads() ?? []
+  }
+
+  /**
+   * Play with one controller, or null to follow whichever was used last (the default)
+   */
+  selectGamepad(index: number | null): this {
+    this.engine.getInputManager()?.selectGamepad(index)
+    this.log(index === null ? 'Following the last used controller' : `Controller ${index} selected`)
+    return this
+  }
+
+  /**
+   * Use new key and button bindings right away (they are saved by InputBindings.save)
+   */
+  setInputBindings(table: BindingTable): this {
+    this.engine.getInputManager()?.setBindings(table)
+    return this
+  }
+
+  /**
+   * Show, hide, move or resize the on-screen stick and buttons
+   */
+  setTouchControls(config: Partial<TouchControlsConfig>): this {
+    this.engine.getInputManager()?.setTouchControls(config)
+    return this
+  }
+
+  // ==================== EVENTS ====================
+
+  /**
+   * Subscribe to an engine event (coinCollected, jump, levelComplete...)
+   * Returns a function that unsubscribes.
+   */
+  on<K extends GameEventName>(event: K, handler: GameEventHandler<K>): () => void {
+    return this.engine.getEvents().on(event, handler)
+  }
+
+  /**
+   * Unsubscribe a handler added with on()
+   */
+  off<K extends GameEventName>(event: K, handler: GameEventHandler<K>): this {
+    this.engine.getEvents().off(event, handler)
+    return this
+  }
+
   // ==================== QUICK SOUND METHODS ====================
 
   /**
@@ -403,6 +618,14 @@ export class GameAPI {
     return this.engine.getScore ? this.engine.getScore() : 0
   }
 
+  /**
+   * Get progress through the loaded level pack (levels finished, checkpoints reached),
+   * or null when no pack is loaded
+   */
+  getPackProgress(): PackProgress | null {
+    return this.engine.getPackProgress()
+  }
+
   /**
    * Get platforms for debugging
    */
@@ -519,46 +742,49 @@ export class GameAPI {
   generateRandomLevel(): this {
     this.clearLevel()
 
+    // Draw from the engine's seeded RNG so a given seed always yields the same level
+    const random = this.engine.getRandom()
+
     // Ground
     this.generateGround(0, 3000, 500)
 
     // Random platforms
-    const platformCount = 8 + Math.floor(Math.random() * 7)
+    const platformCount = random.int(8, 14)
     for (let i = 0; i < platformCount; i++) {
-      const x = 200 + Math.random() * 2600
-      const y = 200 + Math.random() * 200
-      const width = 60 + Math.random() * 60
+      const x = random.range(200, 2800)
+      const y = random.range(200, 400)
+      const width = random.range(60, 120)
       this.addPlatform(x, y, width, 20, 'platform')
     }
 
     // Random coins
-    const coinGroups = 3 + Math.floor(Math.random() * 4)
+    const coinGroups = random.int(3, 6)
     for (let i = 0; i < coinGroups; i++) {
-      const x = 200 + Math.random() * 2600
-      const y = 150 + Math.random() * 200
-      const count = 3 + Math.floor(Math.random() * 5)
+      const x = random.range(200, 2800)
+      const y = random.range(150, 350)
+      const count = random.int(3, 7)
       this.addCoinRow(x, y, count)
     }
 
     // Random enemies
-    const enemyCount = 4 + Math.floor(Math.random() * 6)
+    const enemyCount = random.int(4, 9)
     this.generateEnemies(enemyCount, 300, 2700, 450)
 
     // Random power-ups
-    const powerUpCount = 2 + Math.floor(Math.random() * 2)
+    const powerUpCount = random.int(2, 3)
     const powerUpTypes = ['mushroom', 'flower', 'star']
     for (let i = 0; i < powerUpCount; i++) {
-      const x = 400 + Math.random() * 2200
-      const y = 200 + Math.random() * 150
-      const type = powerUpTypes[Math.floor(Math.random() * powerUpTypes.length)]
+      const x = random.range(400, 2600)
+      const y = random.range(200, 350)
+      const type = random.pick(powerUpTypes)
       this.addPowerUp(x, y, type)
     }
 
     // Random pipes
-    const pipeCount = 2 + Math.floor(Math.random() * 3)
+    const pipeCount = random.int(2, 4)
     for (let i = 0; i < pipeCount; i++) {
-      const x = 500 + Math.random() * 2000
-      const height = 100 + Math.random() * 100
+      const x = random.range(500, 2500)
+      const height = random.range(100, 200)
       this.addPipe(x, 500 - height, height)
     }
 
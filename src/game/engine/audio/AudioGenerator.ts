@@ -3,6 +3,9 @@
  * Creates placeholder audio files for development and testing
  */
 
+import { ChiptuneComposer, MUSIC_SAMPLE_RATE } from './ChiptuneComposer'
+import type { MusicMood } from '../schema/LevelSchema'
+
 export class AudioGenerator {
   private audioContext: AudioContext | null = null
 
@@ -151,13 +154,27 @@ export class AudioGenerator {
     })
   }
 
+  /**
+   * Generate a looping chiptune theme - the same seed and mood always give the same music.
+   * Rendered in plain code, so this works without an audio context.
+   */
+  async generateMusic(seed: number, mood: MusicMood): Promise<Blob> {
+    const song = ChiptuneComposer.compose(seed, mood)
+    return this.samplesToWav(ChiptuneComposer.render(song, MUSIC_SAMPLE_RATE), MUSIC_SAMPLE_RATE)
+  }
+
   /**
    * Convert AudioBuffer to WAV blob
    */
   private async audioBufferToWav(audioBuffer: AudioBuffer): Promise<Blob> {
-    const length = audioBuffer.length
-    const sampleRate = audioBuffer.sampleRate
-    const channelData = audioBuffer.getChannelData(0)
+    return this.samplesToWav(audioBuffer.getChannelData(0), audioBuffer.sampleRate)
+  }
+
+  /**
+   * Encode mono samples as a 16-bit PCM WAV blob
+   */
+  private samplesToWav(channelData: Float32Array, sampleRate: number): Blob {
+    const length = channelData.length
 
     // WAV file format
     const arrayBuffer = new ArrayBuffer(44 + length * 2)
@@ -1,10 +1,13 @@
 /**
  * AudioManager - Centralized audio system management
- * Handles all sound effects, music, and audio settings for the Mario game
+ * Handles all sound effects, music, and audio settings for the Mario game.
+ * Plays through Web Audio where the browser has it, falling back to
+ * HTMLAudioElement sound pools and MusicPlayer where it doesn't.
  */
 
 import { SoundEffect, SoundOptions } from './SoundEffect'
-import { MusicPlayer, MusicTrack } from './MusicPlayer'
+import { MusicPlayer, MusicTrack, MusicOptions } from './MusicPlayer'
+import { WebAudioBackend } from './WebAudioBackend'
 
 export interface AudioSettings {
   masterVolume?: number
@@ -21,12 +24,36 @@ export interface SoundDefinition {
   options?: SoundOptions
 }
 
+export interface PlaySoundOptions {
+  volume?: number
+  playbackRate?: number
+  // -1 (left) to 1 (right) - only the Web Audio backend pans
+  pan?: number
+}
+
+// How far left or right a sound at the edge of the screen is panned
+const MAX_PAN = 0.8
+
+// Fade when music pauses and resumes with the game, in ms
+const PAUSE_FADE_DURATION = 500
+
 export class AudioManager {
   private static instance: AudioManager | null = null
 
   private musicPlayer: MusicPlayer
+  private musicDefaults: MusicOptions = {
+    loop: true,
+    crossfadeDuration: 2000,
+    fadeInDuration: 1000,
+    fadeOutDuration: 1000
+  }
+  private backend: WebAudioBackend | null = null
+  private initializePromise: Promise<void> | null = null
+  private soundDefinitions: Map<string, SoundDefinition> = new Map()
   private soundEffects: Map<string, SoundEffect> = new Map()
   private soundPools: Map<string, SoundEffect[]> = new Map()
+  // Visible world span, for panning sounds by where they happen
+  private listener: { left: number; right: number } | null = null
   private settings: AudioSettings = {
     masterVolume: 1.0,
     sfxVolume: 0.8,
@@ -39,10 +66,7 @@ export class AudioManager {
   private constructor() {
     this.musicPlayer = new MusicPlayer({
       volume: this.settings.musicVolume,
-      loop: true,
-      crossfadeDuration: 2000,
-      fadeInDuration: 1000,
-      fadeOutDuration: 1000
+      ...this.musicDefaults
     })
 
     // Load settings from localStorage if available
@@ -60,30 +84,46 @@ export class AudioManager {
   }
 
   /**
-   * Initialize the audio system with predefined sounds
+   * Initialize the audio system with predefined sounds - later calls wait for the first
    */
   async initialize(): Promise<void> {
+    if (!this.initializePromise) {
+      this.initializePromise = this.loadSounds()
+    }
+    return this.initializePromise
+  }
+
+  private async loadSounds(): Promise<void> {
     console.log('🔊 Initializing Audio System...')
 
+    if (WebAudioBackend.isSupported()) {
+      try {
+        this.backend = new WebAudioBackend()
+      } catch (error) {
+        console.warn('Web Audio unavailable, using HTML audio:', error)
+      }
+    }
+
     // Define Mario game sounds
     const soundDefinitions: SoundDefinition[] = [
       // Player sounds
-      { name: 'jump', src: '/audio/sfx/jump.wav', options: { volume: 0.6 } },
-      { name: 'land', src: '/audio/sfx/land.wav', options: { volume: 0.4 } },
+      { name: 'jump', src: '/audio/sfx/jump.wav', options: { volume: 0.6, pitchVariation: 0.04 } },
+      { name: 'land', src: '/audio/sfx/land.wav', options: { volume: 0.4, pitchVariation: 0.1 } },
       { name: 'death', src: '/audio/sfx/death.wav', options: { volume: 0.8 } },
       { name: 'powerup', src: '/audio/sfx/powerup.wav', options: { volume: 0.7 } },
+      { name: 'fireball', src: '/audio/sfx/fireball.wav', options: { volume: 0.5, pitchVariation: 0.08 } },
 
       // Collectibles
-      { name: 'coin', src: '/audio/sfx/coin.wav', options: { volume: 0.5 } },
+      { name: 'coin', src: '/audio/sfx/coin.wav', options: { volume: 0.5, pitchVariation: 0.03 } },
       { name: 'life', src: '/audio/sfx/1up.wav', options: { volume: 0.8 } },
 
       // Enemies
-      { name: 'enemy_stomp', src: '/audio/sfx/stomp.wav', options: { volume: 0.6 } },
-      { name: 'enemy_defeat', src: '/audio/sfx/kick.wav', options: { volume: 0.5 } },
+      { name: 'enemy_stomp', src: '/audio/sfx/stomp.wav', options: { volume: 0.6, pitchVariation: 0.08 } },
+      { name: 'enemy_defeat', src: '/audio/sfx/kick.wav', options: { volume: 0.5, pitchVariation: 0.08 } },
 
       // Environment
-      { name: 'block_break', src: '/audio/sfx/break.wav', options: { volume: 0.5 } },
-      { name: 'block_bump', src: '/audio/sfx/bump.wav', options: { volume: 0.4 } },
+      { name: 'block_break', src: '/audio/sfx/break.wav', options: { volume: 0.5, pitchVariation: 0.1 } },
+      { name: 'block_bump', src: '/audio/sfx/bump.wav', options: { volume: 0.4, pitchVariation: 0.05 } },
       { name: 'pipe', src: '/audio/sfx/pipe.wav', options: { volume: 0.6 } },
 
       // UI sounds
@@ -97,15 +137,23 @@ export class AudioManager {
       { name: 'game_over', src: '/audio/sfx/game_over.wav', options: { volume: 0.8 } }
     ]
 
+    soundDefinitions.forEach(def => this.soundDefinitions.set(def.name, def))
+
     // Load all sound effects
     const loadPromises = soundDefinitions.map(async (def) => {
       try {
+        // Decoded buffers overlap freely, so Web Audio needs no pools
+        if (this.backend) {
+          await this.backend.load(def.name, def.src)
+          return
+        }
+
         const sound = new SoundEffect(def.name, def.src, def.options)
         await sound.load()
         this.soundEffects.set(def.name, sound)
 
         // Create sound pools for frequently used sounds
-        if (['coin', 'jump', 'enemy_stomp'].includes(def.name)) {
+        if (['coin', 'jump', 'enemy_stomp', 'fireball'].includes(def.name)) {
           this.createSoundPool(def.name, def.src, def.options || {}, 3)
         }
       } catch (error) {
@@ -115,7 +163,7 @@ export class AudioManager {
 
     await Promise.all(loadPromises)
 
-    console.log(`✅ Loaded ${this.soundEffects.size} sound effects`)
+    console.log(`✅ Loaded ${this.getLoadedSounds().length} sound effects`)
 
     // Apply current settings
     this.updateVolumes()
@@ -147,11 +195,24 @@ export class AudioManager {
   /**
    * Play a sound effect
    */
-  async playSound(name: string, options?: { volume?: number; playbackRate?: number }): Promise<void> {
+  async playSound(name: string, options?: PlaySoundOptions): Promise<void> {
     if (this.settings.muted || this.settings.sfxMuted) {
       return
     }
 
+    const definition = this.soundDefinitions.get(name)?.options
+    const variation = definition?.pitchVariation ?? 0
+    const playbackRate = (options?.playbackRate ?? definition?.playbackRate ?? 1) * (1 + (Math.random() * 2 - 1) * variation)
+
+    if (this.backend) {
+      // The sfx and master buses apply the settings' volumes
+      const volume = (definition?.volume ?? 1) * (options?.volume ?? 1)
+      if (!this.backend.play(name, { volume, playbackRate, pan: options?.pan })) {
+        console.warn(`Sound effect not found: ${name}`)
+      }
+      return
+    }
+
     try {
       // Try to get from pool first
       let sound = this.getPooledSound(name)
@@ -169,18 +230,40 @@ export class AudioManager {
       const finalVolume = (options?.volume ?? 1.0) * this.settings.sfxVolume! * this.settings.masterVolume!
 
       await sound.play({
-        ...options,
-        volume: finalVolume
+        volume: finalVolume,
+        playbackRate
       })
     } catch (error) {
       console.warn(`Failed to play sound: ${name}`, error)
     }
   }
 
+  /**
+   * Play a sound panned by where it happens in the world, relative to the listener
+   */
+  async playSoundAt(name: string, x: number, options?: PlaySoundOptions): Promise<void> {
+    let pan = 0
+    if (this.listener) {
+      const halfWidth = (this.listener.right - this.listener.left) / 2
+      const center = this.listener.left + halfWidth
+      pan = halfWidth > 0 ? Math.max(-1, Math.min(1, (x - center) / halfWidth)) * MAX_PAN : 0
+    }
+    await this.playSound(name, { ...options, pan })
+  }
+
+  /**
+   * Set the visible world span (usually the camera viewport) sounds are panned across
+   */
+  setListener(view: { left: number; right: number }): void {
+    this.listener = { left: view.left, right: view.right }
+  }
+
   /**
    * Stop a sound effect
    */
   stopSound(name: string): void {
+    this.backend?.stop(name)
+
     const sound = this.soundEffects.get(name)
     if (sound) {
       sound.stop()
@@ -197,6 +280,23 @@ export class AudioManager {
    * Play background music
    */
   async playMusic(track: MusicTrack): Promise<void> {
+    // Music can be asked for before the game starts - pick the backend first so it's paused and stopped by the same one
+    await this.initialize()
+
+    if (this.backend) {
+      const options = { ...this.musicDefaults, ...track.options }
+      try {
+        await this.backend.playMusic(track.name, track.src, {
+          loop: options.loop,
+          fadeIn: options.fadeInDuration,
+          crossfade: options.crossfadeDuration
+        })
+      } catch (error) {
+        console.warn(`Failed to play music track: ${track.name}`, error)
+      }
+      return
+    }
+
     if (this.settings.muted || this.settings.musicMuted) {
       this.musicPlayer.setMuted(true)
     } else {
@@ -211,6 +311,10 @@ export class AudioManager {
    * Stop background music
    */
   async stopMusic(fadeOut?: boolean): Promise<void> {
+    if (this.backend) {
+      await this.backend.stopMusic(fadeOut ? this.musicDefaults.fadeOutDuration : 0)
+      return
+    }
     await this.musicPlayer.stop(fadeOut ? undefined : 0)
   }
 
@@ -218,6 +322,10 @@ export class AudioManager {
    * Pause background music
    */
   async pauseMusic(fadeOut?: boolean): Promise<void> {
+    if (this.backend) {
+      await this.backend.pauseMusic(fadeOut ? PAUSE_FADE_DURATION : 0)
+      return
+    }
     await this.musicPlayer.pause(fadeOut ? undefined : 0)
   }
 
@@ -225,6 +333,10 @@ export class AudioManager {
    * Resume background music
    */
   async resumeMusic(fadeIn?: boolean): Promise<void> {
+    if (this.backend) {
+      this.backend.resumeMusic(fadeIn ? PAUSE_FADE_DURATION : 0)
+      return
+    }
     await this.musicPlayer.resume(fadeIn ? undefined : 0)
   }
 
@@ -256,13 +368,20 @@ export class AudioManager {
       this.musicPlayer.setVolume(this.settings.musicVolume! * this.settings.masterVolume!)
     }
 
-    // Sound effects are updated per-play, so no need to update them here
+    // HTML audio sound effects are updated per-play, Web Audio ones by their bus
+    this.backend?.setVolumes({
+      master: this.settings.muted ? 0 : this.settings.masterVolume!,
+      sfx: this.settings.sfxMuted ? 0 : this.settings.sfxVolume!,
+      music: this.settings.musicMuted ? 0 : this.settings.musicVolume!
+    })
   }
 
   /**
    * Save settings to localStorage
    */
   private saveSettings(): void {
+    // Nowhere to keep them outside a browser, e.g. the headless engine under Node
+    if (typeof localStorage === 'undefined') return
     try {
       localStorage.setItem('mario-audio-settings', JSON.stringify(this.settings))
     } catch (error) {
@@ -275,7 +394,7 @@ export class AudioManager {
    */
   private loadSettings(): void {
     try {
-      const saved = localStorage.getItem('mario-audio-settings')
+      const saved = typeof localStorage !== 'undefined' ? localStorage.getItem('mario-audio-settings') : null
       if (saved) {
         const parsedSettings = JSON.parse(saved)
         this.settings = { ...this.settings, ...parsedSettings }
@@ -286,16 +405,24 @@ export class AudioManager {
   }
 
   /**
-   * Get the current music player instance
+   * Get the HTML audio music player (only used when Web Audio is unavailable)
    */
   getMusicPlayer(): MusicPlayer {
     return this.musicPlayer
   }
 
+  /**
+   * Whether sounds play through Web Audio rather than HTML audio elements
+   */
+  isUsingWebAudio(): boolean {
+    return this.backend !== null
+  }
+
   /**
    * Check if a sound is loaded
    */
   isSoundLoaded(name: string): boolean {
+    if (this.backend) return this.backend.isLoaded(name)
     const sound = this.soundEffects.get(name)
     return sound ? sound.loaded : false
   }
@@ -304,6 +431,7 @@ export class AudioManager {
    * Get all loaded sound names
    */
   getLoadedSounds(): string[] {
+    if (this.backend) return this.backend.getLoadedNames()
     return Array.from(this.soundEffects.keys())
   }
 
@@ -323,6 +451,8 @@ export class AudioManager {
 
     // Dispose music player
     this.musicPlayer.dispose()
+    this.backend?.dispose()
+    this.backend = null
 
     AudioManager.instance = null
   }
@@ -336,6 +466,7 @@ export class AudioManager {
   async land(): Promise<void> { await this.playSound('land') }
   async death(): Promise<void> { await this.playSound('death') }
   async powerUp(): Promise<void> { await this.playSound('powerup') }
+  async fireball(): Promise<void> { await this.playSound('fireball') }
 
   // Collectibles
   async collectCoin(): Promise<void> { await this.playSound('coin') }
@@ -0,0 +1,295 @@
+import { SeededRandom } from '../core/SeededRandom'
+import type { MusicMood } from '../schema/LevelSchema'
+
+export interface ChiptuneNote {
+  // Position and length in sixteenth-note steps
+  step: number
+  length: number
+  midi: number
+}
+
+export type DrumKind = 'kick' | 'snare' | 'hat'
+
+export interface DrumHit {
+  step: number
+  kind: DrumKind
+}
+
+/**
+ * A looping three-channel theme - square lead, triangle bass and noise drums
+ */
+export interface ChiptuneSong {
+  mood: MusicMood
+  seed: number
+  tempo: number
+  steps: number
+  leadDuty: number
+  lead: ChiptuneNote[]
+  bass: ChiptuneNote[]
+  drums: DrumHit[]
+}
+
+interface MoodStyle {
+  tempo: [number, number]
+  // MIDI note the lead's scale is built on
+  root: [number, number]
+  scale: number[]
+  // Chord roots as scale degrees, one chord per bar
+  progressions: number[][]
+  leadDuty: number
+  // Chance a lead step starts a rest instead of a note
+  restChance: number
+  // Bass note steps within a bar and the scale degree offset each plays from the chord root
+  bassPattern: [number, number][]
+  kicks: number[]
+  snares: number[]
+  hatEvery: number
+}
+
+const STEPS_PER_BAR = 16
+const BARS = 8
+// C2 - lowest note the bass plays
+const BASS_LOWEST = 36
+// Plenty for chip waveforms, and half the size of CD rate
+export const MUSIC_SAMPLE_RATE = 22050
+
+const MOOD_STYLES: Record<MusicMood, MoodStyle> = {
+  // Bouncy major key, root and fifth bass, full kit
+  overworld: {
+    tempo: [140, 165],
+    root: [60, 67],
+    scale: [0, 2, 4, 5, 7, 9, 11],
+    progressions: [[0, 3, 4, 0], [0, 5, 3, 4], [0, 3, 0, 4], [5, 3, 0, 4]],
+    leadDuty: 0.5,
+    restChance: 0.15,
+    bassPattern: [[0, 0], [4, 4], [8, 0], [12, 4]],
+    kicks: [0, 8],
+    snares: [4, 12],
+    hatEvery: 2
+  },
+  // Slow, low and sparse in a dark minor mode
+  underground: {
+    tempo: [100, 120],
+    root: [50, 55],
+    scale: [0, 1, 3, 5, 7, 8, 10],
+    progressions: [[0, 0, 1, 0], [0, 6, 5, 1], [0, 1, 0, 6]],
+    leadDuty: 0.125,
+    restChance: 0.4,
+    bassPattern: [[0, 0], [6, 0], [10, 4]],
+    kicks: [0, 6],
+    snares: [12],
+    hatEvery: 4
+  },
+  // Driving harmonic minor with pulsing bass
+  castle: {
+    tempo: [110, 130],
+    root: [52, 57],
+    scale: [0, 2, 3, 5, 7, 8, 11],
+    progressions: [[0, 5, 4, 0], [0, 3, 4, 4], [0, 5, 6, 4]],
+    leadDuty: 0.25,
+    restChance: 0.1,
+    bassPattern: [[0, 0], [2, 0], [4, 0], [6, 0], [8, 0], [10, 0], [12, 0], [14, 0]],
+    kicks: [0, 4, 8, 12],
+    snares: [4, 12],
+    hatEvery: 2
+  },
+  // Floaty lydian melody over long bass notes and light hats
+  sky: {
+    tempo: [105, 125],
+    root: [65, 70],
+    scale: [0, 2, 4, 6, 7, 9, 11],
+    progressions: [[0, 1, 0, 4], [0, 4, 5, 1], [3, 0, 1, 4]],
+    leadDuty: 0.25,
+    restChance: 0.25,
+    bassPattern: [[0, 0], [8, 4]],
+    kicks: [0],
+    snares: [],
+    hatEvery: 4
+  }
+}
+
+// Lead rhythms for one bar, in steps - each adds up to 16
+const LEAD_RHYTHMS = [
+  [4, 4, 4, 4],
+  [2, 2, 4, 2, 2, 4],
+  [4, 2, 2, 4, 4],
+  [3, 3, 2, 4, 4],
+  [2, 2, 2, 2, 8],
+  [6, 2, 4, 4],
+  [2, 2, 2, 2, 2, 2, 4]
+]
+
+/**
+ * ChiptuneComposer - Procedural NES-style background music
+ * compose() writes a theme from a seed and mood, render() synthesizes it
+ * offline into samples that loop seamlessly.
+ */
+export class ChiptuneComposer {
+  /**
+   * Stable seed for a level id, so a level always gets the same theme
+   */
+  static seedFor(id: string): number {
+    // FNV-1a
+    let hash = 0x811C9DC5
+    for (let i = 0; i < id.length; i++) {
+      hash ^= id.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+  }
+
+  static compose(seed: number, mood: MusicMood): ChiptuneSong {
+    const style = MOOD_STYLES[mood]
+    const random = new SeededRandom(seed)
+    const tempo = random.int(style.tempo[0], style.tempo[1])
+    const root = random.int(style.root[0], style.root[1])
+    const progression = random.pick(style.progressions)
+
+    // Scale degree (can run past an octave either way) to a MIDI note
+    const pitch = (degree: number, octave = 0) => {
+      const size = style.scale.length
+      const wrapped = ((degree % size) + size) % size
+      return root + style.scale[wrapped] + 12 * (octave + Math.floor(degree / size))
+    }
+
+    // Phrase A over the first four bars, then again with a new ending so the theme sticks
+    const phrase = ChiptuneComposer.composePhrase(random, style, progression)
+    const ending = ChiptuneComposer.composePhrase(random, style, progression).filter(n => n.step >= 3 * STEPS_PER_BAR)
+    const half = 4 * STEPS_PER_BAR
+    const leadDegrees = [
+      ...phrase,
+      ...phrase.filter(n => n.step < 3 * STEPS_PER_BAR).map(n => ({ ...n, step: n.step + half })),
+      ...ending.map(n => ({ ...n, step: n.step + half }))
+    ]
+    // The last note resolves to the root so the loop lands home
+    const last = leadDegrees[leadDegrees.length - 1]
+    if (last) last.midi = 0
+
+    const lead = leadDegrees.map(n => ({ step: n.step, length: n.length, midi: pitch(n.midi) }))
+
+    const bass: ChiptuneNote[] = []
+    for (let bar = 0; bar < BARS; bar++) {
+      const chord = progression[bar % progression.length]
+      style.bassPattern.forEach(([step, offset], index) => {
+        const next = style.bassPattern[index + 1]
+        const length = (next ? next[0] : STEPS_PER_BAR) - step
+        // Two octaves under the lead, but not so low a small speaker drops it
+        let midi = pitch(chord + offset, -2)
+        while (midi < BASS_LOWEST) midi += 12
+        bass.push({ step: bar * STEPS_PER_BAR + step, length, midi })
+      })
+    }
+
+    const drums: DrumHit[] = []
+    for (let bar = 0; bar < BARS; bar++) {
+      const start = bar * STEPS_PER_BAR
+      // Fill on the last bar of each phrase
+      if (bar % 4 === 3 && style.snares.length > 0 && random.chance(0.7)) {
+        style.kicks.filter(step => step < 8).forEach(step => drums.push({ step: start + step, kind: 'kick' }))
+        for (let step = 8; step < STEPS_PER_BAR; step += 2) drums.push({ step: start + step, kind: 'snare' })
+        continue
+      }
+      style.kicks.forEach(step => drums.push({ step: start + step, kind: 'kick' }))
+      style.snares.forEach(step => drums.push({ step: start + step, kind: 'snare' }))
+      for (let step = 0; step < STEPS_PER_BAR; step += style.hatEvery) {
+        if (!style.kicks.includes(step) && !style.snares.includes(step)) {
+          drums.push({ step: start + step, kind: 'hat' })
+        }
+      }
+    }
+
+    return { mood, seed, tempo, steps: BARS * STEPS_PER_BAR, leadDuty: style.leadDuty, lead, bass, drums }
+  }
+
+  /**
+   * Four bars of melody as scale degrees - notes on the beat land on chord tones,
+   * the rest wander by small steps
+   */
+  private static composePhrase(random: SeededRandom, style: MoodStyle, progression: number[]): ChiptuneNote[] {
+    const notes: ChiptuneNote[] = []
+    let degree = random.pick([0, 2, 4])
+
+    for (let bar = 0; bar < 4; bar++) {
+      const chord = progression[bar % progression.length]
+      let step = 0
+      random.pick(LEAD_RHYTHMS).forEach(length => {
+        const onBeat = step % 4 === 0
+        if (step > 0 && random.chance(style.restChance)) {
+          step += length
+          return
+        }
+        if (onBeat) {
+          // Nearest chord tone (root, third or fifth) to where the melody is
+          const tones = [-7, -5, -3, 0, 2, 4, 7, 9, 11].map(t => chord + t)
+          degree = tones.reduce((best, tone) => Math.abs(tone - degree) < Math.abs(best - degree) ? tone : best)
+        } else {
+          degree += random.pick([-2, -1, -1, 1, 1, 2])
+        }
+        // Keep the melody within about two octaves
+        degree = Math.max(-3, Math.min(11, degree))
+        notes.push({ step: bar * STEPS_PER_BAR + step, length, midi: degree })
+        step += length
+      })
+    }
+    return notes
+  }
+
+  /**
+   * Synthesize a song into mono samples one loop long
+   */
+  static render(song: ChiptuneSong, sampleRate: number = MUSIC_SAMPLE_RATE): Float32Array {
+    const stepDuration = 60 / song.tempo / 4
+    const length = Math.round(song.steps * stepDuration * sampleRate)
+    const samples = new Float32Array(length)
+    const frequency = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12)
+
+    const renderNotes = (notes: ChiptuneNote[], volume: number, wave: (phase: number) => number) => {
+      notes.forEach(note => {
+        const start = Math.round(note.step * stepDuration * sampleRate)
+        // Leave a tiny gap so repeated notes re-articulate
+        const end = Math.min(length, Math.round((note.step + note.length) * stepDuration * sampleRate) - Math.round(sampleRate * 0.01))
+        const increment = frequency(note.midi) / sampleRate
+        const release = sampleRate * 0.01
+        let phase = 0
+        for (let i = start; i < end; i++) {
+          const t = (i - start) / sampleRate
+          // Quick attack, gentle decay to a sustain level, short release at the end
+          const envelope = Math.min(1, t * 200) * (0.6 + 0.4 * Math.exp(-t * 8)) * Math.min(1, (end - i) / release)
+          samples[i] += wave(phase) * envelope * volume
+          phase = (phase + increment) % 1
+        }
+      })
+    }
+
+    renderNotes(song.lead, 0.18, phase => phase < song.leadDuty ? 1 : -1)
+    renderNotes(song.bass, 0.3, phase => 1 - 4 * Math.abs(phase - 0.5))
+
+    // Noise is seeded too, so a song renders the same every time
+    const noise = new SeededRandom(song.seed)
+    song.drums.forEach(hit => {
+      const start = Math.round(hit.step * stepDuration * sampleRate)
+      const duration = hit.kind === 'hat' ? 0.04 : hit.kind === 'snare' ? 0.12 : 0.15
+      const end = Math.min(length, start + Math.round(duration * sampleRate))
+      let held = 0
+      for (let i = start; i < end; i++) {
+        const t = (i - start) / sampleRate
+        const envelope = Math.exp(-t * (hit.kind === 'hat' ? 90 : 30))
+        let sample: number
+        if (hit.kind === 'kick') {
+          // Falling pitch sweep reads as a kick on a chip
+          sample = Math.sin(2 * Math.PI * (120 * t - 300 * t * t))
+        } else {
+          // Hats are white noise; the snare holds each value a few samples for a lower rasp
+          if (hit.kind === 'hat' || (i - start) % 4 === 0) held = noise.range(-1, 1)
+          sample = held
+        }
+        samples[i] += sample * envelope * (hit.kind === 'hat' ? 0.08 : 0.2)
+      }
+    })
+
+    for (let i = 0; i < length; i++) {
+      samples[i] = Math.max(-1, Math.min(1, samples[i]))
+    }
+    return samples
+  }
+}
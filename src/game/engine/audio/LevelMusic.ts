@@ -0,0 +1,70 @@
+import type { AudioManager } from './AudioManager'
+import { AudioGenerator } from './AudioGenerator'
+import { ChiptuneComposer } from './ChiptuneComposer'
+import type { MusicMood } from '../schema/LevelSchema'
+
+// Generated tracks by name - MusicPlayer keeps its loaded tracks for the page's lifetime too
+const trackUrls = new Map<string, string>()
+
+/**
+ * LevelMusic - Plays each level's generated theme through the MusicPlayer
+ * The theme's seed comes from the level id, so a level sounds the same every visit.
+ */
+export class LevelMusic {
+  private audio: AudioManager
+  private generator: AudioGenerator | null = null
+  // Bumped on every change so a slow generation can't start an old level's music
+  private request = 0
+
+  constructor(audio: AudioManager) {
+    this.audio = audio
+  }
+
+  /**
+   * Track name for a level - levels without an id share one theme per mood
+   */
+  public static trackFor(levelId: string | null, mood: MusicMood): { name: string; seed: number } {
+    // Pack level ids may arrive as numbers
+    const seed = ChiptuneComposer.seedFor(levelId !== null ? String(levelId) : mood)
+    return { name: `chiptune-${mood}-${seed}`, seed }
+  }
+
+  public async playLevel(levelId: string | null, mood: MusicMood): Promise<void> {
+    const request = ++this.request
+    const { name, seed } = LevelMusic.trackFor(levelId, mood)
+
+    let src = trackUrls.get(name)
+    if (!src) {
+      try {
+        if (!this.generator) this.generator = new AudioGenerator()
+        src = URL.createObjectURL(await this.generator.generateMusic(seed, mood))
+        trackUrls.set(name, src)
+      } catch (error) {
+        console.warn(`Failed to generate music: ${name}`, error)
+        return
+      }
+    }
+
+    if (request !== this.request) return
+    await this.audio.playMusic({ name, src })
+  }
+
+  public async pause(): Promise<void> {
+    await this.audio.pauseMusic(true)
+  }
+
+  public async resume(): Promise<void> {
+    await this.audio.resumeMusic(true)
+  }
+
+  public async stop(): Promise<void> {
+    this.request++
+    await this.audio.stopMusic(true)
+  }
+
+  public dispose() {
+    this.stop()
+    this.generator?.dispose()
+    this.generator = null
+  }
+}
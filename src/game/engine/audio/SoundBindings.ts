@@ -0,0 +1,80 @@
+import type { AudioManager } from './AudioManager'
+import type { EventBus, GameEventName } from '../core/EventBus'
+
+/**
+ * Which AudioManager sound each engine event plays - null silences an event
+ */
+export type SoundBindingMap = { [K in GameEventName]?: string | null }
+
+export const DEFAULT_SOUND_BINDINGS: SoundBindingMap = {
+  jump: 'jump',
+  land: 'land',
+  coinCollected: 'coin',
+  enemyStomped: 'enemy_stomp',
+  enemyDefeated: 'enemy_defeat',
+  shellKicked: 'enemy_defeat',
+  powerUpCollected: 'powerup',
+  fireballThrown: 'fireball',
+  checkpointReached: 'menu_confirm',
+  blockBumped: 'block_bump',
+  blockBroken: 'block_break',
+  pipeEntered: 'pipe',
+  pipeExited: 'pipe',
+  // Shrinking sounds like going down a pipe
+  playerDamaged: 'pipe',
+  playerDied: 'death',
+  levelComplete: 'level_complete',
+  gameOver: 'game_over'
+}
+
+/**
+ * SoundBindings - Plays sounds for engine events
+ * Level packs can override individual events on top of the defaults.
+ */
+export class SoundBindings {
+  private audio: AudioManager
+  private bindings: SoundBindingMap = { ...DEFAULT_SOUND_BINDINGS }
+  private unsubscribers: (() => void)[] = []
+
+  constructor(audio: AudioManager) {
+    this.audio = audio
+  }
+
+  /**
+   * Start playing sounds for the bus's events (replaces any earlier attachment)
+   */
+  public attach(events: EventBus) {
+    this.detach()
+
+    const names = Object.keys(DEFAULT_SOUND_BINDINGS) as GameEventName[]
+    this.unsubscribers = names.map(name => events.on(name, payload => this.play(name, payload)))
+  }
+
+  public detach() {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe())
+    this.unsubscribers = []
+  }
+
+  /**
+   * Use the defaults with these overrides, e.g. from a level pack
+   */
+  public setBindings(overrides: SoundBindingMap = {}) {
+    this.bindings = { ...DEFAULT_SOUND_BINDINGS, ...overrides }
+  }
+
+  public getBindings(): SoundBindingMap {
+    return { ...this.bindings }
+  }
+
+  private play(event: GameEventName, payload: object) {
+    const sound = this.bindings[event]
+    if (!sound) return
+
+    // Events that happen somewhere in the world are panned to where they happened
+    if ('x' in payload && typeof payload.x === 'number') {
+      this.audio.playSoundAt(sound, payload.x)
+    } else {
+      this.audio.playSound(sound)
+    }
+  }
+}
@@ -8,6 +8,8 @@ export interface SoundOptions {
   loop?: boolean
   playbackRate?: number
   preload?: boolean
+  // Random +/- fraction of playbackRate per play, so repeated sounds don't drone
+  pitchVariation?: number
 }
 
 export class SoundEffect {
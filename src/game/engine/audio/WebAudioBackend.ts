@@ -0,0 +1,322 @@
+/**
+ * WebAudioBackend - AudioContext playback for AudioManager
+ * Sounds are decoded once into buffers and every play gets its own source node,
+ * so overlapping sounds never cut each other off and start without latency.
+ * Everything routes through master, sfx and music gain buses.
+ */
+
+export interface BufferPlayOptions {
+  volume?: number
+  playbackRate?: number
+  // -1 (left) to 1 (right)
+  pan?: number
+  loop?: boolean
+}
+
+export interface BusVolumes {
+  master: number
+  sfx: number
+  music: number
+}
+
+interface MusicVoice {
+  name: string
+  buffer: AudioBuffer
+  source: AudioBufferSourceNode | null
+  gain: GainNode
+  loop: boolean
+  // Context time the buffer's start lined up with, and where it stopped when paused
+  startedAt: number
+  pausedAt: number | null
+}
+
+// Events browsers count as a user gesture that may start audio
+const UNLOCK_EVENTS = ['pointerdown', 'touchend', 'mousedown', 'keydown']
+
+export class WebAudioBackend {
+  private context: AudioContext
+  private masterBus: GainNode
+  private sfxBus: GainNode
+  private musicBus: GainNode
+  private buffers: Map<string, AudioBuffer> = new Map()
+  private decoding: Map<string, Promise<AudioBuffer>> = new Map()
+  private activeSources: Map<string, Set<AudioBufferSourceNode>> = new Map()
+  private music: MusicVoice | null = null
+  private unlockHandler: (() => void) | null = null
+
+  constructor() {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext
+    this.context = new AudioContextClass()
+
+    this.masterBus = this.context.createGain()
+    this.masterBus.connect(this.context.destination)
+    this.sfxBus = this.context.createGain()
+    this.sfxBus.connect(this.masterBus)
+    this.musicBus = this.context.createGain()
+    this.musicBus.connect(this.masterBus)
+
+    this.installUnlock()
+  }
+
+  /**
+   * Whether this browser has Web Audio at all
+   */
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && !!(window.AudioContext || (window as any).webkitAudioContext)
+  }
+
+  /**
+   * Contexts start suspended until the page gets a gesture (always on iOS) -
+   * resume on the first one, with a silent buffer to wake mobile Safari
+   */
+  private installUnlock(): void {
+    if (this.context.state === 'running') return
+
+    this.unlockHandler = () => {
+      const silence = this.context.createBufferSource()
+      silence.buffer = this.context.createBuffer(1, 1, this.context.sampleRate)
+      silence.connect(this.context.destination)
+      silence.start(0)
+
+      this.context.resume().then(() => this.removeUnlock()).catch(error => {
+        console.warn('Failed to unlock audio:', error)
+      })
+    }
+    UNLOCK_EVENTS.forEach(event => window.addEventListener(event, this.unlockHandler!, true))
+  }
+
+  private removeUnlock(): void {
+    if (!this.unlockHandler) return
+    UNLOCK_EVENTS.forEach(event => window.removeEventListener(event, this.unlockHandler!, true))
+    this.unlockHandler = null
+  }
+
+  get unlocked(): boolean {
+    return this.context.state === 'running'
+  }
+
+  /**
+   * Fetch and decode a sound - each src is only decoded once
+   */
+  async load(name: string, src: string): Promise<AudioBuffer> {
+    const existing = this.buffers.get(name)
+    if (existing) return existing
+
+    let pending = this.decoding.get(name)
+    if (!pending) {
+      pending = fetch(src)
+        .then(response => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`)
+          return response.arrayBuffer()
+        })
+        // The callback form - older Safari has no promise-returning decodeAudioData
+        .then(data => new Promise<AudioBuffer>((resolve, reject) => this.context.decodeAudioData(data, resolve, reject)))
+        .then(buffer => {
+          this.buffers.set(name, buffer)
+          return buffer
+        })
+        .finally(() => this.decoding.delete(name))
+      this.decoding.set(name, pending)
+    }
+    return pending
+  }
+
+  isLoaded(name: string): boolean {
+    return this.buffers.has(name)
+  }
+
+  getLoadedNames(): string[] {
+    return Array.from(this.buffers.keys())
+  }
+
+  /**
+   * Set the bus gains - AudioSettings already folded into plain 0-1 levels
+   */
+  setVolumes(volumes: BusVolumes): void {
+    const now = this.context.currentTime
+    // A short ramp so slider drags don't click
+    this.masterBus.gain.setTargetAtTime(volumes.master, now, 0.015)
+    this.sfxBus.gain.setTargetAtTime(volumes.sfx, now, 0.015)
+    this.musicBus.gain.setTargetAtTime(volumes.music, now, 0.015)
+  }
+
+  /**
+   * Play a loaded sound effect on the sfx bus - returns false if it isn't loaded
+   */
+  play(name: string, options: BufferPlayOptions = {}): boolean {
+    const buffer = this.buffers.get(name)
+    if (!buffer) return false
+
+    const source = this.context.createBufferSource()
+    source.buffer = buffer
+    source.loop = options.loop ?? false
+    source.playbackRate.value = Math.max(0.25, Math.min(4, options.playbackRate ?? 1))
+
+    const gain = this.context.createGain()
+    gain.gain.value = Math.max(0, options.volume ?? 1)
+    source.connect(gain)
+
+    let output: AudioNode = gain
+    // StereoPannerNode is missing from older Safari - those just play centred
+    if (options.pan && this.context.createStereoPanner) {
+      const panner = this.context.createStereoPanner()
+      panner.pan.value = Math.max(-1, Math.min(1, options.pan))
+      gain.connect(panner)
+      output = panner
+    }
+    output.connect(this.sfxBus)
+
+    let active = this.activeSources.get(name)
+    if (!active) {
+      active = new Set()
+      this.activeSources.set(name, active)
+    }
+    active.add(source)
+    source.onended = () => {
+      active!.delete(source)
+      source.disconnect()
+      gain.disconnect()
+      if (output !== gain) output.disconnect()
+    }
+
+    source.start()
+    return true
+  }
+
+  stop(name: string): void {
+    this.activeSources.get(name)?.forEach(source => {
+      try {
+        source.stop()
+      } catch {
+        // Already stopped
+      }
+    })
+  }
+
+  /**
+   * Start a music track, crossfading from whatever is playing. Playing the
+   * current track again restarts it.
+   */
+  async playMusic(name: string, src: string, options: { loop?: boolean; fadeIn?: number; crossfade?: number } = {}): Promise<void> {
+    const buffer = await this.load(name, src)
+    const previous = this.music
+    const fadeSeconds = (previous && previous.name !== name ? options.crossfade ?? 0 : options.fadeIn ?? 0) / 1000
+
+    if (previous) {
+      this.fadeOutVoice(previous, previous.name === name ? 0 : fadeSeconds)
+    }
+
+    const gain = this.context.createGain()
+    gain.connect(this.musicBus)
+    const voice: MusicVoice = { name, buffer, source: null, gain, loop: options.loop ?? true, startedAt: 0, pausedAt: null }
+    this.music = voice
+    this.startVoice(voice, 0, fadeSeconds)
+  }
+
+  async stopMusic(fadeOut: number = 0): Promise<void> {
+    const voice = this.music
+    if (!voice) return
+    this.music = null
+    await this.fadeOutVoice(voice, fadeOut / 1000)
+  }
+
+  async pauseMusic(fadeOut: number = 0): Promise<void> {
+    const voice = this.music
+    if (!voice || !voice.source) return
+
+    voice.pausedAt = this.voiceOffset(voice)
+    const source = voice.source
+    voice.source = null
+    await this.rampTo(voice.gain, 0, fadeOut / 1000)
+    this.stopSource(source)
+  }
+
+  resumeMusic(fadeIn: number = 0): void {
+    const voice = this.music
+    if (!voice || voice.pausedAt === null) return
+
+    const offset = voice.pausedAt
+    voice.pausedAt = null
+    this.startVoice(voice, offset, fadeIn / 1000)
+  }
+
+  get musicPlaying(): boolean {
+    return !!this.music?.source
+  }
+
+  get currentMusicName(): string | null {
+    return this.music?.name ?? null
+  }
+
+  private startVoice(voice: MusicVoice, offset: number, fadeSeconds: number): void {
+    const source = this.context.createBufferSource()
+    source.buffer = voice.buffer
+    source.loop = voice.loop
+    source.connect(voice.gain)
+
+    const now = this.context.currentTime
+    voice.gain.gain.cancelScheduledValues(now)
+    voice.gain.gain.setValueAtTime(fadeSeconds > 0 ? 0 : 1, now)
+    if (fadeSeconds > 0) {
+      voice.gain.gain.linearRampToValueAtTime(1, now + fadeSeconds)
+    }
+
+    source.start(now, offset)
+    voice.source = source
+    voice.startedAt = now - offset
+  }
+
+  /**
+   * Where in the buffer a voice is now, wrapping for looped tracks
+   */
+  private voiceOffset(voice: MusicVoice): number {
+    const elapsed = this.context.currentTime - voice.startedAt
+    const duration = voice.buffer.duration
+    return voice.loop ? elapsed % duration : Math.min(elapsed, duration)
+  }
+
+  private async fadeOutVoice(voice: MusicVoice, seconds: number): Promise<void> {
+    const source = voice.source
+    voice.source = null
+    if (!source) {
+      voice.gain.disconnect()
+      return
+    }
+    await this.rampTo(voice.gain, 0, seconds)
+    this.stopSource(source)
+    voice.gain.disconnect()
+  }
+
+  private rampTo(gain: GainNode, value: number, seconds: number): Promise<void> {
+    const now = this.context.currentTime
+    gain.gain.cancelScheduledValues(now)
+    gain.gain.setValueAtTime(gain.gain.value, now)
+    if (seconds <= 0) {
+      gain.gain.setValueAtTime(value, now)
+      return Promise.resolve()
+    }
+    gain.gain.linearRampToValueAtTime(value, now + seconds)
+    return new Promise(resolve => setTimeout(resolve, seconds * 1000))
+  }
+
+  private stopSource(source: AudioBufferSourceNode): void {
+    try {
+      source.stop()
+    } catch {
+      // Already stopped
+    }
+    source.disconnect()
+  }
+
+  dispose(): void {
+    this.removeUnlock()
+    this.activeSources.forEach((_, name) => this.stop(name))
+    this.activeSources.clear()
+    if (this.music?.source) this.stopSource(this.music.source)
+    this.music = null
+    this.buffers.clear()
+    if (this.context.state !== 'closed') {
+      this.context.close()
+    }
+  }
+}
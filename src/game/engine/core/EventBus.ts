@@ -0,0 +1,84 @@
+interface Position {
+  x: number
+  y: number
+}
+
+/**
+ * Everything the engine announces, with what each event carries.
+ * Events fire during the simulation tick, headless or not.
+ */
+export interface GameEvents {
+  jump: Position
+  land: Position
+  coinCollected: Position & { coins: number; score: number }
+  enemyStomped: Position & { enemyType: string }
+  // Killed some other way than stomping, e.g. by a fireball
+  enemyDefeated: Position & { enemyType: string; cause: string }
+  // A resting shell sent sliding
+  shellKicked: Position & { enemyType: string }
+  powerUpCollected: Position & { powerType: string }
+  fireballThrown: Position & { direction: number }
+  checkpointReached: Position & { index: number }
+  // A block hit from below, with what came out of it (null for nothing)
+  blockBumped: Position & { contents: string | null }
+  // A brick smashed by a big player
+  blockBroken: Position
+  // Going down a warp pipe, and coming out where it leads - area is null for the main level
+  pipeEntered: Position & { area: string | null }
+  pipeExited: Position & { area: string | null }
+  // Hit but still alive - a big player shrinking
+  playerDamaged: Position & { cause: string }
+  playerDied: Position & { cause: string; lives: number }
+  levelComplete: { levelIndex: number; score: number; packComplete: boolean }
+  gameOver: { levelIndex: number; score: number }
+}
+
+export type GameEventName = keyof GameEvents
+export type GameEventHandler<K extends GameEventName> = (payload: GameEvents[K]) => void
+
+// Each event's handlers, typed to that event's payload
+type HandlerMap = { [K in GameEventName]?: Set<GameEventHandler<K>> }
+
+/**
+ * EventBus - Typed publish/subscribe for engine events
+ * Audio, UI and analytics subscribe here instead of the engine calling them.
+ * A throwing handler is logged and doesn't stop the others or the tick.
+ */
+export class EventBus {
+  private handlers: HandlerMap = {}
+
+  /**
+   * Subscribe to an event - returns a function that unsubscribes
+   */
+  public on<K extends GameEventName>(event: K, handler: GameEventHandler<K>): () => void {
+    // Viewed as a map of just this event, so its set can be stored without a cast
+    const map: { [P in K]?: Set<GameEventHandler<P>> } = this.handlers
+    const handlers: Set<GameEventHandler<K>> = map[event] ?? new Set()
+    map[event] = handlers
+    handlers.add(handler)
+    return () => this.off(event, handler)
+  }
+
+  public off<K extends GameEventName>(event: K, handler: GameEventHandler<K>) {
+    const handlers: HandlerMap[K] = this.handlers[event]
+    handlers?.delete(handler)
+  }
+
+  public emit<K extends GameEventName>(event: K, payload: GameEvents[K]) {
+    const handlers: HandlerMap[K] = this.handlers[event]
+    if (!handlers) return
+
+    // Copy so handlers can unsubscribe while being called
+    Array.from(handlers).forEach(handler => {
+      try {
+        handler(payload)
+      } catch (error) {
+        console.error(`Error in ${event} handler:`, error)
+      }
+    })
+  }
+
+  public clear() {
+    this.handlers = {}
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * SeededRandom - Deterministic pseudo-random number generator (mulberry32)
+ * Anything that affects the simulation must draw from this instead of Math.random
+ * so that the same seed and inputs replay identically on every machine.
+ */
+export class SeededRandom {
+  private seed: number
+  private state: number
+
+  constructor(seed: number = 1) {
+    this.seed = seed >>> 0
+    this.state = this.seed
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min)
+  }
+
+  /**
+   * Integer in [min, max] (inclusive)
+   */
+  public int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1))
+  }
+
+  public chance(probability: number): boolean {
+    return this.next() < probability
+  }
+
+  public pick<T>(items: T[]): T {
+    return items[Math.floor(this.next() * items.length)]
+  }
+
+  public getSeed(): number {
+    return this.seed
+  }
+
+  public getState(): number {
+    return this.state
+  }
+
+  public setState(state: number) {
+    this.state = state >>> 0
+  }
+
+  /**
+   * Restart the sequence, optionally with a new seed
+   */
+  public reset(seed: number = this.seed) {
+    this.seed = seed >>> 0
+    this.state = this.seed
+  }
+}
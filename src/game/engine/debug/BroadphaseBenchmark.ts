@@ -0,0 +1,134 @@
+import { GameEngine } from '../GameEngine'
+import { SeededRandom } from '../core/SeededRandom'
+import { ScriptedInput } from '../input/ScriptedInput'
+import { LevelSchema } from '../schema/LevelSchema'
+import type { LevelDocument } from '../schema/LevelSchema'
+
+export interface BenchmarkOptions {
+  // Drawn bodies in the synthetic level
+  bodies?: number
+  // Simulation ticks to time per run
+  ticks?: number
+  seed?: number
+}
+
+export interface FrameTimeStats {
+  meanMs: number
+  p95Ms: number
+  maxMs: number
+  totalMs: number
+}
+
+export interface BenchmarkResult {
+  bodies: number
+  ticks: number
+  entities: number
+  withoutBroadphase: FrameTimeStats
+  withBroadphase: FrameTimeStats
+  // How many times faster a tick is with the broadphase on
+  speedup: number
+  // Both runs ended with the player in the same place with the same score
+  identical: boolean
+}
+
+const BODY_SPACING = 60
+const GROUND_Y = 1200
+
+/**
+ * BroadphaseBenchmark - Times headless ticks on a large synthetic level with
+ * the spatial grid broadphase off and then on
+ *
+ * const result = BroadphaseBenchmark.run({ bodies: 500, ticks: 600 })
+ * console.table([result.withoutBroadphase, result.withBroadphase])
+ */
+export class BroadphaseBenchmark {
+  static run(options: BenchmarkOptions = {}): BenchmarkResult {
+    const bodies = options.bodies ?? 500
+    const ticks = options.ticks ?? 600
+    const seed = options.seed ?? 1
+    const level = this.createLevel(bodies, seed)
+
+    const without = this.measure(level, ticks, seed, false)
+    const withGrid = this.measure(level, ticks, seed, true)
+
+    return {
+      bodies,
+      ticks,
+      entities: level.enemies.length + level.coins.length + 1,
+      withoutBroadphase: without.stats,
+      withBroadphase: withGrid.stats,
+      speedup: withGrid.stats.meanMs > 0 ? without.stats.meanMs / withGrid.stats.meanMs : 0,
+      identical: without.finalState === withGrid.finalState
+    }
+  }
+
+  /**
+   * A wide level of irregular hand-drawn-looking bodies over a ground strip,
+   * with coin rows and enemies scattered between them
+   */
+  static createLevel(bodies: number, seed = 1): LevelDocument {
+    const random = new SeededRandom(seed)
+    const level = LevelSchema.createEmpty()
+    const width = Math.max(2000, bodies * BODY_SPACING)
+
+    level.playerStart = { x: 100, y: GROUND_Y - 100 }
+    level.polygons.push({ points: [[0, GROUND_Y], [width, GROUND_Y], [width, GROUND_Y + 60], [0, GROUND_Y + 60]] })
+
+    for (let i = 0; i < bodies; i++) {
+      const centerX = 300 + i * BODY_SPACING + random.range(-20, 20)
+      const centerY = random.range(200, GROUND_Y - 80)
+      const radius = random.range(15, 45)
+      const sides = random.int(6, 16)
+      const points: [number, number][] = []
+      for (let side = 0; side < sides; side++) {
+        const angle = (side / sides) * Math.PI * 2
+        const wobble = radius * random.range(0.7, 1.2)
+        points.push([centerX + Math.cos(angle) * wobble, centerY + Math.sin(angle) * wobble * 0.5])
+      }
+      level.polygons.push({ points })
+
+      if (i % 5 === 0) {
+        for (let coin = 0; coin < 5; coin++) {
+          level.coins.push({ x: centerX + coin * 30, y: centerY - radius - 40 })
+        }
+      }
+      if (i % 10 === 0) {
+        level.enemies.push({ x: centerX, y: GROUND_Y - 40, type: 'goomba' })
+      }
+    }
+
+    return level
+  }
+
+  private static measure(level: LevelDocument, ticks: number, seed: number, broadphase: boolean): { stats: FrameTimeStats; finalState: string } {
+    const engine = new GameEngine(null, { headless: true, seed, broadphase })
+    engine.loadLevelData(level)
+
+    const input = new ScriptedInput()
+    for (let t = 0; t < ticks; t += 60) {
+      input.hold({ right: true, run: true }, 45).hold({ right: true, run: true, jump: true }, 15)
+    }
+    engine.setInputSource(input)
+
+    const times: number[] = []
+    for (let i = 0; i < ticks; i++) {
+      const start = performance.now()
+      engine.step(1)
+      times.push(performance.now() - start)
+    }
+
+    const sorted = [...times].sort((a, b) => a - b)
+    const totalMs = times.reduce((sum, time) => sum + time, 0)
+    const player = engine.getPlayer()
+
+    return {
+      stats: {
+        meanMs: totalMs / times.length,
+        p95Ms: sorted[Math.floor(sorted.length * 0.95)] ?? 0,
+        maxMs: sorted[sorted.length - 1] ?? 0,
+        totalMs
+      },
+      finalState: JSON.stringify({ x: player?.position.x, y: player?.position.y, score: engine.getScore() })
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { Entity } from './Entity'
+import { CHECKPOINT_SIZE } from '../schema/LevelSchema'
+
+export class Checkpoint extends Entity {
+  // Position in the level's checkpoint list - what pack progress records
+  public index: number
+  public activated = false
+  private wave = 0
+
+  constructor(x: number, y: number, index: number) {
+    super(x, y, CHECKPOINT_SIZE.width, CHECKPOINT_SIZE.height, 'checkpoint')
+    this.index = index
+    this.setPhysics({ solid: false, gravity: false })
+  }
+
+  public update(dt: number) {
+    this.wave += dt * (this.activated ? 8 : 3)
+  }
+
+  public activate() {
+    this.activated = true
+  }
+
+  /**
+   * Where the player stands when respawning here - on the flag's base
+   */
+  public getRespawnPoint(playerHeight: number): { x: number; y: number } {
+    return { x: this.position.x, y: this.position.y + this.height - playerHeight }
+  }
+
+  public render(ctx: CanvasRenderingContext2D) {
+    ctx.save()
+
+    const poleX = this.position.x + 2
+    const top = this.position.y
+
+    // Pole and base
+    ctx.fillStyle = '#D3D3D3'
+    ctx.fillRect(poleX, top, 3, this.height)
+    ctx.fillStyle = '#696969'
+    ctx.fillRect(this.position.x - 2, top + this.height - 4, 11, 4)
+
+    // Flag - red until touched, then green and flapping faster
+    const flutter = Math.sin(this.wave) * 3
+    ctx.fillStyle = this.activated ? '#32CD32' : '#DC143C'
+    ctx.beginPath()
+    ctx.moveTo(poleX + 3, top + 2)
+    ctx.lineTo(poleX + 3 + this.width - 4, top + 10 + flutter)
+    ctx.lineTo(poleX + 3, top + 20)
+    ctx.closePath()
+    ctx.fill()
+
+    ctx.restore()
+  }
+}
@@ -1,141 +1,88 @@
 import { Entity } from './Entity'
+import type { Player } from './Player'
+import type { AABB } from '../physics/PhysicsEngine'
+import { EnemyBehaviors } from './behaviors/EnemyBehaviors'
+import { EMPTY_ENEMY_WORLD } from './behaviors/EnemyBehavior'
+import type { EnemyBehavior, EnemyRules, EnemyWorld, StompResult, TouchResult } from './behaviors/EnemyBehavior'
 
 export class Enemy extends Entity {
   public enemyType: string
-  private direction: number = 1
-  private speed: number = 2
-  private animationFrame = 0
-  private animationTimer = 0
+  // 1 heading right, -1 left
+  public direction: number = 1
   public customSize?: number
+  // Fireballs it can still take
+  public hitPoints: number
+  private behavior: EnemyBehavior
 
   constructor(x: number, y: number, type: string, size?: number) {
     // Use custom size if provided, otherwise use type-based defaults
-    let entitySize = size || (type === 'bowser' ? 64 : type === 'spike' ? 32 : 32)
+    let entitySize = size || (type === 'bowser' ? 64 : 32)
     super(x, y, entitySize, entitySize, 'enemy')
     this.enemyType = type
     this.customSize = size
     this.setPhysics({ solid: true, gravity: true, mass: 1 })
 
-    // Set speed based on enemy type
-    switch(type) {
-      case 'goomba':
-        this.speed = 1
-        break
-      case 'koopa':
-        this.speed = 1.5
-        break
-      case 'firebar':
-        this.speed = 0
-        this.setPhysics({ solid: false, gravity: false })
-        break
-      case 'bowser':
-        this.speed = 0.5
-        break
-      case 'spike':
-        this.speed = 0
-        this.setPhysics({ solid: true, gravity: false, mass: 0 })
-        break
-    }
+    // The type's AI, rules and look
+    this.behavior = EnemyBehaviors.create(type)
+    this.behavior.setup(this)
+    this.hitPoints = this.behavior.rules.hitPoints
   }
 
-  public update(dt: number) {
-    // Simple patrol AI
-    if (this.enemyType !== 'firebar') {
-      this.velocity.x = this.speed * this.direction
-    } else {
-      // Firebar rotation
-      this.animationFrame += dt * 5
-    }
-
-    // Animation
-    this.animationTimer += dt
-    if (this.animationTimer > 0.2) {
-      this.animationFrame = (this.animationFrame + 1) % 4
-      this.animationTimer = 0
-    }
+  public update(dt: number, world: EnemyWorld = EMPTY_ENEMY_WORLD) {
+    this.behavior.update(this, dt, world)
   }
 
   public render(ctx: CanvasRenderingContext2D) {
     ctx.save()
+    this.behavior.render(this, ctx)
+    ctx.restore()
+  }
 
-    switch(this.enemyType) {
-      case 'goomba':
-        ctx.fillStyle = '#8B4513'
-        ctx.fillRect(this.position.x, this.position.y, this.width, this.height)
-        // Draw mushroom cap
-        ctx.fillStyle = '#654321'
-        ctx.fillRect(this.position.x - 4, this.position.y, this.width + 8, this.height / 2)
-        break
-
-      case 'koopa':
-        ctx.fillStyle = '#00FF00'
-        ctx.fillRect(this.position.x, this.position.y, this.width, this.height)
-        // Draw shell pattern
-        ctx.strokeStyle = '#008800'
-        ctx.lineWidth = 2
-        ctx.strokeRect(this.position.x + 4, this.position.y + 4, this.width - 8, this.height - 8)
-        break
-
-      case 'firebar':
-        // Draw rotating fire bar
-        ctx.translate(this.position.x + this.width/2, this.position.y + this.height/2)
-        ctx.rotate(this.animationFrame)
-        ctx.fillStyle = '#FF4500'
-        for (let i = 0; i < 4; i++) {
-          ctx.fillRect(i * 20, -4, 16, 8)
-        }
-        break
-
-      case 'bowser':
-        ctx.fillStyle = '#FF0000'
-        ctx.fillRect(this.position.x, this.position.y, this.width, this.height)
-        // Draw spikes
-        ctx.fillStyle = '#FFFF00'
-        for (let i = 0; i < 4; i++) {
-          ctx.fillRect(this.position.x + i * 16, this.position.y - 8, 8, 8)
-        }
-        break
+  public getBehavior(): EnemyBehavior {
+    return this.behavior
+  }
 
-      case 'spike':
-        // Draw triangular metallic gray spike that kills on contact
-        ctx.fillStyle = '#696969' // Dark gray metallic color
-        ctx.strokeStyle = '#404040' // Darker outline
-        ctx.lineWidth = 2
+  public getRules(): EnemyRules {
+    return this.behavior.rules
+  }
 
-        // Calculate spike triangle points
-        const centerX = this.position.x + this.width / 2
-        const baseY = this.position.y + this.height
-        const tipY = this.position.y
-        const leftX = this.position.x
-        const rightX = this.position.x + this.width
+  /**
+   * The player landed on it
+   */
+  public stomp(player: Player): StompResult {
+    return this.behavior.stomp(this, player)
+  }
 
-        ctx.beginPath()
-        ctx.moveTo(centerX, tipY)    // Top point
-        ctx.lineTo(leftX, baseY)     // Bottom left
-        ctx.lineTo(rightX, baseY)    // Bottom right
-        ctx.closePath()
-        ctx.fill()
-        ctx.stroke()
+  /**
+   * The player touched it other than from above
+   */
+  public touch(player: Player): TouchResult {
+    return this.behavior.touch(this, player)
+  }
 
-        // Add metallic shine effect
-        ctx.fillStyle = 'rgba(192, 192, 192, 0.7)' // Light gray shine
-        ctx.beginPath()
-        ctx.moveTo(centerX, tipY)
-        ctx.lineTo(leftX + this.width * 0.3, baseY)
-        ctx.lineTo(centerX - this.width * 0.1, baseY)
-        ctx.closePath()
-        ctx.fill()
-        break
+  /**
+   * Whether any of its hitboxes overlap the box
+   */
+  public overlaps(box: AABB): boolean {
+    return this.behavior.getHitboxes(this).some(hitbox =>
+      hitbox.x < box.x + box.width && hitbox.x + hitbox.width > box.x &&
+      hitbox.y < box.y + box.height && hitbox.y + hitbox.height > box.y
+    )
+  }
 
-      default:
-        ctx.fillStyle = '#FF00FF'
-        ctx.fillRect(this.position.x, this.position.y, this.width, this.height)
-    }
+  public hitsEnemies(): boolean {
+    return this.behavior.hitsEnemies(this)
+  }
 
-    ctx.restore()
+  /**
+   * Take a fireball - true when that defeats it
+   */
+  public damage(): boolean {
+    this.hitPoints--
+    return this.hitPoints <= 0
   }
 
   public turnAround() {
     this.direction *= -1
   }
-}
\ No newline at end of file
+}
@@ -1,3 +1,5 @@
+import type { Platform } from '../level/Platform'
+
 export interface EntityPhysics {
   solid: boolean
   gravity: boolean
@@ -12,10 +14,16 @@ export abstract class Entity {
   public type: string
   public dead = false
   public grounded = false
+  // Normal of the surface the entity is standing on, null while airborne
+  public groundNormal: { x: number; y: number } | null = null
+  // Platform the entity is standing on, so a moving one can carry it - null on polygons or in the air
+  public groundPlatform: Platform | null = null
   public physics: EntityPhysics | null = null
   public previousPosition?: { x: number; y: number }
   public wallCollision: { left: boolean; right: boolean } = { left: false, right: false }
   public ceilingCollision = false
+  // Set by the physics while the entity's middle is in a water region
+  public inWater = false
 
   constructor(x: number, y: number, width: number, height: number, type: string) {
     this.position = { x, y }
@@ -1,9 +1,13 @@
 import { Entity } from './Entity'
+import { SpatialGrid } from '../physics/SpatialGrid'
+import type { AABB } from '../physics/PhysicsEngine'
 
 export class EntityManager {
   private entities: Entity[] = []
   private entitiesToAdd: Entity[] = []
   private entitiesToRemove: Entity[] = []
+  // Broadphase index of entity positions, refreshed by updateSpatialIndex()
+  private grid = new SpatialGrid<Entity>()
 
   public addEntity(entity: Entity) {
     this.entitiesToAdd.push(entity)
@@ -21,8 +25,25 @@ export class EntityManager {
     return this.entities.filter(e => e.type === type)
   }
 
+  /**
+   * Entities that may overlap the area as of the last updateSpatialIndex() -
+   * a superset, in the order they were added
+   */
+  public getEntitiesIn(area: AABB): Entity[] {
+    return this.grid.query(area)
+  }
+
+  /**
+   * Re-bucket every entity at its current position. Call after entities move.
+   */
+  public updateSpatialIndex() {
+    this.entities.forEach(entity => {
+      this.grid.update(entity, { x: entity.position.x, y: entity.position.y, width: entity.width, height: entity.height })
+    })
+  }
+
   public getEntityAt(x: number, y: number): Entity | null {
-    for (const entity of this.entities) {
+    for (const entity of this.grid.query({ x, y, width: 0, height: 0 })) {
       const bounds = entity.getBounds()
       if (x >= bounds.left && x <= bounds.right &&
           y >= bounds.top && y <= bounds.bottom) {
@@ -36,6 +57,9 @@ export class EntityManager {
     // Add new entities
     if (this.entitiesToAdd.length > 0) {
       this.entities.push(...this.entitiesToAdd)
+      this.entitiesToAdd.forEach(entity => {
+        this.grid.insert(entity, { x: entity.position.x, y: entity.position.y, width: entity.width, height: entity.height })
+      })
       this.entitiesToAdd = []
     }
 
@@ -46,16 +70,21 @@ export class EntityManager {
         if (index > -1) {
           this.entities.splice(index, 1)
         }
+        this.grid.remove(entity)
       })
       this.entitiesToRemove = []
     }
   }
 
   public removeDeadEntities() {
+    this.entities.forEach(e => {
+      if (e.dead) this.grid.remove(e)
+    })
     this.entities = this.entities.filter(e => !e.dead)
   }
 
   public clear() {
+    this.grid.clear()
     this.entities = []
     this.entitiesToAdd = []
     this.entitiesToRemove = []
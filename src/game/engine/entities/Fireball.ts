@@ -0,0 +1,63 @@
+import { Entity } from './Entity'
+
+export class Fireball extends Entity {
+  public direction: number
+  private speed = 8
+  private bounceSpeed = 6
+  // Seconds before the fireball burns out even if it is still on screen
+  private lifetime = 3
+  private rotation = 0
+
+  constructor(x: number, y: number, direction: number) {
+    super(x, y, 12, 12, 'fireball')
+    this.direction = direction >= 0 ? 1 : -1
+    this.velocity = { x: this.speed * this.direction, y: 2 }
+    this.setPhysics({ solid: true, gravity: true, mass: 0.1 })
+  }
+
+  public update(dt: number) {
+    // Hitting a wall puts the fireball out
+    if (this.wallCollision.left || this.wallCollision.right) {
+      this.dead = true
+      return
+    }
+
+    // Bounce off floors and slopes in a low arc
+    if (this.grounded) {
+      this.velocity.y = -this.bounceSpeed
+    }
+
+    // Keep a constant speed - ground friction would otherwise slow it down
+    this.velocity.x = this.speed * this.direction
+
+    this.lifetime -= dt
+    if (this.lifetime <= 0) {
+      this.dead = true
+    }
+
+    this.rotation += dt * 20
+  }
+
+  public render(ctx: CanvasRenderingContext2D) {
+    ctx.save()
+
+    const centerX = this.position.x + this.width / 2
+    const centerY = this.position.y + this.height / 2
+    ctx.translate(centerX, centerY)
+    ctx.rotate(this.rotation * this.direction)
+
+    // Outer flame
+    ctx.fillStyle = '#FF4500'
+    ctx.beginPath()
+    ctx.arc(0, 0, this.width / 2, 0, Math.PI * 2)
+    ctx.fill()
+
+    // Hot core, off-centre so the spin is visible
+    ctx.fillStyle = '#FFD700'
+    ctx.beginPath()
+    ctx.arc(this.width / 8, -this.height / 8, this.width / 4, 0, Math.PI * 2)
+    ctx.fill()
+
+    ctx.restore()
+  }
+}
@@ -1,4 +1,5 @@
 import { Entity } from './Entity'
+import { Fireball } from './Fireball'
 import { SpriteLoader } from '../sprites/SpriteLoader'
 import { AnimationController, AnimationPresets } from '../sprites/Animation'
 
@@ -20,6 +21,19 @@ export class Player extends Entity {
   private moveSpeed = 5
   private runSpeed = 8
   private isRunning = false
+  private jumped = false
+  // Swimming - upward speed of each stroke and how much slower the player moves in water
+  private swimStroke = 5
+  private swimSpeedScale = 0.6
+  private jumpHeld = false
+
+  // Fireballs
+  private fireballDelay = 0.25 // Seconds between throws
+  private maxFireballs = 2
+  private fireballCooldown = 0
+  private actionHeld = false
+  private activeFireballs: Fireball[] = []
+  private thrownFireballs: Fireball[] = []
 
   constructor(x: number, y: number) {
     super(x, y, 32, 32, 'player')
@@ -85,6 +99,10 @@ export class Player extends Entity {
       }
     }
 
+    if (this.fireballCooldown > 0) {
+      this.fireballCooldown = Math.max(0, this.fireballCooldown - dt)
+    }
+
     // Update facing direction
     if (this.velocity.x > 0) this.facing = 'right'
     else if (this.velocity.x < 0) this.facing = 'left'
@@ -175,7 +193,7 @@ export class Player extends Entity {
   public handleInput(input: any) {
     if (!input) return
 
-    const speed = this.isRunning ? this.runSpeed : this.moveSpeed
+    const speed = (this.isRunning ? this.runSpeed : this.moveSpeed) * (this.inWater ? this.swimSpeedScale : 1)
 
     // Horizontal movement - respect wall collisions
     if (input.left && !this.wallCollision.left) {
@@ -184,10 +202,18 @@ export class Player extends Entity {
       this.velocity.x = speed
     }
 
-    // Jump - respect ceiling collision
-    if (input.jump && this.grounded && !this.ceilingCollision) {
+    // Swim - every press of jump is a stroke, wherever the player is in the water
+    if (this.inWater) {
+      if (input.jump && !this.jumpHeld && !this.ceilingCollision) {
+        this.velocity.y = -this.swimStroke
+        this.jumped = true
+      }
+    } else if (input.jump && this.grounded && !this.ceilingCollision) {
+      // Jump - respect ceiling collision
       this.velocity.y = -this.jumpPower
+      this.jumped = true
     }
+    this.jumpHeld = !!input.jump
 
     // Variable jump height
     if (!input.jump && this.velocity.y < -6) {
@@ -197,10 +223,11 @@ export class Player extends Entity {
     // Run
     this.isRunning = input.run
 
-    // Fireball
-    if (input.action && this.fireballEnabled) {
+    // Fireball - one per press, not every frame the button is held
+    if (input.action && !this.actionHeld && this.fireballEnabled) {
       this.throwFireball()
     }
+    this.actionHeld = !!input.action
   }
 
   // Method to check if movement would cause collision (called by GameEngine)
@@ -262,9 +289,47 @@ export class Player extends Entity {
     }
   }
 
+  public getJumpPower(): number {
+    return this.jumpPower
+  }
+
+  public getMoveSpeed(): number {
+    return this.moveSpeed
+  }
+
+  public getRunSpeed(): number {
+    return this.runSpeed
+  }
+
+  /**
+   * Whether the player jumped since the last call - the engine announces it
+   */
+  public takeJump(): boolean {
+    const jumped = this.jumped
+    this.jumped = false
+    return jumped
+  }
+
+  /**
+   * Fireballs thrown since the last call - the engine adds them to the world
+   */
+  public takeThrownFireballs(): Fireball[] {
+    const thrown = this.thrownFireballs
+    this.thrownFireballs = []
+    return thrown
+  }
+
   private throwFireball() {
-    // TODO: Implement fireball throwing
-    console.log('Fireball!')
+    this.activeFireballs = this.activeFireballs.filter(fireball => !fireball.dead)
+    if (this.fireballCooldown > 0 || this.activeFireballs.length >= this.maxFireballs) return
+
+    const direction = this.facing === 'left' ? -1 : 1
+    const x = direction > 0 ? this.position.x + this.width : this.position.x - 12
+    const fireball = new Fireball(x, this.position.y + this.height / 3, direction)
+
+    this.activeFireballs.push(fireball)
+    this.thrownFireballs.push(fireball)
+    this.fireballCooldown = this.fireballDelay
   }
 
   public reset() {
@@ -273,5 +338,10 @@ export class Player extends Entity {
     this.invulnerable = false
     this.fireballEnabled = false
     this.velocity = { x: 0, y: 0 }
+    this.jumped = false
+    this.jumpHeld = false
+    this.fireballCooldown = 0
+    this.activeFireballs = []
+    this.thrownFireballs = []
   }
 }
\ No newline at end of file
@@ -1,20 +1,35 @@
 import { Entity } from './Entity'
 
 export class PowerUp extends Entity {
+  public static readonly SIZE = 28
+
   public powerType: string
   private animationFrame = 0
   private animationTimer = 0
   private emerging = true
   private emergeSpeed = 50
   private targetY: number
+  private walks: boolean
+  // Hit out of a block rather than placed in the level
+  private fromBlock: boolean
 
-  constructor(x: number, y: number, type: string) {
-    super(x, y, 28, 28, 'powerup')
+  constructor(x: number, y: number, type: string, fromBlock = false) {
+    super(x, y, PowerUp.SIZE, PowerUp.SIZE, 'powerup')
     this.powerType = type
     this.targetY = y
     this.position.y = y + 32 // Start below block
+    // Mushrooms walk off once they are out
+    this.walks = type === 'mushroom' || type === '1up'
+    this.fromBlock = fromBlock
+    // No physics while rising out of a block, or it would be pushed back out of it
+    if (!fromBlock) {
+      this.enablePhysics()
+    }
+  }
+
+  private enablePhysics() {
     // Mushrooms and stars need solid collision to stand on platforms
-    this.setPhysics({ solid: type === 'mushroom' || type === 'star', gravity: type !== 'flower' })
+    this.setPhysics({ solid: this.walks || this.powerType === 'star', gravity: this.powerType !== 'flower' })
   }
 
   public update(dt: number) {
@@ -24,7 +39,10 @@ export class PowerUp extends Entity {
       if (this.position.y <= this.targetY) {
         this.position.y = this.targetY
         this.emerging = false
-        if (this.powerType === 'mushroom') {
+        if (this.fromBlock) {
+          this.enablePhysics()
+        }
+        if (this.walks) {
           this.velocity.x = 2 // Start moving
         }
       }
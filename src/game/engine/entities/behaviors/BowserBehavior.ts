@@ -0,0 +1,91 @@
+import { EnemyBehavior } from './EnemyBehavior'
+import type { EnemyRules, EnemyWorld } from './EnemyBehavior'
+import type { Enemy } from '../Enemy'
+
+const PACE_SPEED = 0.5
+// How far either side of where he started he paces
+const PACE_RANGE = 64
+const JUMP_POWER = 9
+// Seconds between jumps and between flames, picked at random in these ranges
+const JUMP_INTERVAL = [2, 4]
+const FIRE_INTERVAL = [2.5, 4]
+// He only breathes fire at a player this close
+const FIRE_RANGE = 640
+
+/**
+ * BowserBehavior - Paces around his spot facing the player, hopping now and
+ * then and breathing flames at the player's height. Too spiky to stomp; takes
+ * several fireballs to defeat.
+ */
+export class BowserBehavior extends EnemyBehavior {
+  public readonly rules: EnemyRules = { stompable: false, fireproof: false, shellproof: true, hitPoints: 5 }
+  private homeX: number | null = null
+  private facing = -1
+  private jumpTimer: number | null = null
+  private fireTimer: number | null = null
+
+  public update(enemy: Enemy, dt: number, world: EnemyWorld) {
+    if (this.homeX === null) {
+      this.homeX = enemy.position.x
+    }
+    // Timers are first drawn here, once the game's seeded random is at hand
+    if (this.jumpTimer === null || this.fireTimer === null) {
+      this.jumpTimer = BowserBehavior.between(JUMP_INTERVAL, world)
+      this.fireTimer = BowserBehavior.between(FIRE_INTERVAL, world)
+    }
+
+    // Pace back and forth around home
+    if (enemy.position.x < this.homeX - PACE_RANGE || (enemy.direction < 0 && enemy.wallCollision.left)) {
+      enemy.direction = 1
+    } else if (enemy.position.x > this.homeX + PACE_RANGE || (enemy.direction > 0 && enemy.wallCollision.right)) {
+      enemy.direction = -1
+    }
+    enemy.velocity.x = PACE_SPEED * enemy.direction
+
+    const player = world.getPlayer()
+    if (player) {
+      this.facing = player.position.x + player.width / 2 < enemy.position.x + enemy.width / 2 ? -1 : 1
+    }
+
+    this.jumpTimer -= dt
+    if (this.jumpTimer <= 0 && enemy.grounded) {
+      enemy.velocity.y = -JUMP_POWER
+      this.jumpTimer = BowserBehavior.between(JUMP_INTERVAL, world)
+    }
+
+    this.fireTimer -= dt
+    if (this.fireTimer <= 0) {
+      this.fireTimer = BowserBehavior.between(FIRE_INTERVAL, world)
+      if (player && Math.abs(player.position.x - enemy.position.x) <= FIRE_RANGE) {
+        this.breatheFire(enemy, world)
+      }
+    }
+  }
+
+  private breatheFire(enemy: Enemy, world: EnemyWorld) {
+    const mouthY = enemy.position.y + enemy.height * 0.3
+    const flame = world.spawnEnemy(enemy.position.x, mouthY, 'flame')
+    flame.direction = this.facing
+    flame.position.x = this.facing > 0 ? enemy.position.x + enemy.width : enemy.position.x - flame.width
+  }
+
+  private static between(range: number[], world: EnemyWorld): number {
+    return range[0] + world.random() * (range[1] - range[0])
+  }
+
+  public render(enemy: Enemy, ctx: CanvasRenderingContext2D) {
+    const { x, y } = enemy.position
+    ctx.fillStyle = '#FF0000'
+    ctx.fillRect(x, y, enemy.width, enemy.height)
+    // Draw spikes
+    ctx.fillStyle = '#FFFF00'
+    for (let i = 0; i < 4; i++) {
+      ctx.fillRect(x + i * 16, y - 8, 8, 8)
+    }
+
+    // Eye on the side he's facing
+    ctx.fillStyle = '#FFFFFF'
+    const eyeX = this.facing > 0 ? x + enemy.width - 16 : x + 8
+    ctx.fillRect(eyeX, y + 10, 8, 8)
+  }
+}
@@ -0,0 +1,104 @@
+import type { AABB } from '../../physics/PhysicsEngine'
+import type { Enemy } from '../Enemy'
+import type { Player } from '../Player'
+
+/**
+ * How an enemy type reacts to the player and to attacks
+ */
+export interface EnemyRules {
+  // Landing on it defeats (or stuns) it - otherwise landing on it hurts like any touch
+  stompable: boolean
+  // Fireballs burn out against it
+  fireproof: boolean
+  // Sliding shells bounce off it instead of knocking it out
+  shellproof: boolean
+  // Fireballs it takes before it is defeated
+  hitPoints: number
+}
+
+/**
+ * What landing on an enemy did: defeated it, stunned it without defeating it
+ * (the player still bounces), or hurt the player
+ */
+export type StompResult = 'defeated' | 'stunned' | 'hurt'
+
+/**
+ * What touching an enemy other than from above did
+ */
+export type TouchResult = 'hurt' | 'kicked' | 'none'
+
+/**
+ * The parts of the game a behavior can see and change
+ */
+export interface EnemyWorld {
+  // Whether a solid platform or polygon covers the point - for ledge checks
+  isSolidAt(x: number, y: number): boolean
+  getWorldWidth(): number
+  getPlayer(): Player | null
+  // Put a new enemy (e.g. a flame) into the level
+  spawnEnemy(x: number, y: number, type: string): Enemy
+  // Seeded, so enemies act the same in every replay
+  random(): number
+}
+
+// The world behaviors see when updated outside a game - flat ground everywhere
+export const EMPTY_ENEMY_WORLD: EnemyWorld = {
+  isSolidAt: () => true,
+  getWorldWidth: () => Infinity,
+  getPlayer: () => null,
+  spawnEnemy: () => {
+    throw new Error('Enemies can only spawn enemies inside a running game')
+  },
+  random: () => 0.5
+}
+
+// No behavior's hitboxes reach further than this outside its enemy's box
+export const MAX_ENEMY_REACH = 96
+
+/**
+ * EnemyBehavior - The AI, player rules and look of one enemy type
+ * Each enemy gets its own instance, so behaviors can keep per-enemy state.
+ */
+export abstract class EnemyBehavior {
+  public abstract readonly rules: EnemyRules
+
+  /**
+   * Set the enemy's size and physics when it is created
+   */
+  public setup(_enemy: Enemy) {}
+
+  /**
+   * Called once per tick after physics, to steer for the next one
+   */
+  public abstract update(enemy: Enemy, dt: number, world: EnemyWorld): void
+
+  public abstract render(enemy: Enemy, ctx: CanvasRenderingContext2D): void
+
+  /**
+   * The player landed on it
+   */
+  public stomp(_enemy: Enemy, _player: Player): StompResult {
+    return this.rules.stompable ? 'defeated' : 'hurt'
+  }
+
+  /**
+   * The player touched it any other way
+   */
+  public touch(_enemy: Enemy, _player: Player): TouchResult {
+    return 'hurt'
+  }
+
+  /**
+   * Where it can be touched, in world space
+   */
+  public getHitboxes(enemy: Enemy): AABB[] {
+    return [{ x: enemy.position.x, y: enemy.position.y, width: enemy.width, height: enemy.height }]
+  }
+
+  /**
+   * Whether it knocks out other enemies it runs into, like a sliding shell
+   */
+  public hitsEnemies(_enemy: Enemy): boolean {
+    return false
+  }
+}
@@ -0,0 +1,43 @@
+import type { EnemyBehavior } from './EnemyBehavior'
+import { PatrolBehavior } from './PatrolBehavior'
+import { GoombaBehavior } from './GoombaBehavior'
+import { KoopaBehavior } from './KoopaBehavior'
+import { FirebarBehavior } from './FirebarBehavior'
+import { BowserBehavior } from './BowserBehavior'
+import { SpikeBehavior } from './SpikeBehavior'
+import { FlameBehavior } from './FlameBehavior'
+
+export type EnemyBehaviorFactory = () => EnemyBehavior
+
+/**
+ * EnemyBehaviors - Which behavior each enemy type gets
+ * New types (or replacements for the built-in ones) are registered here;
+ * unknown types patrol.
+ */
+export class EnemyBehaviors {
+  private static factories: Map<string, EnemyBehaviorFactory> = new Map<string, EnemyBehaviorFactory>([
+    ['goomba', () => new GoombaBehavior()],
+    ['koopa', () => new KoopaBehavior()],
+    ['firebar', () => new FirebarBehavior()],
+    ['bowser', () => new BowserBehavior()],
+    ['spike', () => new SpikeBehavior()],
+    ['flame', () => new FlameBehavior()]
+  ])
+
+  static register(type: string, factory: EnemyBehaviorFactory) {
+    EnemyBehaviors.factories.set(type, factory)
+  }
+
+  static has(type: string): boolean {
+    return EnemyBehaviors.factories.has(type)
+  }
+
+  static getTypes(): string[] {
+    return Array.from(EnemyBehaviors.factories.keys())
+  }
+
+  static create(type: string): EnemyBehavior {
+    const factory = EnemyBehaviors.factories.get(type)
+    return factory ? factory() : new PatrolBehavior()
+  }
+}
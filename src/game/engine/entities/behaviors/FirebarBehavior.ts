@@ -0,0 +1,64 @@
+import { EnemyBehavior } from './EnemyBehavior'
+import type { EnemyRules } from './EnemyBehavior'
+import type { AABB } from '../../physics/PhysicsEngine'
+import type { Enemy } from '../Enemy'
+
+// Radians per second
+const ROTATION_SPEED = 2.4
+const SEGMENTS = 4
+const SEGMENT_SPACING = 20
+const SEGMENT_LENGTH = 16
+// Each flame's hitbox is a little smaller than it looks, so grazes are forgiven
+const SEGMENT_HITBOX = 10
+
+/**
+ * FirebarBehavior - An arm of flames turning around a fixed pivot. The whole
+ * arm burns; it can't be stomped, burned or knocked out by a shell.
+ */
+export class FirebarBehavior extends EnemyBehavior {
+  public readonly rules: EnemyRules = { stompable: false, fireproof: true, shellproof: true, hitPoints: 1 }
+  private angle = 0
+
+  public setup(enemy: Enemy) {
+    enemy.setPhysics({ solid: false, gravity: false })
+  }
+
+  public update(enemy: Enemy, dt: number) {
+    enemy.velocity.x = 0
+    enemy.velocity.y = 0
+    this.angle = (this.angle + ROTATION_SPEED * dt) % (Math.PI * 2)
+  }
+
+  public getAngle(): number {
+    return this.angle
+  }
+
+  public getHitboxes(enemy: Enemy): AABB[] {
+    const pivotX = enemy.position.x + enemy.width / 2
+    const pivotY = enemy.position.y + enemy.height / 2
+    const cos = Math.cos(this.angle)
+    const sin = Math.sin(this.angle)
+
+    const boxes: AABB[] = []
+    for (let i = 0; i < SEGMENTS; i++) {
+      const distance = i * SEGMENT_SPACING + SEGMENT_LENGTH / 2
+      boxes.push({
+        x: pivotX + cos * distance - SEGMENT_HITBOX / 2,
+        y: pivotY + sin * distance - SEGMENT_HITBOX / 2,
+        width: SEGMENT_HITBOX,
+        height: SEGMENT_HITBOX
+      })
+    }
+    return boxes
+  }
+
+  public render(enemy: Enemy, ctx: CanvasRenderingContext2D) {
+    // Draw rotating fire bar
+    ctx.translate(enemy.position.x + enemy.width / 2, enemy.position.y + enemy.height / 2)
+    ctx.rotate(this.angle)
+    ctx.fillStyle = '#FF4500'
+    for (let i = 0; i < SEGMENTS; i++) {
+      ctx.fillRect(i * SEGMENT_SPACING, -4, SEGMENT_LENGTH, 8)
+    }
+  }
+}
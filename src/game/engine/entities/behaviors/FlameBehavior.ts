@@ -0,0 +1,58 @@
+import { EnemyBehavior } from './EnemyBehavior'
+import type { EnemyRules, EnemyWorld } from './EnemyBehavior'
+import { PhysicsEngine } from '../../physics/PhysicsEngine'
+import type { Enemy } from '../Enemy'
+
+const FLAME_SPEED = 3
+const FLAME_WIDTH = 24
+const FLAME_HEIGHT = 8
+// Seconds before a flame burns out
+const FLAME_LIFETIME = 5
+
+/**
+ * FlameBehavior - Bowser's breath: flies straight ahead through walls until it
+ * burns out or leaves the world. It can only be dodged.
+ */
+export class FlameBehavior extends EnemyBehavior {
+  public readonly rules: EnemyRules = { stompable: false, fireproof: true, shellproof: true, hitPoints: 1 }
+  private lifetime = FLAME_LIFETIME
+  private flicker = 0
+
+  public setup(enemy: Enemy) {
+    enemy.width = FLAME_WIDTH
+    enemy.height = FLAME_HEIGHT
+    // Moves itself, so nothing stops it
+    enemy.physics = null
+  }
+
+  public update(enemy: Enemy, dt: number, world: EnemyWorld) {
+    enemy.velocity.x = FLAME_SPEED * enemy.direction
+    enemy.velocity.y = 0
+    enemy.position.x += enemy.velocity.x * dt * PhysicsEngine.REFERENCE_TICK_RATE
+    this.flicker += dt * 20
+
+    this.lifetime -= dt
+    if (this.lifetime <= 0 || enemy.position.x + enemy.width <= 0 || enemy.position.x >= world.getWorldWidth()) {
+      enemy.dead = true
+    }
+  }
+
+  public render(enemy: Enemy, ctx: CanvasRenderingContext2D) {
+    const { x, y } = enemy.position
+    // Tapers towards the tail, which flickers
+    const tail = enemy.direction > 0 ? x : x + enemy.width
+    const head = enemy.direction > 0 ? x + enemy.width : x
+    const tailWobble = Math.sin(this.flicker) * 2
+
+    ctx.fillStyle = '#FF4500'
+    ctx.beginPath()
+    ctx.moveTo(head, y + enemy.height / 2)
+    ctx.lineTo(tail, y + tailWobble)
+    ctx.lineTo(tail, y + enemy.height - tailWobble)
+    ctx.closePath()
+    ctx.fill()
+
+    ctx.fillStyle = '#FFD700'
+    ctx.fillRect(head - (enemy.direction > 0 ? 8 : 0), y + 2, 8, enemy.height - 4)
+  }
+}
@@ -0,0 +1,19 @@
+import { PatrolBehavior } from './PatrolBehavior'
+import type { Enemy } from '../Enemy'
+
+/**
+ * GoombaBehavior - A slow patrol that keeps to its ledge
+ */
+export class GoombaBehavior extends PatrolBehavior {
+  constructor() {
+    super(1)
+  }
+
+  public render(enemy: Enemy, ctx: CanvasRenderingContext2D) {
+    ctx.fillStyle = '#8B4513'
+    ctx.fillRect(enemy.position.x, enemy.position.y, enemy.width, enemy.height)
+    // Draw mushroom cap
+    ctx.fillStyle = '#654321'
+    ctx.fillRect(enemy.position.x - 4, enemy.position.y, enemy.width + 8, enemy.height / 2)
+  }
+}
@@ -0,0 +1,127 @@
+import { PatrolBehavior } from './PatrolBehavior'
+import type { EnemyWorld, StompResult, TouchResult } from './EnemyBehavior'
+import type { Enemy } from '../Enemy'
+import type { Player } from '../Player'
+
+export type KoopaState = 'walking' | 'shell' | 'sliding'
+
+const WALK_SPEED = 1.5
+const SHELL_SPEED = 7
+// Seconds a shell lies still before the koopa climbs back out
+const SHELL_WAKE_TIME = 7
+// Seconds after a kick before the shell can hurt the player who kicked it
+const KICK_GRACE = 0.25
+
+/**
+ * KoopaBehavior - Patrols until stomped into its shell. A resting shell is
+ * kicked by touching or landing on it and slides off, bouncing off walls and
+ * knocking out other enemies, until it is landed on again.
+ */
+export class KoopaBehavior extends PatrolBehavior {
+  private state: KoopaState = 'walking'
+  private shellTimer = 0
+  private kickGrace = 0
+
+  constructor() {
+    super(WALK_SPEED)
+  }
+
+  public getState(): KoopaState {
+    return this.state
+  }
+
+  public update(enemy: Enemy, dt: number, world: EnemyWorld) {
+    switch (this.state) {
+      case 'walking':
+        this.patrol(enemy, world)
+        break
+
+      case 'shell':
+        enemy.velocity.x = 0
+        this.shellTimer -= dt
+        if (this.shellTimer <= 0) {
+          this.state = 'walking'
+        }
+        break
+
+      case 'sliding':
+        this.kickGrace = Math.max(0, this.kickGrace - dt)
+        // Shells go over ledges - only walls turn them
+        if ((enemy.direction > 0 && enemy.wallCollision.right) || (enemy.direction < 0 && enemy.wallCollision.left) ||
+            (enemy.direction < 0 && enemy.position.x <= 0) ||
+            (enemy.direction > 0 && enemy.position.x + enemy.width >= world.getWorldWidth())) {
+          enemy.turnAround()
+        }
+        enemy.velocity.x = SHELL_SPEED * enemy.direction
+        break
+    }
+  }
+
+  public stomp(enemy: Enemy, player: Player): StompResult {
+    if (this.state === 'shell') {
+      this.kick(enemy, player)
+    } else {
+      // Walking koopas hide, sliding shells stop
+      this.state = 'shell'
+      this.shellTimer = SHELL_WAKE_TIME
+      enemy.velocity.x = 0
+    }
+    return 'stunned'
+  }
+
+  public touch(enemy: Enemy, player: Player): TouchResult {
+    if (this.state === 'shell') {
+      this.kick(enemy, player)
+      return 'kicked'
+    }
+    if (this.state === 'sliding' && this.kickGrace > 0) {
+      return 'none'
+    }
+    return 'hurt'
+  }
+
+  public hitsEnemies(): boolean {
+    return this.state === 'sliding'
+  }
+
+  // Away from the player
+  private kick(enemy: Enemy, player: Player) {
+    const playerCenter = player.position.x + player.width / 2
+    const shellCenter = enemy.position.x + enemy.width / 2
+    enemy.direction = playerCenter <= shellCenter ? 1 : -1
+    enemy.velocity.x = SHELL_SPEED * enemy.direction
+    this.state = 'sliding'
+    this.kickGrace = KICK_GRACE
+  }
+
+  public render(enemy: Enemy, ctx: CanvasRenderingContext2D) {
+    const { x, y } = enemy.position
+
+    if (this.state === 'walking') {
+      ctx.fillStyle = '#00FF00'
+      ctx.fillRect(x, y, enemy.width, enemy.height)
+      // Draw shell pattern
+      ctx.strokeStyle = '#008800'
+      ctx.lineWidth = 2
+      ctx.strokeRect(x + 4, y + 4, enemy.width - 8, enemy.height - 8)
+      return
+    }
+
+    // Just the shell, sitting on the ground
+    const shellHeight = enemy.height * 0.6
+    const shellY = y + enemy.height - shellHeight
+    ctx.fillStyle = '#00AA00'
+    ctx.beginPath()
+    ctx.ellipse(x + enemy.width / 2, shellY + shellHeight / 2, enemy.width / 2, shellHeight / 2, 0, 0, Math.PI * 2)
+    ctx.fill()
+    ctx.strokeStyle = '#FFFFFF'
+    ctx.lineWidth = 2
+    ctx.stroke()
+
+    // A koopa about to climb out peeks from the shell
+    if (this.state === 'shell' && this.shellTimer < 1.5) {
+      ctx.fillStyle = '#FFD27F'
+      ctx.fillRect(x + enemy.width / 2 - 4, shellY - 4, 8, 6)
+    }
+  }
+}
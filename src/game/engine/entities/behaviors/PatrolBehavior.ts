@@ -0,0 +1,61 @@
+import { EnemyBehavior } from './EnemyBehavior'
+import type { EnemyRules, EnemyWorld } from './EnemyBehavior'
+import type { Enemy } from '../Enemy'
+
+// How far past its front edge and below its feet an enemy looks for ground
+const LEDGE_LOOKAHEAD = 2
+const LEDGE_PROBE_DEPTH = 8
+
+/**
+ * PatrolBehavior - Walks back and forth, turning at walls, the world's edges
+ * and (when ledge-aware) the edges of whatever it is standing on.
+ * Used as is for enemy types nothing else is registered for.
+ */
+export class PatrolBehavior extends EnemyBehavior {
+  public readonly rules: EnemyRules = { stompable: true, fireproof: false, shellproof: false, hitPoints: 1 }
+  protected speed: number
+  protected ledgeAware: boolean
+
+  constructor(speed = 2, ledgeAware = true) {
+    super()
+    this.speed = speed
+    this.ledgeAware = ledgeAware
+  }
+
+  public update(enemy: Enemy, _dt: number, world: EnemyWorld) {
+    this.patrol(enemy, world)
+  }
+
+  protected patrol(enemy: Enemy, world: EnemyWorld) {
+    if (this.shouldTurn(enemy, world)) {
+      enemy.turnAround()
+    }
+    enemy.velocity.x = this.speed * enemy.direction
+  }
+
+  protected shouldTurn(enemy: Enemy, world: EnemyWorld): boolean {
+    const direction = enemy.direction
+
+    // Walked into a wall or a slope too steep to climb
+    if ((direction > 0 && enemy.wallCollision.right) || (direction < 0 && enemy.wallCollision.left)) {
+      return true
+    }
+
+    if ((direction < 0 && enemy.position.x <= 0) ||
+        (direction > 0 && enemy.position.x + enemy.width >= world.getWorldWidth())) {
+      return true
+    }
+
+    // Only checked on the ground, so an enemy that is falling doesn't spin on the spot
+    if (this.ledgeAware && enemy.grounded) {
+      const aheadX = direction > 0 ? enemy.position.x + enemy.width + LEDGE_LOOKAHEAD : enemy.position.x - LEDGE_LOOKAHEAD
+      return !world.isSolidAt(aheadX, enemy.position.y + enemy.height + LEDGE_PROBE_DEPTH)
+    }
+    return false
+  }
+
+  public render(enemy: Enemy, ctx: CanvasRenderingContext2D) {
+    ctx.fillStyle = '#FF00FF'
+    ctx.fillRect(enemy.position.x, enemy.position.y, enemy.width, enemy.height)
+  }
+}
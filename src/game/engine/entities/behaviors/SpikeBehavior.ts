@@ -0,0 +1,50 @@
+import { EnemyBehavior } from './EnemyBehavior'
+import type { EnemyRules } from './EnemyBehavior'
+import type { Enemy } from '../Enemy'
+
+/**
+ * SpikeBehavior - A fixed hazard that hurts from every side, landing on it included
+ */
+export class SpikeBehavior extends EnemyBehavior {
+  public readonly rules: EnemyRules = { stompable: false, fireproof: true, shellproof: true, hitPoints: 1 }
+
+  public setup(enemy: Enemy) {
+    enemy.setPhysics({ solid: true, gravity: false, mass: 0 })
+  }
+
+  public update(enemy: Enemy) {
+    enemy.velocity.x = 0
+    enemy.velocity.y = 0
+  }
+
+  public render(enemy: Enemy, ctx: CanvasRenderingContext2D) {
+    // Draw triangular metallic gray spike that kills on contact
+    ctx.fillStyle = '#696969' // Dark gray metallic color
+    ctx.strokeStyle = '#404040' // Darker outline
+    ctx.lineWidth = 2
+
+    // Calculate spike triangle points
+    const centerX = enemy.position.x + enemy.width / 2
+    const baseY = enemy.position.y + enemy.height
+    const tipY = enemy.position.y
+    const leftX = enemy.position.x
+    const rightX = enemy.position.x + enemy.width
+
+    ctx.beginPath()
+    ctx.moveTo(centerX, tipY)    // Top point
+    ctx.lineTo(leftX, baseY)     // Bottom left
+    ctx.lineTo(rightX, baseY)    // Bottom right
+    ctx.closePath()
+    ctx.fill()
+    ctx.stroke()
+
+    // Add metallic shine effect
+    ctx.fillStyle = 'rgba(192, 192, 192, 0.7)' // Light gray shine
+    ctx.beginPath()
+    ctx.moveTo(centerX, tipY)
+    ctx.lineTo(leftX + enemy.width * 0.3, baseY)
+    ctx.lineTo(centerX - enemy.width * 0.1, baseY)
+    ctx.closePath()
+    ctx.fill()
+  }
+}
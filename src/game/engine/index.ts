@@ -14,6 +14,7 @@ export { LevelBuilder } from './LevelBuilder'
 
 // Physics
 export { PhysicsEngine } from './physics/PhysicsEngine'
+export { SpatialGrid } from './physics/SpatialGrid'
 
 // Entities
 export { Entity } from './entities/Entity'
@@ -21,34 +22,116 @@ export { Player } from './entities/Player'
 export { Enemy } from './entities/Enemy'
 export { Coin } from './entities/Coin'
 export { PowerUp } from './entities/PowerUp'
+export { Fireball } from './entities/Fireball'
+export { Checkpoint } from './entities/Checkpoint'
 export { EntityManager } from './entities/EntityManager'
+export { EnemyBehavior, MAX_ENEMY_REACH } from './entities/behaviors/EnemyBehavior'
+export { EnemyBehaviors } from './entities/behaviors/EnemyBehaviors'
+export { PatrolBehavior } from './entities/behaviors/PatrolBehavior'
+export { GoombaBehavior } from './entities/behaviors/GoombaBehavior'
+export { KoopaBehavior } from './entities/behaviors/KoopaBehavior'
+export { FirebarBehavior } from './entities/behaviors/FirebarBehavior'
+export { BowserBehavior } from './entities/behaviors/BowserBehavior'
+export { SpikeBehavior } from './entities/behaviors/SpikeBehavior'
+export { FlameBehavior } from './entities/behaviors/FlameBehavior'
 
 // Level Components
 export { Level } from './level/Level'
 export { Platform } from './level/Platform'
+export { PlatformMotion } from './level/PlatformMotion'
 export { Polygon } from './level/Polygon'
+export { Region, DEFAULT_CONVEYOR_SPEED } from './level/Region'
 
 // Rendering
 export { Renderer } from './render/Renderer'
 export { Camera } from './render/Camera'
+export { DomGameUI, NullGameUI } from './render/GameUI'
+export { MenuRenderer } from './render/MenuRenderer'
+export { TouchControlsRenderer } from './render/TouchControlsRenderer'
+export { SceneManager } from './scenes/SceneManager'
 
 // Input
 export { InputManager } from './input/InputManager'
+export { ScriptedInput } from './input/ScriptedInput'
+export { GamepadInput } from './input/GamepadInput'
+export { InputBindings, DEFAULT_BINDINGS, INPUT_ACTIONS, RESERVED_KEYS, RESERVED_BUTTONS } from './input/InputBindings'
+export { TouchControls, DEFAULT_TOUCH_CONTROLS } from './input/TouchControls'
+
+// Replay
+export { ReplayCodec, REPLAY_FORMAT_VERSION } from './replay/Replay'
+export { ReplayRecorder } from './replay/ReplayRecorder'
+export { ReplayPlayer } from './replay/ReplayPlayer'
+
+// Core
+export { SeededRandom } from './core/SeededRandom'
+export { EventBus } from './core/EventBus'
+
+// Level schema
+export { LevelSchema, LEVEL_SCHEMA_VERSION, DEFAULT_PLAYER_START, DEFAULT_WORLD_SIZE, CAMERA_MODES, CHECKPOINT_SIZE, MUSIC_MOODS, BLOCK_CONTENTS, PATH_MODES, PLATFORM_TRIGGERS, LEVEL_BACKGROUNDS, REGION_TYPES } from './schema/LevelSchema'
+export { LevelMigrations } from './schema/LevelMigrations'
+export { LegacyFormats } from './schema/LegacyFormats'
+
+// Analysis
+export { LevelSolvabilityChecker } from './analysis/LevelSolvability'
+export { BroadphaseBenchmark } from './debug/BroadphaseBenchmark'
 
 // Audio System
 export { AudioManager, audioManager } from './audio/AudioManager'
 export { SoundEffect } from './audio/SoundEffect'
+export { WebAudioBackend } from './audio/WebAudioBackend'
 export { MusicPlayer } from './audio/MusicPlayer'
 export { AudioGenerator } from './audio/AudioGenerator'
+export { SoundBindings, DEFAULT_SOUND_BINDINGS } from './audio/SoundBindings'
+export { ChiptuneComposer, MUSIC_SAMPLE_RATE } from './audio/ChiptuneComposer'
+export { LevelMusic } from './audio/LevelMusic'
 
 // Type exports
-export type { GameConfig } from './GameEngine'
+export type { GameConfig, GameOutcome, LevelSource, PackProgress, ReplayResult } from './GameEngine'
 export type { LevelData } from './LevelBuilder'
-export type { InputState } from './input/InputManager'
+export type { InputState, InputSource, MenuInput } from './input/InputManager'
+export type { GamepadState, GamepadInfo } from './input/GamepadInput'
+export type { InputAction, ActionBinding, BindingTable, BindingInput } from './input/InputBindings'
+export type { TouchControlsConfig, TouchControlsLayout, TouchControlsState, TouchButtonAction } from './input/TouchControls'
+export type { SceneName, SceneMenu, MenuItem } from './scenes/SceneManager'
+export type { EnemyRules, EnemyWorld, StompResult, TouchResult } from './entities/behaviors/EnemyBehavior'
+export type { EnemyBehaviorFactory } from './entities/behaviors/EnemyBehaviors'
+export type { KoopaState } from './entities/behaviors/KoopaBehavior'
+export type { Replay, ReplayConfig, InputRun } from './replay/Replay'
+export type {
+  LevelDocument,
+  LevelPoint,
+  LevelPlatform,
+  LevelPlatformPath,
+  LevelWarp,
+  LevelArea,
+  LevelBackground,
+  LevelPolygon,
+  LevelRegion,
+  RegionType,
+  LevelEnemy,
+  LevelPowerUp,
+  LevelSize,
+  LevelCamera,
+  CameraMode,
+  MusicMood,
+  BlockContents,
+  PathMode,
+  PlatformTrigger,
+  LevelExtras
+} from './schema/LevelSchema'
+export type { PlatformMotionState } from './level/PlatformMotion'
+export type { GameData, LegacyLevelFormat } from './schema/LegacyFormats'
+export type { SolvabilityReport, SolvabilityGap, JumpArcPoint } from './analysis/LevelSolvability'
+export type { BenchmarkOptions, BenchmarkResult, FrameTimeStats } from './debug/BroadphaseBenchmark'
 export type { Vector2D, AABB } from './physics/PhysicsEngine'
 export type { EntityPhysics } from './entities/Entity'
 export type { PlayerSize, PlayerState } from './entities/Player'
 export type { UIData } from './render/Renderer'
-export type { AudioSettings, SoundDefinition } from './audio/AudioManager'
+export type { GameUI } from './render/GameUI'
+export type { AudioSettings, SoundDefinition, PlaySoundOptions } from './audio/AudioManager'
+export type { BufferPlayOptions, BusVolumes } from './audio/WebAudioBackend'
 export type { SoundOptions } from './audio/SoundEffect'
-export type { MusicOptions, MusicTrack } from './audio/MusicPlayer'
\ No newline at end of file
+export type { MusicOptions, MusicTrack } from './audio/MusicPlayer'
+export type { SoundBindingMap } from './audio/SoundBindings'
+export type { ChiptuneSong, ChiptuneNote, DrumHit, DrumKind } from './audio/ChiptuneComposer'
+export type { GameEvents, GameEventName, GameEventHandler } from './core/EventBus'
\ No newline at end of file
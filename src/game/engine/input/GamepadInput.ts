@@ -0,0 +1,197 @@
+import type { InputState } from './InputManager'
+import { DEFAULT_BINDINGS, INPUT_ACTIONS } from './InputBindings'
+import type { InputBindings } from './InputBindings'
+
+/**
+ * What a controller is pressing this frame, on top of the InputState buttons
+ */
+export interface GamepadState extends InputState {
+  // Start - pauses in game
+  pause: boolean
+}
+
+export interface GamepadInfo {
+  index: number
+  id: string
+  // Whether the browser recognised it and remapped it to the standard layout
+  standard: boolean
+}
+
+// Start in the W3C standard gamepad layout
+const START_BUTTON = 9
+
+// Stick travel (0-1) ignored so a worn stick resting off centre doesn't walk the player
+const DEFAULT_DEAD_ZONE = 0.25
+// Analog triggers and buttons count as pressed past this
+const BUTTON_THRESHOLD = 0.5
+
+/**
+ * GamepadInput - Polls the Gamepad API into InputState
+ * With several controllers connected it follows the selected one, or in auto
+ * mode whichever pressed something last, and copes with pads coming and going.
+ * Buttons follow the player's bindings; the left stick always moves.
+ */
+export class GamepadInput {
+  private bindings: InputBindings | null
+  // Null follows whichever controller was used last
+  private selectedIndex: number | null = null
+  private activeIndex: number | null = null
+  private deadZone = DEFAULT_DEAD_ZONE
+  // Which pads were being used last poll, so auto mode switches on a fresh press
+  private inUse: Map<number, boolean> = new Map()
+
+  constructor(bindings: InputBindings | null = null) {
+    this.bindings = bindings
+    if (!GamepadInput.isSupported()) return
+    window.addEventListener('gamepadconnected', this.handleConnected)
+    window.addEventListener('gamepaddisconnected', this.handleDisconnected)
+  }
+
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.getGamepads === 'function'
+  }
+
+  private handleConnected = (e: GamepadEvent) => {
+    console.log(`🎮 Controller ${e.gamepad.index} connected: ${e.gamepad.id}`)
+    // The first controller plugged in drives until another is used
+    if (this.activeIndex === null) {
+      this.activeIndex = e.gamepad.index
+    }
+  }
+
+  private handleDisconnected = (e: GamepadEvent) => {
+    console.log(`🎮 Controller ${e.gamepad.index} disconnected`)
+    if (this.activeIndex === e.gamepad.index) {
+      this.activeIndex = null
+    }
+    this.inUse.delete(e.gamepad.index)
+    // A chosen pad that is unplugged hands back to auto rather than going silent
+    if (this.selectedIndex === e.gamepad.index) {
+      this.selectedIndex = null
+    }
+  }
+
+  /**
+   * Connected controllers, in slot order
+   */
+  public getGamepads(): GamepadInfo[] {
+    return this.connectedPads().map(pad => ({ index: pad.index, id: pad.id, standard: pad.mapping === 'standard' }))
+  }
+
+  /**
+   * Play with one controller only, or null to follow whichever was used last
+   */
+  public selectGamepad(index: number | null) {
+    this.selectedIndex = index
+    if (index !== null) {
+      this.activeIndex = index
+    }
+  }
+
+  public getSelectedGamepad(): number | null {
+    return this.selectedIndex
+  }
+
+  /**
+   * The controller input is currently read from, if any
+   */
+  public getActiveGamepad(): number | null {
+    return this.selectedIndex ?? this.activeIndex
+  }
+
+  public setDeadZone(deadZone: number) {
+    this.deadZone = Math.max(0, Math.min(0.95, deadZone))
+  }
+
+  /**
+   * Read the controller in use - null when there is none
+   */
+  public poll(): GamepadState | null {
+    const pads = this.connectedPads()
+    if (pads.length === 0) return null
+
+    // Auto: switch to another controller the moment something on it is pressed
+    pads.forEach(p => {
+      const used = GamepadInput.isInUse(p, this.deadZone)
+      if (used && !this.inUse.get(p.index) && this.selectedIndex === null) {
+        this.activeIndex = p.index
+      }
+      this.inUse.set(p.index, used)
+    })
+
+    let pad: Gamepad | undefined
+    if (this.selectedIndex !== null) {
+      pad = pads.find(p => p.index === this.selectedIndex)
+    } else {
+      pad = pads.find(p => p.index === this.activeIndex) || pads[0]
+      this.activeIndex = pad.index
+    }
+    return pad ? this.readPad(pad) : null
+  }
+
+  private readPad(pad: Gamepad): GamepadState {
+    const state = { pause: GamepadInput.isPressed(pad, START_BUTTON) } as GamepadState
+    INPUT_ACTIONS.forEach(action => {
+      const buttons = this.bindings ? this.bindings.buttonsFor(action) : DEFAULT_BINDINGS[action].buttons
+      state[action] = buttons.some(button => GamepadInput.isPressed(pad, button))
+    })
+
+    const [x, y] = this.readStick(pad)
+    state.left = state.left || x < 0
+    state.right = state.right || x > 0
+    state.up = state.up || y < 0
+    state.down = state.down || y > 0
+    return state
+  }
+
+  /**
+   * Buttons held on any controller - for "press a button" rebinding
+   */
+  public static getPressedButtons(): number[] {
+    if (!GamepadInput.isSupported()) return []
+    const pressed = new Set<number>()
+    Array.from(navigator.getGamepads()).forEach(pad => {
+      pad?.buttons.forEach((_, index) => {
+        if (GamepadInput.isPressed(pad, index)) pressed.add(index)
+      })
+    })
+    return Array.from(pressed)
+  }
+
+  /**
+   * Left stick as 8-way directions, with a radial dead zone so diagonals aren't clipped
+   */
+  private readStick(pad: Gamepad): [number, number] {
+    const x = pad.axes[0] ?? 0
+    const y = pad.axes[1] ?? 0
+    const magnitude = Math.hypot(x, y)
+    if (magnitude < this.deadZone) return [0, 0]
+
+    // An axis needs half the push to count, so running mostly sideways doesn't also duck
+    const axis = (value: number) => Math.abs(value) < Math.max(this.deadZone, magnitude * 0.5) ? 0 : Math.sign(value)
+    return [axis(x), axis(y)]
+  }
+
+  private connectedPads(): Gamepad[] {
+    if (!GamepadInput.isSupported()) return []
+    // Chrome returns a fixed-length list with nulls for empty slots
+    return Array.from(navigator.getGamepads()).filter((pad): pad is Gamepad => !!pad && pad.connected)
+  }
+
+  private static isPressed(pad: Gamepad, index: number): boolean {
+    const button = pad.buttons[index]
+    return !!button && (button.pressed || button.value > BUTTON_THRESHOLD)
+  }
+
+  private static isInUse(pad: Gamepad, deadZone: number): boolean {
+    // Only the left stick - some pads report resting triggers as a fully deflected axis
+    return pad.buttons.some((_, index) => GamepadInput.isPressed(pad, index)) ||
+      pad.axes.slice(0, 2).some(value => Math.abs(value) > deadZone)
+  }
+
+  public dispose() {
+    if (!GamepadInput.isSupported()) return
+    window.removeEventListener('gamepadconnected', this.handleConnected)
+    window.removeEventListener('gamepaddisconnected', this.handleDisconnected)
+  }
+}
@@ -0,0 +1,200 @@
+import type { InputState } from './InputManager'
+
+export type InputAction = keyof InputState
+
+/**
+ * The keyboard keys (KeyboardEvent.code) and standard-layout gamepad buttons
+ * that press one action
+ */
+export interface ActionBinding {
+  keys: string[]
+  buttons: number[]
+}
+
+export type BindingTable = Record<InputAction, ActionBinding>
+
+/**
+ * One key or button, e.g. what the player just pressed when rebinding
+ */
+export type BindingInput =
+  | { device: 'keyboard'; code: string }
+  | { device: 'gamepad'; button: number }
+
+export const INPUT_ACTIONS: InputAction[] = ['left', 'right', 'up', 'down', 'jump', 'run', 'action']
+
+export const DEFAULT_BINDINGS: BindingTable = {
+  left: { keys: ['ArrowLeft', 'KeyA'], buttons: [14] },
+  right: { keys: ['ArrowRight', 'KeyD'], buttons: [15] },
+  up: { keys: ['ArrowUp', 'KeyW'], buttons: [12] },
+  down: { keys: ['ArrowDown', 'KeyS'], buttons: [13] },
+  jump: { keys: ['Space', 'KeyJ'], buttons: [0] },
+  run: { keys: ['ShiftLeft', 'ShiftRight'], buttons: [2] },
+  action: { keys: ['KeyX', 'KeyK'], buttons: [1] }
+}
+
+// Menus always answer to these, so they can't be bound to an action
+export const RESERVED_KEYS = ['Escape', 'Enter', 'NumpadEnter', 'KeyP']
+// Start pauses
+export const RESERVED_BUTTONS = [9]
+
+const STORAGE_KEY = 'mario-input-bindings'
+
+// Names for the W3C standard gamepad layout
+const BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start',
+  'Left Stick', 'Right Stick', 'D-pad Up', 'D-pad Down', 'D-pad Left', 'D-pad Right', 'Home'
+]
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ShiftLeft: 'Left Shift',
+  ShiftRight: 'Right Shift',
+  ControlLeft: 'Left Ctrl',
+  ControlRight: 'Right Ctrl',
+  AltLeft: 'Left Alt',
+  AltRight: 'Right Alt'
+}
+
+const copyTable = (table: BindingTable): BindingTable => {
+  const copy = {} as BindingTable
+  INPUT_ACTIONS.forEach(action => {
+    copy[action] = { keys: [...table[action].keys], buttons: [...table[action].buttons] }
+  })
+  return copy
+}
+
+/**
+ * InputBindings - Which keys and controller buttons press each action
+ * Saved to localStorage next to the audio settings. Rebinding reports the
+ * action already using an input so the settings panel can ask before moving it.
+ */
+export class InputBindings {
+  private table: BindingTable
+
+  constructor(table?: BindingTable) {
+    this.table = copyTable(table ?? InputBindings.loadTable())
+  }
+
+  public getTable(): BindingTable {
+    return copyTable(this.table)
+  }
+
+  public setTable(table: BindingTable) {
+    this.table = copyTable(table)
+  }
+
+  public keysFor(action: InputAction): string[] {
+    return this.table[action].keys
+  }
+
+  public buttonsFor(action: InputAction): number[] {
+    return this.table[action].buttons
+  }
+
+  /**
+   * The action an input already presses, other than `except`
+   */
+  public findConflict(input: BindingInput, except?: InputAction): InputAction | null {
+    return INPUT_ACTIONS.find(action => action !== except && InputBindings.actionUses(this.table[action], input)) ?? null
+  }
+
+  /**
+   * Put an input in an action's slot (replacing what was there, or appending
+   * past the end). Any other action using the input loses it.
+   */
+  public bind(action: InputAction, input: BindingInput, slot: number) {
+    if (InputBindings.isReserved(input)) {
+      throw new Error(`${InputBindings.describe(input)} is reserved for menus`)
+    }
+
+    this.unbind(input)
+    const list: (string | number)[] = input.device === 'keyboard' ? this.table[action].keys : this.table[action].buttons
+    const value = input.device === 'keyboard' ? input.code : input.button
+    if (slot < list.length) {
+      list[slot] = value
+    } else {
+      list.push(value)
+    }
+  }
+
+  /**
+   * Take an input off every action
+   */
+  public unbind(input: BindingInput) {
+    INPUT_ACTIONS.forEach(action => {
+      const binding = this.table[action]
+      if (input.device === 'keyboard') {
+        binding.keys = binding.keys.filter(code => code !== input.code)
+      } else {
+        binding.buttons = binding.buttons.filter(button => button !== input.button)
+      }
+    })
+  }
+
+  public resetToDefaults() {
+    this.table = copyTable(DEFAULT_BINDINGS)
+  }
+
+  /**
+   * Save to localStorage
+   */
+  public save() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.table))
+    } catch (error) {
+      console.warn('Failed to save input bindings:', error)
+    }
+  }
+
+  /**
+   * Saved bindings, with defaults for anything missing or malformed
+   */
+  public static loadTable(): BindingTable {
+    const table = copyTable(DEFAULT_BINDINGS)
+    try {
+      const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null
+      if (!saved) return table
+
+      const parsed = JSON.parse(saved)
+      INPUT_ACTIONS.forEach(action => {
+        const entry = parsed?.[action]
+        if (!entry) return
+        if (Array.isArray(entry.keys) && entry.keys.every((key: unknown) => typeof key === 'string')) {
+          table[action].keys = entry.keys
+        }
+        if (Array.isArray(entry.buttons) && entry.buttons.every((button: unknown) => Number.isInteger(button))) {
+          table[action].buttons = entry.buttons
+        }
+      })
+    } catch (error) {
+      console.warn('Failed to load input bindings:', error)
+    }
+    return table
+  }
+
+  public static isReserved(input: BindingInput): boolean {
+    return input.device === 'keyboard' ? RESERVED_KEYS.includes(input.code) : RESERVED_BUTTONS.includes(input.button)
+  }
+
+  /**
+   * Human-readable name, e.g. "Space", "←", "Gamepad A"
+   */
+  public static describe(input: BindingInput): string {
+    if (input.device === 'gamepad') {
+      return `Gamepad ${BUTTON_NAMES[input.button] ?? `Button ${input.button}`}`
+    }
+    const code = input.code
+    if (KEY_NAMES[code]) return KEY_NAMES[code]
+    if (code.startsWith('Key')) return code.slice(3)
+    if (code.startsWith('Digit')) return code.slice(5)
+    if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`
+    return code
+  }
+
+  private static actionUses(binding: ActionBinding, input: BindingInput): boolean {
+    return input.device === 'keyboard' ? binding.keys.includes(input.code) : binding.buttons.includes(input.button)
+  }
+}
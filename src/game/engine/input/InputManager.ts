@@ -1,3 +1,10 @@
+import { GamepadInput } from './GamepadInput'
+import type { GamepadInfo } from './GamepadInput'
+import { InputBindings, INPUT_ACTIONS } from './InputBindings'
+import type { BindingTable, InputAction } from './InputBindings'
+import { TouchControls } from './TouchControls'
+import type { TouchControlsConfig, TouchControlsState } from './TouchControls'
+
 export interface InputState {
   left: boolean
   right: boolean
@@ -8,126 +15,171 @@ export interface InputState {
   action: boolean
 }
 
-export class InputManager {
+/**
+ * Menu navigation for one frame - polled by the scene manager, never recorded
+ */
+export interface MenuInput {
+  up: boolean
+  down: boolean
+  confirm: boolean
+  // Pause in game, back out of a menu
+  pause: boolean
+  // Canvas-space points tapped or clicked since the last poll
+  taps: { x: number; y: number }[]
+}
+
+/**
+ * Anything the engine can poll for one tick's worth of input
+ * (live devices, recorded replays, scripted tests)
+ */
+export interface InputSource {
+  getInput(): InputState
+}
+
+export class InputManager implements InputSource {
   private keys: Map<string, boolean> = new Map()
+  // Fingers on the canvas, in canvas pixels
   private touches: Map<number, { x: number; y: number }> = new Map()
-  private inputState: InputState = {
-    left: false,
-    right: false,
-    up: false,
-    down: false,
-    jump: false,
-    run: false,
-    action: false
-  }
+  private touchCanvas: HTMLElement | null = null
+  // On-screen stick and buttons, and what they are pressing
+  private touchControls = new TouchControls()
+  private touchState: InputState = InputManager.emptyState()
+  // 'auto' touch controls appear once the screen has been touched
+  private touchSeen = false
+  private taps: { x: number; y: number }[] = []
+  // Player's saved key and button bindings
+  private bindings = new InputBindings()
+  private gamepad = new GamepadInput(this.bindings)
+  // On-screen buttons of the virtual gamepad being held
+  private virtualPressed: Set<InputAction> = new Set()
+  private inputState: InputState = InputManager.emptyState()
 
-  constructor() {
+  constructor(canvas: HTMLElement | null = null) {
     this.initializeKeyboardListeners()
-    this.initializeTouchListeners()
+    this.initializeTouchListeners(canvas)
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    this.keys.set(e.code, true)
+    this.updateInputState()
+
+    // Prevent default for game keys
+    if (['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'Space', 'Enter'].includes(e.code)) {
+      e.preventDefault()
+    }
+  }
+
+  private handleKeyUp = (e: KeyboardEvent) => {
+    this.keys.set(e.code, false)
+    this.updateInputState()
+  }
+
+  // Clear keys when window loses focus
+  private handleBlur = () => {
+    this.keys.clear()
+    this.resetInputState()
   }
 
   private initializeKeyboardListeners() {
-    window.addEventListener('keydown', (e) => {
-      this.keys.set(e.code, true)
-      this.updateInputState()
+    window.addEventListener('keydown', this.handleKeyDown)
+    window.addEventListener('keyup', this.handleKeyUp)
+    window.addEventListener('blur', this.handleBlur)
+  }
 
-      // Prevent default for game keys
-      if (['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'Space'].includes(e.code)) {
-        e.preventDefault()
-      }
+  private handleTouchUpdate = (e: TouchEvent) => {
+    e.preventDefault()
+    Array.from(e.touches).forEach(touch => {
+      const point = this.toCanvasPoint(touch.clientX, touch.clientY)
+      if (point) this.touches.set(touch.identifier, point)
     })
+    this.updateTouchInput()
+  }
 
-    window.addEventListener('keyup', (e) => {
-      this.keys.set(e.code, false)
-      this.updateInputState()
-    })
+  private handleTouchStart = (e: TouchEvent) => {
+    this.touchSeen = true
+    Array.from(e.changedTouches).forEach(touch => this.addTap(touch.clientX, touch.clientY))
+    this.handleTouchUpdate(e)
+  }
 
-    // Clear keys when window loses focus
-    window.addEventListener('blur', () => {
-      this.keys.clear()
-      this.resetInputState()
-    })
+  private handleMouseDown = (e: MouseEvent) => {
+    this.addTap(e.clientX, e.clientY)
   }
 
-  private initializeTouchListeners() {
-    const canvas = document.getElementById('game-canvas')
-    if (!canvas) return
+  private addTap(clientX: number, clientY: number) {
+    const point = this.toCanvasPoint(clientX, clientY)
+    if (point) this.taps.push(point)
+  }
 
-    canvas.addEventListener('touchstart', (e) => {
-      e.preventDefault()
-      Array.from(e.touches).forEach(touch => {
-        this.touches.set(touch.identifier, { x: touch.clientX, y: touch.clientY })
-      })
-      this.updateTouchInput()
-    })
+  // Convert a page point to canvas pixels, which differ when the canvas is scaled by CSS
+  private toCanvasPoint(clientX: number, clientY: number): { x: number; y: number } | null {
+    const canvas = this.touchCanvas
+    if (!canvas) return null
 
-    canvas.addEventListener('touchmove', (e) => {
-      e.preventDefault()
-      Array.from(e.touches).forEach(touch => {
-        this.touches.set(touch.identifier, { x: touch.clientX, y: touch.clientY })
-      })
-      this.updateTouchInput()
-    })
+    const rect = canvas.getBoundingClientRect()
+    if (rect.width === 0 || rect.height === 0) return null
 
-    canvas.addEventListener('touchend', (e) => {
-      e.preventDefault()
-      Array.from(e.changedTouches).forEach(touch => {
-        this.touches.delete(touch.identifier)
-      })
-      this.updateTouchInput()
+    const scaleX = canvas instanceof HTMLCanvasElement ? canvas.width / rect.width : 1
+    const scaleY = canvas instanceof HTMLCanvasElement ? canvas.height / rect.height : 1
+    return {
+      x: (clientX - rect.left) * scaleX,
+      y: (clientY - rect.top) * scaleY
+    }
+  }
+
+  private handleTouchEnd = (e: TouchEvent) => {
+    e.preventDefault()
+    Array.from(e.changedTouches).forEach(touch => {
+      this.touches.delete(touch.identifier)
     })
+    this.updateTouchInput()
+  }
+
+  private initializeTouchListeners(target: HTMLElement | null) {
+    const canvas = target || document.getElementById('game-canvas')
+    if (!canvas) return
+
+    this.touchCanvas = canvas
+    canvas.addEventListener('touchstart', this.handleTouchStart)
+    canvas.addEventListener('touchmove', this.handleTouchUpdate)
+    canvas.addEventListener('touchend', this.handleTouchEnd)
+    canvas.addEventListener('touchcancel', this.handleTouchEnd)
+    canvas.addEventListener('mousedown', this.handleMouseDown)
   }
 
   private updateInputState() {
-    // Keyboard mappings
-    this.inputState.left = this.keys.get('ArrowLeft') || this.keys.get('KeyA') || false
-    this.inputState.right = this.keys.get('ArrowRight') || this.keys.get('KeyD') || false
-    this.inputState.up = this.keys.get('ArrowUp') || this.keys.get('KeyW') || false
-    this.inputState.down = this.keys.get('ArrowDown') || this.keys.get('KeyS') || false
-    this.inputState.jump = this.keys.get('Space') || this.keys.get('KeyJ') || false
-    this.inputState.run = this.keys.get('ShiftLeft') || this.keys.get('ShiftRight') || false
-    this.inputState.action = this.keys.get('KeyX') || this.keys.get('KeyK') || false
+    // Keyboard mappings, from the player's bindings
+    INPUT_ACTIONS.forEach(action => {
+      this.inputState[action] = this.virtualPressed.has(action) ||
+        this.bindings.keysFor(action).some(code => this.keys.get(code))
+    })
   }
 
   private updateTouchInput() {
-    // Reset touch input
-    this.inputState.left = false
-    this.inputState.right = false
-    this.inputState.jump = false
-    this.inputState.run = false
+    const canvas = this.touchCanvas
+    if (!canvas || this.touchControls.getConfig().enabled === false) {
+      this.touchState = InputManager.emptyState()
+      return
+    }
 
-    const canvas = document.getElementById('game-canvas')
-    if (!canvas) return
+    const size = this.getCanvasSize(canvas)
+    this.touchState = this.touchControls.update(this.touches, size.width, size.height)
+  }
 
+  // Canvas pixels, the space touches and the overlay are laid out in
+  private getCanvasSize(canvas: HTMLElement): { width: number; height: number } {
+    if (canvas instanceof HTMLCanvasElement) {
+      return { width: canvas.width, height: canvas.height }
+    }
     const rect = canvas.getBoundingClientRect()
-    const canvasWidth = rect.width
-    const canvasHeight = rect.height
-
-    this.touches.forEach(touch => {
-      const x = touch.x - rect.left
-      const y = touch.y - rect.top
-
-      // Left side of screen for movement
-      if (x < canvasWidth / 2) {
-        if (x < canvasWidth / 4) {
-          this.inputState.left = true
-        } else {
-          this.inputState.right = true
-        }
-      }
-      // Right side for jump
-      else {
-        if (y < canvasHeight / 2) {
-          this.inputState.jump = true
-        } else {
-          this.inputState.run = true
-        }
-      }
-    })
+    return { width: rect.width, height: rect.height }
   }
 
   private resetInputState() {
-    this.inputState = {
+    this.inputState = InputManager.emptyState()
+  }
+
+  private static emptyState(): InputState {
+    return {
       left: false,
       right: false,
       up: false,
@@ -138,8 +190,107 @@ export class InputManager {
     }
   }
 
+  /**
+   * Keyboard and touch, with the active controller (if any) pressed on top
+   */
   public getInput(): InputState {
-    return { ...this.inputState }
+    const state = InputManager.merge(this.inputState, this.touchState)
+    const pad = this.gamepad.poll()
+    return pad ? InputManager.merge(state, pad) : state
+  }
+
+  /**
+   * Menu controls: arrows/W/S/d-pad navigate, Enter/Space/jump/action confirm,
+   * Escape/P/Start pause. Taps are handed out once.
+   */
+  public getMenuInput(): MenuInput {
+    const taps = this.taps
+    this.taps = []
+    const pad = this.gamepad.poll()
+    const touch = InputManager.merge(this.inputState, this.touchState)
+    const state = pad ? InputManager.merge(touch, pad) : touch
+
+    return {
+      up: state.up,
+      down: state.down,
+      confirm: state.jump || state.action || this.isKeyPressed('Enter') || this.isKeyPressed('NumpadEnter'),
+      pause: this.isKeyPressed('Escape') || this.isKeyPressed('KeyP') || (pad?.pause ?? false),
+      taps
+    }
+  }
+
+  private static merge(state: InputState, other: InputState): InputState {
+    return {
+      left: state.left || other.left,
+      right: state.right || other.right,
+      up: state.up || other.up,
+      down: state.down || other.down,
+      jump: state.jump || other.jump,
+      run: state.run || other.run,
+      action: state.action || other.action
+    }
+  }
+
+  /**
+   * Connected controllers
+   */
+  public getGamepads(): GamepadInfo[] {
+    return this.gamepad.getGamepads()
+  }
+
+  /**
+   * Play with one controller, or null to follow whichever was used last
+   */
+  public selectGamepad(index: number | null) {
+    this.gamepad.selectGamepad(index)
+  }
+
+  public getSelectedGamepad(): number | null {
+    return this.gamepad.getSelectedGamepad()
+  }
+
+  public setGamepadDeadZone(deadZone: number) {
+    this.gamepad.setDeadZone(deadZone)
+  }
+
+  public getBindings(): BindingTable {
+    return this.bindings.getTable()
+  }
+
+  /**
+   * Use new key and button bindings (e.g. from the settings panel) straight away
+   */
+  public setBindings(table: BindingTable) {
+    this.bindings.setTable(table)
+    this.updateInputState()
+  }
+
+  public getTouchControls(): TouchControlsConfig {
+    return this.touchControls.getConfig()
+  }
+
+  /**
+   * Change the on-screen controls - layout and size take effect from the next touch
+   */
+  public setTouchControls(config: Partial<TouchControlsConfig>) {
+    this.touchControls.configure(config)
+    this.updateTouchInput()
+  }
+
+  /**
+   * Whether the on-screen controls should be drawn: always, never, or in
+   * 'auto' once the player has touched the screen
+   */
+  public isTouchControlsVisible(): boolean {
+    const { enabled } = this.touchControls.getConfig()
+    return enabled === true || (enabled === 'auto' && this.touchSeen)
+  }
+
+  /**
+   * Stick position and held buttons, for drawing the overlay
+   */
+  public getTouchControlsState(): TouchControlsState {
+    return this.touchControls.getState()
   }
 
   public isKeyPressed(key: string): boolean {
@@ -149,9 +300,33 @@ export class InputManager {
   public reset() {
     this.keys.clear()
     this.touches.clear()
+    this.touchControls.reset()
+    this.touchState = InputManager.emptyState()
+    this.taps = []
+    this.virtualPressed.clear()
     this.resetInputState()
   }
 
+  /**
+   * Detach all window and canvas listeners (when the engine is torn down)
+   */
+  public dispose() {
+    window.removeEventListener('keydown', this.handleKeyDown)
+    window.removeEventListener('keyup', this.handleKeyUp)
+    window.removeEventListener('blur', this.handleBlur)
+    this.gamepad.dispose()
+
+    if (this.touchCanvas) {
+      this.touchCanvas.removeEventListener('touchstart', this.handleTouchStart)
+      this.touchCanvas.removeEventListener('touchmove', this.handleTouchUpdate)
+      this.touchCanvas.removeEventListener('touchend', this.handleTouchEnd)
+      this.touchCanvas.removeEventListener('touchcancel', this.handleTouchEnd)
+      this.touchCanvas.removeEventListener('mousedown', this.handleMouseDown)
+      this.touchCanvas = null
+    }
+    this.reset()
+  }
+
   // Virtual gamepad for mobile
   public createVirtualGamepad() {
     const gamepadHTML = `
@@ -202,13 +377,14 @@ export class InputManager {
   }
 
   private initializeVirtualButtons() {
-    const buttons = [
-      { id: 'btn-left', key: 'ArrowLeft' },
-      { id: 'btn-right', key: 'ArrowRight' },
-      { id: 'btn-up', key: 'ArrowUp' },
-      { id: 'btn-down', key: 'ArrowDown' },
-      { id: 'btn-jump', key: 'Space' },
-      { id: 'btn-action', key: 'KeyX' }
+    // Pressed as actions rather than keys, so they keep working whatever is rebound
+    const buttons: { id: string; action: InputAction }[] = [
+      { id: 'btn-left', action: 'left' },
+      { id: 'btn-right', action: 'right' },
+      { id: 'btn-up', action: 'up' },
+      { id: 'btn-down', action: 'down' },
+      { id: 'btn-jump', action: 'jump' },
+      { id: 'btn-action', action: 'action' }
     ]
 
     buttons.forEach(btn => {
@@ -216,13 +392,13 @@ export class InputManager {
       if (element) {
         element.addEventListener('touchstart', (e) => {
           e.preventDefault()
-          this.keys.set(btn.key, true)
+          this.virtualPressed.add(btn.action)
           this.updateInputState()
         })
 
         element.addEventListener('touchend', (e) => {
           e.preventDefault()
-          this.keys.set(btn.key, false)
+          this.virtualPressed.delete(btn.action)
           this.updateInputState()
         })
       }
@@ -0,0 +1,72 @@
+import { InputSource, InputState } from './InputManager'
+
+type ScriptStep = { input: Partial<InputState>; ticks: number }
+
+/**
+ * ScriptedInput - Input source driven by a fixed script instead of devices,
+ * for stepping levels headlessly
+ *
+ * const input = new ScriptedInput().hold({ right: true }, 120).hold({ right: true, jump: true }, 10)
+ */
+export class ScriptedInput implements InputSource {
+  private steps: ScriptStep[] = []
+  private stepIndex = 0
+  private stepTick = 0
+
+  /**
+   * Hold the given buttons for a number of ticks
+   */
+  public hold(input: Partial<InputState>, ticks: number): this {
+    if (ticks > 0) {
+      this.steps.push({ input, ticks })
+    }
+    return this
+  }
+
+  /**
+   * Press nothing for a number of ticks
+   */
+  public wait(ticks: number): this {
+    return this.hold({}, ticks)
+  }
+
+  public getInput(): InputState {
+    const step = this.steps[this.stepIndex]
+    const input: InputState = {
+      left: false,
+      right: false,
+      up: false,
+      down: false,
+      jump: false,
+      run: false,
+      action: false,
+      ...(step ? step.input : {})
+    }
+
+    if (step) {
+      this.stepTick++
+      if (this.stepTick >= step.ticks) {
+        this.stepIndex++
+        this.stepTick = 0
+      }
+    }
+    return input
+  }
+
+  public isFinished(): boolean {
+    return this.stepIndex >= this.steps.length
+  }
+
+  /**
+   * Total number of ticks the script covers
+   */
+  public getLength(): number {
+    return this.steps.reduce((total, step) => total + step.ticks, 0)
+  }
+
+  public rewind(): this {
+    this.stepIndex = 0
+    this.stepTick = 0
+    return this
+  }
+}
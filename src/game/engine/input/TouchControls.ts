@@ -0,0 +1,183 @@
+import type { InputState } from './InputManager'
+
+export type TouchButtonAction = 'jump' | 'run' | 'action'
+
+export interface TouchControlsConfig {
+  // 'auto' shows the controls once the screen is first touched
+  enabled: boolean | 'auto'
+  // Which side the stick goes on - the buttons take the other
+  stickSide: 'left' | 'right'
+  // 0-1, how visible the controls are while not pressed
+  opacity: number
+  // Size multiplier on the default layout
+  scale: number
+  // Vibrate briefly when a button is pressed, where the device can
+  haptics: boolean
+}
+
+export const DEFAULT_TOUCH_CONTROLS: TouchControlsConfig = {
+  enabled: 'auto',
+  stickSide: 'left',
+  opacity: 0.5,
+  scale: 1,
+  haptics: true
+}
+
+export interface TouchCircle {
+  x: number
+  y: number
+  radius: number
+}
+
+export interface TouchButtonLayout extends TouchCircle {
+  action: TouchButtonAction
+  label: string
+}
+
+export interface TouchControlsLayout {
+  stick: TouchCircle
+  buttons: TouchButtonLayout[]
+}
+
+export interface TouchControlsState {
+  // Knob position, -1 to 1 on each axis
+  stick: { x: number; y: number }
+  pressed: TouchButtonAction[]
+}
+
+// Stick travel (0-1) ignored around the centre
+const STICK_DEAD_ZONE = 0.3
+// A touch this many radii from a control still grabs it - fingers are wider than they look
+const STICK_GRAB = 1.6
+const BUTTON_GRAB = 1.2
+const HAPTIC_MS = 12
+
+/**
+ * TouchControls - On-screen analog stick and buttons for touch screens
+ * Works on the InputManager's touches in canvas pixels: the touch that lands on
+ * the stick drives it until lifted, wherever it wanders, and every other touch
+ * presses whichever buttons it is over.
+ */
+export class TouchControls {
+  private config: TouchControlsConfig
+  private stickTouch: number | null = null
+  private stick = { x: 0, y: 0 }
+  private pressed: Set<TouchButtonAction> = new Set()
+
+  constructor(config: Partial<TouchControlsConfig> = {}) {
+    this.config = { ...DEFAULT_TOUCH_CONTROLS, ...config }
+  }
+
+  public configure(config: Partial<TouchControlsConfig>) {
+    this.config = { ...this.config, ...config }
+  }
+
+  public getConfig(): TouchControlsConfig {
+    return { ...this.config }
+  }
+
+  /**
+   * Where the controls sit on a canvas this size - the stick in one bottom
+   * corner, jump/run/action in a fan in the other
+   */
+  static getLayout(config: TouchControlsConfig, width: number, height: number): TouchControlsLayout {
+    const stickRadius = Math.min(width, height) * 0.11 * config.scale
+    const buttonRadius = stickRadius * 0.5
+    const margin = Math.min(width, height) * 0.05
+
+    // Laid out for a left-hand stick, then mirrored
+    const side = (x: number) => config.stickSide === 'left' ? x : width - x
+    const jumpX = width - margin - buttonRadius
+    const jumpY = height - margin - buttonRadius
+
+    return {
+      stick: { x: side(margin + stickRadius), y: height - margin - stickRadius, radius: stickRadius },
+      buttons: [
+        { action: 'jump', label: 'A', x: side(jumpX), y: jumpY, radius: buttonRadius },
+        { action: 'run', label: 'X', x: side(jumpX - buttonRadius * 2.6), y: jumpY, radius: buttonRadius },
+        { action: 'action', label: 'B', x: side(jumpX - buttonRadius * 1.3), y: jumpY - buttonRadius * 2.4, radius: buttonRadius }
+      ]
+    }
+  }
+
+  /**
+   * Work out what the current touches press. Touches are in canvas pixels.
+   */
+  public update(touches: Map<number, { x: number; y: number }>, width: number, height: number): InputState {
+    const layout = TouchControls.getLayout(this.config, width, height)
+    const { stick } = layout
+
+    // The stick lets go when its finger lifts, and grabs a new one that lands on it
+    if (this.stickTouch !== null && !touches.has(this.stickTouch)) {
+      this.stickTouch = null
+    }
+    if (this.stickTouch === null) {
+      touches.forEach((touch, id) => {
+        if (this.stickTouch === null && Math.hypot(touch.x - stick.x, touch.y - stick.y) <= stick.radius * STICK_GRAB) {
+          this.stickTouch = id
+        }
+      })
+    }
+
+    const stickTouch = this.stickTouch !== null ? touches.get(this.stickTouch) : undefined
+    if (stickTouch) {
+      let x = (stickTouch.x - stick.x) / stick.radius
+      let y = (stickTouch.y - stick.y) / stick.radius
+      const length = Math.hypot(x, y)
+      if (length > 1) {
+        x /= length
+        y /= length
+      }
+      this.stick = { x, y }
+    } else {
+      this.stick = { x: 0, y: 0 }
+    }
+
+    const pressed = new Set<TouchButtonAction>()
+    touches.forEach((touch, id) => {
+      if (id === this.stickTouch) return
+      layout.buttons.forEach(button => {
+        if (Math.hypot(touch.x - button.x, touch.y - button.y) <= button.radius * BUTTON_GRAB) {
+          pressed.add(button.action)
+        }
+      })
+    })
+
+    if (this.config.haptics && Array.from(pressed).some(action => !this.pressed.has(action))) {
+      TouchControls.vibrate()
+    }
+    this.pressed = pressed
+
+    // 8-way: an axis needs half the push to count, so pushing sideways doesn't also duck
+    const magnitude = Math.hypot(this.stick.x, this.stick.y)
+    const axis = (value: number) => magnitude < STICK_DEAD_ZONE || Math.abs(value) < Math.max(STICK_DEAD_ZONE, magnitude * 0.5) ? 0 : Math.sign(value)
+    const x = axis(this.stick.x)
+    const y = axis(this.stick.y)
+
+    return {
+      left: x < 0,
+      right: x > 0,
+      up: y < 0,
+      down: y > 0,
+      jump: pressed.has('jump'),
+      run: pressed.has('run'),
+      action: pressed.has('action')
+    }
+  }
+
+  public getState(): TouchControlsState {
+    return { stick: { ...this.stick }, pressed: Array.from(this.pressed) }
+  }
+
+  public reset() {
+    this.stickTouch = null
+    this.stick = { x: 0, y: 0 }
+    this.pressed.clear()
+  }
+
+  private static vibrate() {
+    if (typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function') {
+      navigator.vibrate(HAPTIC_MS)
+    }
+  }
+}
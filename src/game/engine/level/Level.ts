@@ -1,27 +1,46 @@
 import { Platform } from './Platform'
 import { Polygon } from './Polygon'
+import { Region } from './Region'
 import { Enemy } from '../entities/Enemy'
 import { Coin } from '../entities/Coin'
 import { PowerUp } from '../entities/PowerUp'
+import { Checkpoint } from '../entities/Checkpoint'
 import { Entity } from '../entities/Entity'
+import { DEFAULT_WORLD_SIZE } from '../schema/LevelSchema'
+import type { LevelBackground, LevelCamera, MusicMood, RegionType } from '../schema/LevelSchema'
+import { SpatialGrid } from '../physics/SpatialGrid'
+import type { AABB } from '../physics/PhysicsEngine'
 
 export class Level {
   private platforms: Platform[] = []
   private polygons: Polygon[] = []
+  private regions: Region[] = []
   private entities: Entity[] = []
-  private levelWidth = 3000
-  private levelHeight = 600
-  private background = 'sky'
+  private checkpoints: Checkpoint[] = []
+  // Broadphase indexes so collision checks only look at nearby shapes
+  private platformGrid = new SpatialGrid<Platform>()
+  private polygonGrid = new SpatialGrid<Polygon>()
+  private regionGrid = new SpatialGrid<Region>()
+  private levelWidth = DEFAULT_WORLD_SIZE.width
+  private levelHeight = DEFAULT_WORLD_SIZE.height
+  private background: LevelBackground = 'sky'
+  // Rooms reached through warp pipes, by id
+  private areas: Map<string, Level> = new Map()
+  private camera: LevelCamera = {}
+  private music: MusicMood = 'overworld'
 
   public addPlatform(x: number, y: number, width: number, height: number, type = 'normal'): Platform {
     const platform = new Platform(x, y, width, height, type)
     this.platforms.push(platform)
+    this.platformGrid.insert(platform, { x, y, width, height })
     return platform
   }
 
   public addPolygon(contours: number[][], type = 'polygon'): Polygon {
     const polygon = new Polygon(contours, type)
     this.polygons.push(polygon)
+    const bounds = polygon.getBounds()
+    this.polygonGrid.insert(polygon, { x: bounds.left, y: bounds.top, width: bounds.right - bounds.left, height: bounds.bottom - bounds.top })
     return polygon
   }
 
@@ -43,18 +62,79 @@ export class Level {
     return powerUp
   }
 
+  public addCheckpoint(x: number, y: number): Checkpoint {
+    const checkpoint = new Checkpoint(x, y, this.checkpoints.length)
+    this.checkpoints.push(checkpoint)
+    this.entities.push(checkpoint)
+    return checkpoint
+  }
+
   public getPlatforms(): Platform[] {
     return this.platforms
   }
 
+  /**
+   * Platforms with a path or trigger, which need updating every tick
+   */
+  public getMovingPlatforms(): Platform[] {
+    return this.platforms.filter(platform => platform.motion !== null)
+  }
+
+  /**
+   * Re-index a platform after it has moved
+   */
+  public updatePlatformBounds(platform: Platform) {
+    this.platformGrid.update(platform, { x: platform.x, y: platform.y, width: platform.width, height: platform.height })
+  }
+
   public getPolygons(): Polygon[] {
     return this.polygons
   }
 
+  public addRegion(contours: number[][], material: RegionType, speed?: number): Region {
+    const region = new Region(contours, material, speed)
+    this.regions.push(region)
+    const bounds = region.getBounds()
+    this.regionGrid.insert(region, { x: bounds.left, y: bounds.top, width: bounds.right - bounds.left, height: bounds.bottom - bounds.top })
+    return region
+  }
+
+  public getRegions(): Region[] {
+    return this.regions
+  }
+
+  /**
+   * Platforms whose bounds may overlap the area - a superset, in level order
+   */
+  public getPlatformsIn(area: AABB): Platform[] {
+    return this.platformGrid.query(area)
+  }
+
+  /**
+   * Polygons whose bounds may overlap the area - a superset, in level order
+   */
+  public getPolygonsIn(area: AABB): Polygon[] {
+    return this.polygonGrid.query(area)
+  }
+
+  /**
+   * Regions whose bounds may overlap the area - a superset, in level order
+   */
+  public getRegionsIn(area: AABB): Region[] {
+    return this.regionGrid.query(area)
+  }
+
   public getEntities(): Entity[] {
     return this.entities
   }
 
+  /**
+   * Checkpoints in level order, so an index from pack progress finds the same flag
+   */
+  public getCheckpoints(): Checkpoint[] {
+    return this.checkpoints
+  }
+
   public getWidth(): number {
     return this.levelWidth
   }
@@ -68,18 +148,52 @@ export class Level {
     this.levelHeight = height
   }
 
-  public setBackground(background: string) {
+  public setCamera(camera: LevelCamera) {
+    this.camera = camera
+  }
+
+  public getCamera(): LevelCamera {
+    return this.camera
+  }
+
+  public setMusic(music: MusicMood) {
+    this.music = music
+  }
+
+  public getMusic(): MusicMood {
+    return this.music
+  }
+
+  public setBackground(background: LevelBackground) {
     this.background = background
   }
 
-  public getBackground(): string {
+  public getBackground(): LevelBackground {
     return this.background
   }
 
+  public addArea(id: string, area: Level) {
+    this.areas.set(id, area)
+  }
+
+  public getArea(id: string): Level | null {
+    return this.areas.get(id) || null
+  }
+
+  public getAreas(): Map<string, Level> {
+    return this.areas
+  }
+
   public clear() {
     this.platforms = []
     this.polygons = []
+    this.regions = []
     this.entities = []
+    this.checkpoints = []
+    this.areas.clear()
+    this.platformGrid.clear()
+    this.polygonGrid.clear()
+    this.regionGrid.clear()
   }
 
   public removePlatform(platform: Platform) {
@@ -87,6 +201,7 @@ export class Level {
     if (index > -1) {
       this.platforms.splice(index, 1)
     }
+    this.platformGrid.remove(platform)
   }
 
   public removePolygon(polygon: Polygon) {
@@ -94,6 +209,7 @@ export class Level {
     if (index > -1) {
       this.polygons.splice(index, 1)
     }
+    this.polygonGrid.remove(polygon)
   }
 
   public removeEntity(entity: Entity) {
@@ -104,7 +220,7 @@ export class Level {
   }
 
   public getPlatformAt(x: number, y: number): Platform | null {
-    for (const platform of this.platforms) {
+    for (const platform of this.platformGrid.query({ x, y, width: 0, height: 0 })) {
       if (x >= platform.x && x <= platform.x + platform.width &&
           y >= platform.y && y <= platform.y + platform.height) {
         return platform
@@ -1,3 +1,12 @@
+import type { BlockContents, LevelPlatformPath, LevelWarp, PlatformTrigger } from '../schema/LevelSchema'
+import { PlatformMotion } from './PlatformMotion'
+
+// Coins a 'coins' block pays out before it is used up
+const MULTI_COIN_COUNT = 10
+// Seconds a hit block bounces for, and how high
+const BUMP_DURATION = 0.2
+const BUMP_HEIGHT = 8
+
 export class Platform {
   public x: number
   public y: number
@@ -8,6 +17,20 @@ export class Platform {
   public breakable = false
   public isGoal = false
   public invisible = false
+  // What the block gives when hit from below - null for plain bricks and everything else
+  public contents: BlockContents | null = null
+  // Emptied blocks stay behind as solid used blocks
+  public used = false
+  // Hidden blocks can't be seen or stood on until hit from below
+  public hidden = false
+  // Can be jumped up through and only landed on from above
+  public oneWay = false
+  // Paths and falling or crumbling triggers - null for platforms that stay put
+  public motion: PlatformMotion | null = null
+  // Where going down this pipe leads - null for everything that isn't a warp pipe
+  public warp: LevelWarp | null = null
+  private payouts = 0
+  private bumpTime = 0
 
   constructor(x: number, y: number, width: number, height: number, type = 'normal') {
     this.x = x
@@ -26,6 +49,12 @@ export class Platform {
         break
       case 'question':
         this.breakable = false
+        this.setContents('coin')
+        break
+      case 'hidden':
+        this.hidden = true
+        this.invisible = true
+        this.setContents('1up')
         break
       case 'goal_pipe':
         this.isGoal = true
@@ -37,6 +66,77 @@ export class Platform {
     }
   }
 
+  /**
+   * Blocks react to being hit from below
+   */
+  public isBlock(): boolean {
+    return this.type === 'brick' || this.type === 'question' || this.type === 'hidden'
+  }
+
+  public setContents(contents: BlockContents | null) {
+    this.contents = contents
+    this.payouts = contents === 'coins' ? MULTI_COIN_COUNT : contents ? 1 : 0
+  }
+
+  /**
+   * Hand out one of the block's contents, using it up once it is empty -
+   * null when there is nothing (left) inside
+   */
+  public takeContents(): BlockContents | null {
+    if (!this.contents || this.used) return null
+
+    const contents = this.contents
+    this.payouts--
+    if (this.payouts <= 0) {
+      this.used = true
+    }
+    return contents
+  }
+
+  /**
+   * A hidden block that has been found becomes an ordinary solid block
+   */
+  public reveal() {
+    this.hidden = false
+    this.invisible = false
+  }
+
+  /**
+   * Give the platform a path to follow and/or a trigger, or null for neither
+   */
+  public setMotion(path: LevelPlatformPath | null, trigger: PlatformTrigger | null) {
+    this.motion = path || trigger ? new PlatformMotion(this, path, trigger) : null
+  }
+
+  /**
+   * False while a crumbled or fallen platform is waiting to reappear
+   */
+  public isPresent(): boolean {
+    return !this.motion || !this.motion.isGone()
+  }
+
+  /**
+   * Start the bounce a block does when hit
+   */
+  public bump() {
+    this.bumpTime = BUMP_DURATION
+  }
+
+  /**
+   * Advance the bounce - false once it has finished
+   */
+  public updateBump(dt: number): boolean {
+    this.bumpTime = Math.max(0, this.bumpTime - dt)
+    return this.bumpTime > 0
+  }
+
+  /**
+   * How far the block is drawn above its place, mid-bounce
+   */
+  public getBumpOffset(): number {
+    return Math.sin((this.bumpTime / BUMP_DURATION) * Math.PI) * BUMP_HEIGHT
+  }
+
   public getBounds() {
     return {
       left: this.x,
@@ -0,0 +1,164 @@
+import type { LevelPlatformPath, PlatformTrigger } from '../schema/LevelSchema'
+import type { Vector2D } from '../physics/PhysicsEngine'
+import type { Platform } from './Platform'
+
+export type PlatformMotionState = 'idle' | 'triggered' | 'falling' | 'gone'
+
+// Seconds a falling platform holds once stood on, and a crumbling one shakes before breaking up
+const FALL_DELAY = 0.5
+const CRUMBLE_DELAY = 0.6
+// Pixels per second squared, and the fastest a platform falls
+const FALL_GRAVITY = 900
+const MAX_FALL_SPEED = 600
+// Seconds before a platform that fell away or crumbled is back where it started
+const RESPAWN_TIME = 3
+// How far a triggered platform shakes either side
+const SHAKE_DISTANCE = 2
+
+/**
+ * PlatformMotion - Moves a platform along its path and runs its falling or
+ * crumbling trigger. Carrying whatever stands on it is left to the physics.
+ */
+export class PlatformMotion {
+  public readonly path: LevelPlatformPath | null
+  public readonly trigger: PlatformTrigger | null
+  private state: PlatformMotionState = 'idle'
+  // Absolute waypoints, starting with where the platform was placed
+  private route: Vector2D[]
+  private target = 1
+  private heading = 1
+  private timer = 0
+  private fallSpeed = 0
+  // Where the platform was at the start of the tick, to draw it between ticks
+  private previous: Vector2D
+
+  constructor(platform: Platform, path: LevelPlatformPath | null, trigger: PlatformTrigger | null) {
+    this.path = path
+    this.trigger = trigger
+    this.route = [{ x: platform.x, y: platform.y }, ...(path ? path.points.map(([dx, dy]) => ({ x: platform.x + dx, y: platform.y + dy })) : [])]
+    this.previous = { x: platform.x, y: platform.y }
+  }
+
+  public getState(): PlatformMotionState {
+    return this.state
+  }
+
+  public isGone(): boolean {
+    return this.state === 'gone'
+  }
+
+  /**
+   * Something is standing on the platform - starts its trigger
+   */
+  public standOn() {
+    if (!this.trigger || this.state !== 'idle') return
+    this.state = 'triggered'
+    this.timer = this.trigger === 'falling' ? FALL_DELAY : CRUMBLE_DELAY
+  }
+
+  /**
+   * Advance one tick, moving the platform - returns how far it moved, which
+   * is zero when it reappears at its start
+   */
+  public update(platform: Platform, dt: number, worldHeight: number): Vector2D {
+    this.previous = { x: platform.x, y: platform.y }
+
+    switch (this.state) {
+      case 'triggered':
+        this.timer -= dt
+        if (this.timer <= 0) {
+          if (this.trigger === 'falling') {
+            this.state = 'falling'
+            this.fallSpeed = 0
+          } else {
+            this.disappear()
+          }
+        }
+        break
+
+      case 'falling':
+        this.fallSpeed = Math.min(MAX_FALL_SPEED, this.fallSpeed + FALL_GRAVITY * dt)
+        platform.y += this.fallSpeed * dt
+        if (platform.y > worldHeight) {
+          this.disappear()
+        }
+        // A falling platform has left its path behind
+        return { x: platform.x - this.previous.x, y: platform.y - this.previous.y }
+
+      case 'gone':
+        this.timer -= dt
+        if (this.timer <= 0) {
+          this.respawn(platform)
+          return { x: 0, y: 0 }
+        }
+        break
+    }
+
+    if (this.path) {
+      this.followPath(platform, this.path.speed * dt)
+    }
+    return { x: platform.x - this.previous.x, y: platform.y - this.previous.y }
+  }
+
+  private followPath(platform: Platform, distance: number) {
+    // Bounded so a path whose points all sit on top of each other can't spin forever
+    for (let i = 0; i < this.route.length * 2 && distance > 0; i++) {
+      const target = this.route[this.target]
+      const dx = target.x - platform.x
+      const dy = target.y - platform.y
+      const length = Math.sqrt(dx * dx + dy * dy)
+
+      if (length > distance) {
+        platform.x += dx / length * distance
+        platform.y += dy / length * distance
+        return
+      }
+
+      platform.x = target.x
+      platform.y = target.y
+      distance -= length
+      this.nextWaypoint()
+    }
+  }
+
+  private nextWaypoint() {
+    if (this.path?.mode === 'loop') {
+      this.target = (this.target + 1) % this.route.length
+      return
+    }
+    // Linear paths turn back at either end
+    if (this.target + this.heading < 0 || this.target + this.heading >= this.route.length) {
+      this.heading = -this.heading
+    }
+    this.target += this.heading
+  }
+
+  private disappear() {
+    this.state = 'gone'
+    this.timer = RESPAWN_TIME
+  }
+
+  private respawn(platform: Platform) {
+    platform.x = this.route[0].x
+    platform.y = this.route[0].y
+    this.previous = { x: platform.x, y: platform.y }
+    this.target = 1 % this.route.length
+    this.heading = 1
+    this.state = 'idle'
+  }
+
+  /**
+   * Where to draw the platform relative to its position - blended back towards
+   * last tick's position by alpha (0..1), plus a shake once triggered
+   */
+  public getDrawOffset(platform: Platform, alpha: number): Vector2D {
+    const offset = {
+      x: (this.previous.x - platform.x) * (1 - alpha),
+      y: (this.previous.y - platform.y) * (1 - alpha)
+    }
+    if (this.state === 'triggered') {
+      offset.x += Math.sin(this.timer * 60) * SHAKE_DISTANCE
+    }
+    return offset
+  }
+}
@@ -0,0 +1,29 @@
+import { Polygon } from './Polygon'
+import type { RegionType } from '../schema/LevelSchema'
+
+// Pixels per second a conveyor runs at when the level doesn't say
+export const DEFAULT_CONVEYOR_SPEED = 60
+
+/**
+ * Region - An outline that changes how things move inside it instead of
+ * blocking them: water, lava, bottomless pits, ice and conveyor belts
+ */
+export class Region extends Polygon {
+  public readonly material: RegionType
+  // Pixels per second a conveyor carries what stands on it - 0 for everything else
+  public readonly speed: number
+
+  constructor(contours: number[][], material: RegionType, speed?: number) {
+    super(contours, material)
+    this.material = material
+    this.speed = material === 'conveyor' ? speed ?? DEFAULT_CONVEYOR_SPEED : 0
+    this.solid = false
+  }
+
+  /**
+   * Lava and pits cost the player a life and destroy anything else that falls in
+   */
+  public isDeadly(): boolean {
+    return this.material === 'lava' || this.material === 'pit'
+  }
+}
@@ -1,6 +1,7 @@
 import { Entity } from '../entities/Entity'
 import { Platform } from '../level/Platform'
 import { Polygon } from '../level/Polygon'
+import { Region } from '../level/Region'
 
 export interface Vector2D {
   x: number
@@ -14,7 +15,45 @@ export interface AABB {
   height: number
 }
 
+interface SweepHit {
+  time: number
+  normal: Vector2D
+  // The platform hit, null for polygon edges
+  platform: Platform | null
+}
+
+interface Segment {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+}
+
+// Gap left between an entity and whatever it touches
+const SKIN = 0.1
+// Surfaces whose normal points at least this far up can be stood on (about 45 degrees)
+const WALKABLE_NORMAL_Y = 0.7
+// Surfaces whose normal points at least this far down stop upward movement
+const CEILING_NORMAL_Y = 0.7
+// Tallest bump a grounded entity walks over, and how far it is pulled down to stay on slopes
+const STEP_HEIGHT = 8
+// Collide-and-slide passes per tick - enough for a corner between two surfaces
+const MAX_SLIDES = 4
+const MIN_MOVE = 0.0001
+// Water: share of gravity still felt, velocity kept each tick, and the fastest anything sinks
+const WATER_GRAVITY = 0.35
+const WATER_DRAG = 0.92
+const WATER_MAX_FALL = 3
+// Ground friction on ice - close to none
+const ICE_FRICTION = 0.98
+// How far below an entity's feet ice and conveyors are looked for
+const FOOT_PROBE = 2
+
 export class PhysicsEngine {
+  // Tuning constants below are expressed per tick at this rate, which is also
+  // the rate GameEngine runs at - player and enemy impulses aren't scaled by dt
+  public static readonly REFERENCE_TICK_RATE = 60
+
   private gravity: number
   private friction = 0.85
   private airResistance = 0.98
@@ -24,12 +63,15 @@ export class PhysicsEngine {
     this.gravity = gravity
   }
 
-  public updateEntity(entity: Entity, _dt: number, platforms: Platform[] = []) {
+  public updateEntity(entity: Entity, dt: number, platforms: Platform[] = [], polygons: Polygon[] = [], regions: Region[] = []) {
     if (!entity.physics) return
 
     const vel = entity.velocity
     const pos = entity.position
 
+    // Scale per-tick constants by how much of a reference tick dt covers
+    const step = dt * PhysicsEngine.REFERENCE_TICK_RATE
+
     // Store previous position for collision detection
     if (!entity.previousPosition) {
       entity.previousPosition = { x: pos.x, y: pos.y }
@@ -38,71 +80,300 @@ export class PhysicsEngine {
       entity.previousPosition.y = pos.y
     }
 
+    // Water is judged at the entity's middle, ice and conveyors under its feet
+    const box = this.getBounds(entity)
+    const centerX = box.x + box.width / 2
+    const feet = entity.grounded ? this.regionAt(regions, centerX, box.y + box.height + FOOT_PROBE) : null
+    const water = this.regionAt(regions, centerX, box.y + box.height / 2, 'water')
+    entity.inWater = !!water
+
     // Apply gravity if not grounded
     if (!entity.grounded && entity.physics.gravity) {
-      vel.y += this.gravity
+      vel.y += this.gravity * (water ? WATER_GRAVITY : 1) * step
     }
 
     // Apply friction
     if (entity.grounded) {
-      vel.x *= this.friction
+      vel.x *= Math.pow(feet?.material === 'ice' ? ICE_FRICTION : this.friction, step)
     } else {
-      vel.x *= this.airResistance
+      vel.x *= Math.pow(this.airResistance, step)
+    }
+    if (water) {
+      vel.x *= Math.pow(WATER_DRAG, step)
+      vel.y *= Math.pow(WATER_DRAG, step)
     }
 
     // Clamp velocity
     vel.x = Math.max(-this.maxVelocity.x, Math.min(this.maxVelocity.x, vel.x))
-    vel.y = Math.max(-this.maxVelocity.y, Math.min(this.maxVelocity.y, vel.y))
+    vel.y = Math.max(-this.maxVelocity.y, Math.min(water ? WATER_MAX_FALL : this.maxVelocity.y, vel.y))
+
+    // Sweep the entity's box through platforms and polygon edges, sliding along
+    // whatever it hits so it neither tunnels through thin shapes nor sticks to slopes
+    const wasGrounded = entity.grounded
+    entity.grounded = false
+    entity.groundNormal = null
+    entity.groundPlatform = null
+    entity.wallCollision.left = false
+    entity.wallCollision.right = false
+    entity.ceilingCollision = false
+
+    // A conveyor moves whatever stands on it without changing its velocity,
+    // so stepping off doesn't fling it
+    const belt = feet?.material === 'conveyor' ? feet.speed * dt : 0
+    let remaining = { x: vel.x * step + belt, y: vel.y * step }
+    for (let i = 0; i < MAX_SLIDES; i++) {
+      if (Math.abs(remaining.x) < MIN_MOVE && Math.abs(remaining.y) < MIN_MOVE) break
+
+      const hit = this.sweep(entity, remaining, platforms, polygons)
+      if (!hit) {
+        pos.x += remaining.x
+        pos.y += remaining.y
+        break
+      }
 
-    // Use Swept AABB for collision detection to prevent tunneling
-    const movement = { x: vel.x, y: vel.y }
-    const sweptResult = this.sweptAABB(entity, movement, platforms)
+      // Move up to the contact point, then back off slightly to prevent sticking
+      pos.x += remaining.x * hit.time + hit.normal.x * SKIN
+      pos.y += remaining.y * hit.time + hit.normal.y * SKIN
+      const rest = { x: remaining.x * (1 - hit.time), y: remaining.y * (1 - hit.time) }
 
-    if (sweptResult.hit && sweptResult.time < 1.0) {
-      // Collision detected - move entity to collision point
-      pos.x += movement.x * sweptResult.time
-      pos.y += movement.y * sweptResult.time
+      // Small bumps in hand-drawn outlines would otherwise stop a walking entity dead
+      if (!this.isWalkable(hit.normal) && hit.normal.y < CEILING_NORMAL_Y && (wasGrounded || entity.grounded) &&
+          this.stepUp(entity, rest.x, platforms, polygons)) {
+        break
+      }
 
-      // Resolve collision based on normal
-      if (Math.abs(sweptResult.normal.x) > 0.5) {
-        // Horizontal collision
-        vel.x = 0
-        if (sweptResult.normal.x < 0) {
-          entity.wallCollision.right = true
-        } else {
-          entity.wallCollision.left = true
-        }
+      this.applyContact(entity, hit.normal, hit.platform)
+
+      // Carry on along the surface with whatever movement is left
+      const into = rest.x * hit.normal.x + rest.y * hit.normal.y
+      remaining = into < 0
+        ? { x: rest.x - into * hit.normal.x, y: rest.y - into * hit.normal.y }
+        : rest
+    }
+
+    // Stay on the ground walking down slopes and over small dips instead of
+    // launching off every edge and falling a tick later
+    if (wasGrounded && !entity.grounded && vel.y >= 0) {
+      const snapDistance = STEP_HEIGHT + Math.abs(vel.x * step + belt)
+      const ground = this.sweep(entity, { x: 0, y: snapDistance }, platforms, polygons)
+      if (ground && this.isWalkable(ground.normal)) {
+        pos.x += ground.normal.x * SKIN
+        pos.y += snapDistance * ground.time + ground.normal.y * SKIN
+        this.applyContact(entity, ground.normal, ground.platform)
       }
+    }
+  }
 
-      if (Math.abs(sweptResult.normal.y) > 0.5) {
-        // Vertical collision
-        if (sweptResult.normal.y < 0) {
-          entity.grounded = true
-          vel.y = 0
-        } else {
-          entity.ceilingCollision = true
-          vel.y = 0
+  /**
+   * The first region containing the point, optionally only of one material
+   */
+  private regionAt(regions: Region[], x: number, y: number, material?: Region['material']): Region | null {
+    return regions.find(region => (!material || region.material === material) && region.contains(x, y)) ?? null
+  }
+
+  /**
+   * Move an entity along with the platform it is riding. The ride is swept
+   * like any other movement, so a platform can't carry its riders into walls;
+   * leave the platform doing the carrying out of `platforms`.
+   */
+  public carry(entity: Entity, movement: Vector2D, platforms: Platform[] = [], polygons: Polygon[] = []) {
+    const pos = entity.position
+    let remaining = { x: movement.x, y: movement.y }
+    for (let i = 0; i < MAX_SLIDES; i++) {
+      if (Math.abs(remaining.x) < MIN_MOVE && Math.abs(remaining.y) < MIN_MOVE) break
+
+      const hit = this.sweep(entity, remaining, platforms, polygons)
+      if (!hit) {
+        pos.x += remaining.x
+        pos.y += remaining.y
+        break
+      }
+
+      pos.x += remaining.x * hit.time + hit.normal.x * SKIN
+      pos.y += remaining.y * hit.time + hit.normal.y * SKIN
+      const rest = { x: remaining.x * (1 - hit.time), y: remaining.y * (1 - hit.time) }
+      const into = rest.x * hit.normal.x + rest.y * hit.normal.y
+      remaining = into < 0
+        ? { x: rest.x - into * hit.normal.x, y: rest.y - into * hit.normal.y }
+        : rest
+    }
+  }
+
+  /**
+   * Nearest thing the entity's box hits moving by `movement`, as a fraction
+   * of the movement and the surface normal facing the entity
+   */
+  private sweep(entity: Entity, movement: Vector2D, platforms: Platform[], polygons: Polygon[]): SweepHit | null {
+    const platformHit = this.sweptAABB(entity, movement, platforms)
+    let nearest: SweepHit | null = platformHit.hit && platformHit.time < 1
+      ? { time: platformHit.time, normal: platformHit.normal, platform: platformHit.platform }
+      : null
+
+    const box = this.getAABB(entity)
+    const sweptBox = this.getSweptAABB(box, movement)
+    for (const polygon of polygons) {
+      const bounds = polygon.getBounds()
+      if (!this.isColliding(sweptBox, { x: bounds.left, y: bounds.top, width: bounds.right - bounds.left, height: bounds.bottom - bounds.top })) {
+        continue
+      }
+
+      for (const segment of polygon.getSegments()) {
+        const hit = this.sweepBoxSegment(box, movement, segment)
+        if (hit && (!nearest || hit.time < nearest.time)) {
+          nearest = hit
         }
       }
+    }
 
-      // Add small buffer to prevent sticking
-      pos.x += sweptResult.normal.x * 0.1
-      pos.y += sweptResult.normal.y * 0.1
-    } else {
-      // No collision - apply full movement
-      pos.x += movement.x
-      pos.y += movement.y
+    return nearest
+  }
+
+  /**
+   * Separating axis test for a moving box against one polygon edge. The axes
+   * are the box's two and the edge's normal; the box first touches the edge
+   * when it has entered the overlap range on all three.
+   */
+  private sweepBoxSegment(box: AABB, movement: Vector2D, segment: Segment): SweepHit | null {
+    const edgeX = segment.x2 - segment.x1
+    const edgeY = segment.y2 - segment.y1
+    const length = Math.sqrt(edgeX * edgeX + edgeY * edgeY)
+    if (length < 0.0001) return null
+
+    const halfWidth = box.width / 2
+    const halfHeight = box.height / 2
+    const centerX = box.x + halfWidth
+    const centerY = box.y + halfHeight
+    const axes = [{ x: 1, y: 0 }, { x: 0, y: 1 }, { x: -edgeY / length, y: edgeX / length }]
+
+    let enter = -Infinity
+    let exit = Infinity
+    let normal: Vector2D | null = null
+
+    for (const axis of axes) {
+      const center = centerX * axis.x + centerY * axis.y
+      const radius = halfWidth * Math.abs(axis.x) + halfHeight * Math.abs(axis.y)
+      const p1 = segment.x1 * axis.x + segment.y1 * axis.y
+      const p2 = segment.x2 * axis.x + segment.y2 * axis.y
+      const edgeMin = Math.min(p1, p2)
+      const edgeMax = Math.max(p1, p2)
+      const speed = movement.x * axis.x + movement.y * axis.y
+
+      if (Math.abs(speed) < 0.0001) {
+        // Not moving along this axis - separated on it means never touching
+        if (center + radius <= edgeMin || center - radius >= edgeMax) return null
+        continue
+      }
+
+      const t0 = (edgeMin - (center + radius)) / speed
+      const t1 = (edgeMax - (center - radius)) / speed
+      const axisEnter = Math.min(t0, t1)
+      if (axisEnter > enter) {
+        enter = axisEnter
+        normal = speed > 0 ? { x: -axis.x, y: -axis.y } : { x: axis.x, y: axis.y }
+      }
+      exit = Math.min(exit, Math.max(t0, t1))
+
+      // Only grazing the edge, or never overlapping on every axis at once
+      if (enter >= exit) return null
+    }
+
+    // Already overlapping at the start (beyond rounding error) is left to
+    // checkPolygonCollision to push out of
+    if (!normal || enter < -0.001 || enter > 1) return null
+
+    return { time: Math.max(0, enter), normal, platform: null }
+  }
+
+  /**
+   * Lift the entity over a ledge no taller than STEP_HEIGHT and set it down on
+   * the other side. Leaves the entity untouched and returns false if it can't.
+   */
+  private stepUp(entity: Entity, moveX: number, platforms: Platform[], polygons: Polygon[]): boolean {
+    if (Math.abs(moveX) < MIN_MOVE) return false
+
+    const pos = entity.position
+    const start = { x: pos.x, y: pos.y }
+
+    const ceiling = this.sweep(entity, { x: 0, y: -STEP_HEIGHT }, platforms, polygons)
+    const lift = ceiling ? STEP_HEIGHT * ceiling.time - SKIN : STEP_HEIGHT
+    if (lift < 1) return false
+    pos.y -= lift
+
+    const wall = this.sweep(entity, { x: moveX, y: 0 }, platforms, polygons)
+    const advance = wall ? moveX * wall.time : moveX
+    if (Math.abs(advance) < MIN_MOVE) {
+      pos.y = start.y
+      return false
+    }
+    pos.x += advance + (wall ? wall.normal.x * SKIN : 0)
 
-      // Reset collision states
-      entity.grounded = false
-      entity.wallCollision.left = false
-      entity.wallCollision.right = false
-      entity.ceilingCollision = false
+    const drop = lift + SKIN * 2
+    const ground = this.sweep(entity, { x: 0, y: drop }, platforms, polygons)
+    if (!ground || !this.isWalkable(ground.normal)) {
+      pos.x = start.x
+      pos.y = start.y
+      return false
+    }
+
+    pos.y += drop * ground.time + ground.normal.y * SKIN
+    this.applyContact(entity, ground.normal, ground.platform)
+    return true
+  }
+
+  private isWalkable(normal: Vector2D): boolean {
+    return normal.y <= -WALKABLE_NORMAL_Y
+  }
+
+  /**
+   * Update collision flags and velocity for touching a surface with this normal
+   */
+  private applyContact(entity: Entity, normal: Vector2D, platform: Platform | null) {
+    const vel = entity.velocity
+
+    if (this.isWalkable(normal)) {
+      // Floors and walkable slopes - land, but keep running speed so slopes can be climbed
+      entity.grounded = true
+      entity.groundNormal = { x: normal.x, y: normal.y }
+      entity.groundPlatform = platform
+      if (vel.y > 0) vel.y = 0
+      return
+    }
+
+    if (normal.y >= CEILING_NORMAL_Y) {
+      entity.ceilingCollision = true
+      if (vel.y < 0) vel.y = 0
+      return
+    }
+
+    // Walls and slopes too steep to stand on - drop the velocity into the surface
+    // so the entity slides down them under gravity
+    if (normal.x < -0.5) entity.wallCollision.right = true
+    if (normal.x > 0.5) entity.wallCollision.left = true
+    const into = vel.x * normal.x + vel.y * normal.y
+    if (into < 0) {
+      vel.x -= into * normal.x
+      vel.y -= into * normal.y
+    }
+  }
+
+  /**
+   * Everything updateEntity could touch this tick lies within this area - use it
+   * to fetch nearby platforms and polygons from a broadphase
+   */
+  public getSweepArea(entity: Entity, dt: number): AABB {
+    const step = dt * PhysicsEngine.REFERENCE_TICK_RATE
+    const reach = Math.max(this.maxVelocity.x, this.maxVelocity.y) * step + STEP_HEIGHT + 1
+    const box = this.getAABB(entity)
+    return {
+      x: box.x - reach,
+      y: box.y - reach,
+      width: box.width + reach * 2,
+      height: box.height + reach * 2
     }
   }
 
   public checkPlatformCollision(entity: Entity, platform: Platform): boolean {
-    if (!entity.physics || !entity.physics.solid) return false
+    if (!entity.physics || !entity.physics.solid || !platform.isPresent()) return false
 
     // First check current position collision
     const entityBox = this.getAABB(entity)
@@ -152,6 +423,10 @@ export class PhysicsEngine {
     return false
   }
 
+  public getBounds(entity: Entity): AABB {
+    return this.getAABB(entity)
+  }
+
   public checkEntityCollision(entity1: Entity, entity2: Entity): boolean {
     if (!entity1.physics || !entity2.physics) return false
 
@@ -180,7 +455,7 @@ export class PhysicsEngine {
     )
 
     // One-way platforms (can jump through from below)
-    if (platform.type === 'platform' && entity.velocity.y < 0) {
+    if ((platform.type === 'platform' || platform.oneWay) && entity.velocity.y < 0) {
       return
     }
 
@@ -641,9 +916,10 @@ export class PhysicsEngine {
   }
 
   // Swept AABB collision detection to prevent tunneling
-  private sweptAABB(entity: Entity, movement: Vector2D, platforms: Platform[]): { hit: boolean; time: number; normal: Vector2D } {
+  private sweptAABB(entity: Entity, movement: Vector2D, platforms: Platform[]): { hit: boolean; time: number; normal: Vector2D; platform: Platform | null } {
     let nearestTime = 1.0
     let nearestNormal = { x: 0, y: 0 }
+    let nearestPlatform: Platform | null = null
     let hit = false
 
     const entityBox = this.getAABB(entity)
@@ -653,6 +929,18 @@ export class PhysicsEngine {
       if (platform.type === 'platform' && movement.y < 0) {
         continue
       }
+      // One-way platforms only stop things coming down onto them from above
+      if (platform.oneWay && !(movement.y > 0 && entityBox.y + entityBox.height <= platform.y + SKIN)) {
+        continue
+      }
+      // Crumbled and fallen platforms waiting to reappear
+      if (!platform.isPresent()) {
+        continue
+      }
+      // Hidden blocks are only there for a player jumping into them from underneath
+      if (platform.hidden && !(entity.type === 'player' && movement.y < 0 && entityBox.y >= platform.y + platform.height - SKIN)) {
+        continue
+      }
 
       const platformBox = this.getAABB(platform)
       const result = this.sweptAABBvsAABB(entityBox, movement, platformBox)
@@ -660,11 +948,12 @@ export class PhysicsEngine {
       if (result.hit && result.time < nearestTime && result.time >= 0) {
         nearestTime = result.time
         nearestNormal = result.normal
+        nearestPlatform = platform
         hit = true
       }
     }
 
-    return { hit, time: nearestTime, normal: nearestNormal }
+    return { hit, time: nearestTime, normal: nearestNormal, platform: nearestPlatform }
   }
 
   private sweptAABBvsAABB(box1: AABB, movement: Vector2D, box2: AABB): { hit: boolean; time: number; normal: Vector2D } {
@@ -751,7 +1040,19 @@ export class PhysicsEngine {
     this.friction = friction
   }
 
+  public getFriction(): number {
+    return this.friction
+  }
+
+  public getAirResistance(): number {
+    return this.airResistance
+  }
+
   public setMaxVelocity(x: number, y: number) {
     this.maxVelocity = { x, y }
   }
+
+  public getMaxVelocity(): Vector2D {
+    return { ...this.maxVelocity }
+  }
 }
\ No newline at end of file
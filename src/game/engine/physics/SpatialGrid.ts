@@ -0,0 +1,147 @@
+import type { AABB } from './PhysicsEngine'
+
+interface CellRange {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+// Cell coordinates are packed into one number - supports +/-32768 cells per axis
+const CELL_OFFSET = 32768
+
+/**
+ * SpatialGrid - Uniform grid broadphase
+ * Each item is bucketed into every cell its bounds overlap. query() returns the
+ * items sharing a cell with the searched area, each once and in the order they
+ * were inserted, so results match a plain array scan. Callers still do the exact test.
+ */
+export class SpatialGrid<T> {
+  private cellSize: number
+  private cells = new Map<number, Set<T>>()
+  private ranges = new Map<T, CellRange>()
+  private order = new Map<T, number>()
+  private nextOrder = 0
+
+  constructor(cellSize = 128) {
+    this.cellSize = cellSize
+  }
+
+  public insert(item: T, bounds: AABB) {
+    if (this.ranges.has(item)) {
+      this.update(item, bounds)
+      return
+    }
+
+    const range = this.getRange(bounds)
+    this.ranges.set(item, range)
+    this.order.set(item, this.nextOrder++)
+    this.addToCells(item, range)
+  }
+
+  /**
+   * Re-bucket an item that moved. Cheap when it stays within the same cells.
+   */
+  public update(item: T, bounds: AABB) {
+    const previous = this.ranges.get(item)
+    if (!previous) {
+      this.insert(item, bounds)
+      return
+    }
+
+    const range = this.getRange(bounds)
+    if (range.minX === previous.minX && range.minY === previous.minY &&
+        range.maxX === previous.maxX && range.maxY === previous.maxY) {
+      return
+    }
+
+    this.removeFromCells(item, previous)
+    this.ranges.set(item, range)
+    this.addToCells(item, range)
+  }
+
+  public remove(item: T) {
+    const range = this.ranges.get(item)
+    if (!range) return
+
+    this.removeFromCells(item, range)
+    this.ranges.delete(item)
+    this.order.delete(item)
+  }
+
+  public query(area: AABB): T[] {
+    const range = this.getRange(area)
+    const found = new Set<T>()
+
+    for (let cx = range.minX; cx <= range.maxX; cx++) {
+      for (let cy = range.minY; cy <= range.maxY; cy++) {
+        const cell = this.cells.get(this.key(cx, cy))
+        if (cell) {
+          cell.forEach(item => found.add(item))
+        }
+      }
+    }
+
+    const results = Array.from(found)
+    if (results.length > 1) {
+      results.sort((a, b) => this.order.get(a)! - this.order.get(b)!)
+    }
+    return results
+  }
+
+  public has(item: T): boolean {
+    return this.ranges.has(item)
+  }
+
+  public clear() {
+    this.cells.clear()
+    this.ranges.clear()
+    this.order.clear()
+    this.nextOrder = 0
+  }
+
+  public getCellCount(): number {
+    return this.cells.size
+  }
+
+  private getRange(bounds: AABB): CellRange {
+    return {
+      minX: Math.floor(bounds.x / this.cellSize),
+      minY: Math.floor(bounds.y / this.cellSize),
+      maxX: Math.floor((bounds.x + Math.max(0, bounds.width)) / this.cellSize),
+      maxY: Math.floor((bounds.y + Math.max(0, bounds.height)) / this.cellSize)
+    }
+  }
+
+  private key(cx: number, cy: number): number {
+    return (cx + CELL_OFFSET) * CELL_OFFSET * 2 + (cy + CELL_OFFSET)
+  }
+
+  private addToCells(item: T, range: CellRange) {
+    for (let cx = range.minX; cx <= range.maxX; cx++) {
+      for (let cy = range.minY; cy <= range.maxY; cy++) {
+        const key = this.key(cx, cy)
+        let cell = this.cells.get(key)
+        if (!cell) {
+          cell = new Set()
+          this.cells.set(key, cell)
+        }
+        cell.add(item)
+      }
+    }
+  }
+
+  private removeFromCells(item: T, range: CellRange) {
+    for (let cx = range.minX; cx <= range.maxX; cx++) {
+      for (let cy = range.minY; cy <= range.maxY; cy++) {
+        const key = this.key(cx, cy)
+        const cell = this.cells.get(key)
+        if (!cell) continue
+        cell.delete(item)
+        if (cell.size === 0) {
+          this.cells.delete(key)
+        }
+      }
+    }
+  }
+}
@@ -1,4 +1,11 @@
 import { Entity } from '../entities/Entity'
+import { DEFAULT_WORLD_SIZE } from '../schema/LevelSchema'
+import type { CameraMode, LevelCamera } from '../schema/LevelSchema'
+
+const DEFAULT_DEAD_ZONE = { width: 160, height: 120 }
+const DEFAULT_LOOK_AHEAD = 160
+// Horizontal speed below which lookahead keeps its current direction
+const LOOK_AHEAD_MIN_SPEED = 0.5
 
 export class Camera {
   public x: number = 0
@@ -6,32 +13,125 @@ export class Camera {
   private width: number
   private height: number
   private bounds: { minX: number; maxX: number; minY: number; maxY: number } | null = null
+  private worldWidth = DEFAULT_WORLD_SIZE.width
+  private worldHeight = DEFAULT_WORLD_SIZE.height
+  private mode: CameraMode = 'horizontal'
+  private smoothing = 0
+  private deadZone = DEFAULT_DEAD_ZONE
+  private lookAhead = DEFAULT_LOOK_AHEAD
+  private lookDirection = 1
+  private snapNext = true
 
   constructor(width: number, height: number) {
     this.width = width
     this.height = height
   }
 
-  public follow(entity: Entity, _offsetX = -this.width/2, _offsetY = -this.height/2 + 100) {
-    // Simple camera follow - keep player centered horizontally
-    const targetX = entity.position.x - this.width / 2 + entity.width / 2
-    const targetY = 0 // Lock Y axis to prevent vertical movement
+  public follow(entity: Entity) {
+    const centerX = entity.position.x + entity.width / 2
+    const centerY = entity.position.y + entity.height / 2
+
+    // Start a new level centred on the player instead of panning over from the last one
+    if (this.snapNext) {
+      this.x = this.clampX(centerX - this.width / 2)
+      this.y = this.clampY(centerY - this.height / 2)
+    }
+
+    let targetX: number
+    let targetY: number
+    switch (this.mode) {
+      case 'follow':
+        targetX = this.deadZoneTarget(this.x, centerX, this.width, this.deadZone.width)
+        targetY = this.deadZoneTarget(this.y, centerY, this.height, this.deadZone.height)
+        break
+      case 'lookahead':
+        // Remember the last direction so the view doesn't swing back when the player stops
+        if (entity.velocity.x > LOOK_AHEAD_MIN_SPEED) this.lookDirection = 1
+        else if (entity.velocity.x < -LOOK_AHEAD_MIN_SPEED) this.lookDirection = -1
+        targetX = centerX + this.lookDirection * this.lookAhead - this.width / 2
+        targetY = this.deadZoneTarget(this.y, centerY, this.height, this.deadZone.height)
+        break
+      case 'vertical':
+        // Keep the player low on screen so more of the climb ahead is visible
+        targetX = this.deadZoneTarget(this.x, centerX, this.width, this.deadZone.width)
+        targetY = centerY - this.height * 2 / 3
+        break
+      case 'horizontal':
+      default:
+        // Keep player centered horizontally, Y locked to the bottom of the world
+        targetX = centerX - this.width / 2
+        targetY = this.worldHeight - this.height
+        break
+    }
+
+    // Ease towards the target - smoothing 0 moves straight there
+    const ease = this.snapNext ? 1 : 1 - this.smoothing
+    this.x += (this.clampX(targetX) - this.x) * ease
+    this.y += (this.clampY(targetY) - this.y) * ease
+    this.snapNext = false
+  }
+
+  /**
+   * Apply a level's camera setup. Call after setWorldSize - an unset mode is
+   * chosen from the world's shape.
+   */
+  public configure(config: LevelCamera = {}) {
+    this.mode = config.mode ?? (this.worldHeight > this.height ? 'follow' : 'horizontal')
+    this.smoothing = config.smoothing ?? 0
+    this.deadZone = config.deadZone ?? DEFAULT_DEAD_ZONE
+    this.lookAhead = config.lookAhead ?? DEFAULT_LOOK_AHEAD
+    this.lookDirection = 1
+    this.snapNext = true
+
+    if (config.bounds) {
+      this.setBounds(config.bounds.minX, config.bounds.maxX, config.bounds.minY, config.bounds.maxY)
+    } else {
+      this.removeBounds()
+    }
+  }
+
+  /**
+   * Jump straight to the target on the next follow instead of easing there,
+   * e.g. after the player warps
+   */
+  public cut() {
+    this.snapNext = true
+  }
 
-    // Direct positioning to avoid drift issues
-    this.x = targetX
-    this.y = targetY
+  public getMode(): CameraMode {
+    return this.mode
+  }
 
-    // Apply world boundaries
-    const worldWidth = 3000 // Match the level width
-    this.x = Math.max(0, this.x) // Left boundary
-    this.x = Math.min(worldWidth - this.width, this.x) // Right boundary
-    this.y = 0 // Keep Y locked
+  // Move just far enough to bring `center` back inside the dead zone
+  private deadZoneTarget(current: number, center: number, viewSize: number, zoneSize: number): number {
+    const zoneStart = current + (viewSize - zoneSize) / 2
+    const zoneEnd = zoneStart + zoneSize
+    if (center < zoneStart) return current - (zoneStart - center)
+    if (center > zoneEnd) return current + (center - zoneEnd)
+    return current
+  }
 
-    // Apply additional bounds if set
+  // World boundaries first - a world smaller than the screen stays pinned to its
+  // top-left - then any additional bounds
+  private clampX(x: number): number {
+    x = Math.max(0, Math.min(this.worldWidth - this.width, x))
     if (this.bounds) {
-      this.x = Math.max(this.bounds.minX, Math.min(this.bounds.maxX - this.width, this.x))
-      this.y = Math.max(this.bounds.minY, Math.min(this.bounds.maxY - this.height, this.y))
+      x = Math.max(this.bounds.minX, Math.min(this.bounds.maxX - this.width, x))
     }
+    return x
+  }
+
+  private clampY(y: number): number {
+    y = Math.max(0, Math.min(this.worldHeight - this.height, y))
+    if (this.bounds) {
+      y = Math.max(this.bounds.minY, Math.min(this.bounds.maxY - this.height, y))
+    }
+    return y
+  }
+
+  public setWorldSize(width: number, height: number) {
+    this.worldWidth = width
+    this.worldHeight = height
   }
 
   public setBounds(minX: number, maxX: number, minY: number, maxY: number) {
@@ -72,25 +172,6 @@ export class Camera {
   public reset() {
     this.x = 0
     this.y = 0
-  }
-
-  public shake(intensity = 5, duration = 500) {
-    const startTime = Date.now()
-    const originalX = this.x
-    const originalY = this.y
-
-    const shakeInterval = setInterval(() => {
-      const elapsed = Date.now() - startTime
-      if (elapsed > duration) {
-        clearInterval(shakeInterval)
-        this.x = originalX
-        this.y = originalY
-        return
-      }
-
-      const decay = 1 - (elapsed / duration)
-      this.x = originalX + (Math.random() - 0.5) * intensity * decay
-      this.y = originalY + (Math.random() - 0.5) * intensity * decay
-    }, 16)
+    this.snapNext = true
   }
 }
\ No newline at end of file
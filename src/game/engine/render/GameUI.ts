@@ -0,0 +1,30 @@
+import { UIData } from './Renderer'
+
+/**
+ * GameUI - Where the engine reports score, lives and coins every tick
+ */
+export interface GameUI {
+  update(data: UIData): void
+}
+
+/**
+ * Writes the HUD into the page's #score, #lives and #coins elements
+ */
+export class DomGameUI implements GameUI {
+  public update(data: UIData) {
+    const scoreEl = document.getElementById('score')
+    const livesEl = document.getElementById('lives')
+    const coinsEl = document.getElementById('coins')
+
+    if (scoreEl) scoreEl.textContent = data.score.toString()
+    if (livesEl) livesEl.textContent = data.lives.toString()
+    if (coinsEl) coinsEl.textContent = data.coins.toString()
+  }
+}
+
+/**
+ * Discards HUD updates (headless runs)
+ */
+export class NullGameUI implements GameUI {
+  public update(_data: UIData) {}
+}
@@ -0,0 +1,79 @@
+import { SceneManager } from '../scenes/SceneManager'
+import type { SceneMenu } from '../scenes/SceneManager'
+
+/**
+ * MenuRenderer - Draws scene menus and the pause button in screen space
+ */
+export class MenuRenderer {
+  private ctx: CanvasRenderingContext2D
+  private width: number
+  private height: number
+
+  constructor(ctx: CanvasRenderingContext2D, width: number, height: number) {
+    this.ctx = ctx
+    this.width = width
+    this.height = height
+  }
+
+  public renderMenu(menu: SceneMenu, selected: number, dim = true) {
+    const ctx = this.ctx
+    ctx.save()
+
+    if (dim) {
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)'
+      ctx.fillRect(0, 0, this.width, this.height)
+    }
+
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+
+    // Title and info lines stack upwards from just above the items
+    const lineHeight = 30
+    const titleY = this.height / 2 - 40 - menu.lines.length * lineHeight
+    ctx.fillStyle = '#FFD700'
+    ctx.font = 'bold 48px Arial'
+    ctx.fillText(menu.title, this.width / 2, titleY)
+
+    ctx.fillStyle = '#FFFFFF'
+    ctx.font = '24px Arial'
+    menu.lines.forEach((line, i) => {
+      ctx.fillText(line, this.width / 2, titleY + 50 + i * lineHeight)
+    })
+
+    const layout = SceneManager.layoutItems(menu.items.length, this.width, this.height)
+    menu.items.forEach((item, i) => {
+      const bounds = layout[i]
+      const active = i === selected
+
+      ctx.fillStyle = active ? '#FFD700' : 'rgba(255, 255, 255, 0.15)'
+      ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height)
+      ctx.strokeStyle = active ? '#FFFFFF' : 'rgba(255, 255, 255, 0.4)'
+      ctx.lineWidth = 2
+      ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height)
+
+      ctx.fillStyle = active ? '#000000' : '#FFFFFF'
+      ctx.font = active ? 'bold 22px Arial' : '22px Arial'
+      ctx.fillText(item.label, bounds.x + bounds.width / 2, bounds.y + bounds.height / 2)
+    })
+
+    ctx.restore()
+  }
+
+  public renderPauseButton() {
+    const ctx = this.ctx
+    const bounds = SceneManager.getPauseButtonBounds(this.width)
+
+    ctx.save()
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.4)'
+    ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height)
+
+    // Two bars
+    ctx.fillStyle = '#FFFFFF'
+    const barWidth = bounds.width / 6
+    const barHeight = bounds.height / 2
+    const barY = bounds.y + bounds.height / 4
+    ctx.fillRect(bounds.x + bounds.width / 2 - barWidth * 1.5, barY, barWidth, barHeight)
+    ctx.fillRect(bounds.x + bounds.width / 2 + barWidth * 0.5, barY, barWidth, barHeight)
+    ctx.restore()
+  }
+}
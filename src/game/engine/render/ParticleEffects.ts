@@ -0,0 +1,106 @@
+type ParticleKind = 'debris' | 'coin'
+
+interface Particle {
+  kind: ParticleKind
+  x: number
+  y: number
+  // Pixels per second
+  vx: number
+  vy: number
+  rotation: number
+  spin: number
+  // Seconds left
+  life: number
+}
+
+// Pixels per second squared
+const GRAVITY = 1800
+const DEBRIS_LIFE = 1.2
+const DEBRIS_SIZE = 12
+const COIN_LIFE = 0.5
+const COIN_RISE = 600
+
+/**
+ * ParticleEffects - Short-lived bits drawn in world space: brick debris and
+ * coins popping out of blocks. Purely visual, so nothing in the simulation
+ * depends on them.
+ */
+export class ParticleEffects {
+  private particles: Particle[] = []
+
+  /**
+   * A brick breaking into four pieces that fly up and out
+   */
+  public spawnDebris(x: number, y: number, width: number, height: number) {
+    const pieces = [
+      { dx: 0.25, dy: 0.25, vx: -120, vy: -660 },
+      { dx: 0.75, dy: 0.25, vx: 120, vy: -660 },
+      { dx: 0.25, dy: 0.75, vx: -120, vy: -420 },
+      { dx: 0.75, dy: 0.75, vx: 120, vy: -420 }
+    ]
+    pieces.forEach(piece => {
+      this.particles.push({
+        kind: 'debris',
+        x: x + width * piece.dx,
+        y: y + height * piece.dy,
+        vx: piece.vx,
+        vy: piece.vy,
+        rotation: 0,
+        spin: piece.vx > 0 ? 12 : -12,
+        life: DEBRIS_LIFE
+      })
+    })
+  }
+
+  /**
+   * A coin jumping out of the top of a block
+   */
+  public spawnCoin(x: number, y: number) {
+    this.particles.push({ kind: 'coin', x, y, vx: 0, vy: -COIN_RISE, rotation: 0, spin: 0, life: COIN_LIFE })
+  }
+
+  public update(dt: number) {
+    if (this.particles.length === 0) return
+
+    this.particles.forEach(particle => {
+      particle.vy += GRAVITY * dt
+      particle.x += particle.vx * dt
+      particle.y += particle.vy * dt
+      particle.rotation += particle.spin * dt
+      particle.life -= dt
+    })
+    this.particles = this.particles.filter(particle => particle.life > 0)
+  }
+
+  public render(ctx: CanvasRenderingContext2D) {
+    this.particles.forEach(particle => {
+      ctx.save()
+      ctx.translate(particle.x, particle.y)
+
+      if (particle.kind === 'debris') {
+        ctx.rotate(particle.rotation)
+        ctx.fillStyle = '#B5651D'
+        ctx.fillRect(-DEBRIS_SIZE / 2, -DEBRIS_SIZE / 2, DEBRIS_SIZE, DEBRIS_SIZE)
+        ctx.strokeStyle = '#654321'
+        ctx.lineWidth = 2
+        ctx.strokeRect(-DEBRIS_SIZE / 2, -DEBRIS_SIZE / 2, DEBRIS_SIZE, DEBRIS_SIZE)
+      } else {
+        // Spins by squashing horizontally
+        ctx.scale(Math.abs(Math.cos(particle.life * 20)), 1)
+        ctx.fillStyle = '#FFD700'
+        ctx.beginPath()
+        ctx.ellipse(0, 0, 8, 12, 0, 0, Math.PI * 2)
+        ctx.fill()
+        ctx.strokeStyle = '#B8860B'
+        ctx.lineWidth = 2
+        ctx.stroke()
+      }
+
+      ctx.restore()
+    })
+  }
+
+  public clear() {
+    this.particles = []
+  }
+}
@@ -1,7 +1,9 @@
 import { Entity } from '../entities/Entity'
 import { Level } from '../level/Level'
+import { Region } from '../level/Region'
 import { SpriteLoader } from '../sprites/SpriteLoader'
 import { DebugMode } from '../debug/DebugMode'
+import type { LevelBackground } from '../schema/LevelSchema'
 
 export interface UIData {
   score: number
@@ -43,13 +45,26 @@ export class Renderer {
     this.ctx.fillRect(0, 0, this.width, this.height)
   }
 
-  public renderBackground() {
-    // Sky gradient
-    const gradient = this.ctx.createLinearGradient(0, 0, 0, this.height)
+  public renderBackground(worldWidth = this.width * 3, worldHeight = this.height, background: LevelBackground = 'sky') {
+    // Sky gradient, covering the whole world however large it is
+    const skyWidth = Math.max(this.width, worldWidth)
+    const skyHeight = Math.max(this.height, worldHeight)
+
+    // Underground rooms and castles are dark and bare
+    if (background !== 'sky') {
+      const dark = this.ctx.createLinearGradient(0, 0, 0, skyHeight)
+      dark.addColorStop(0, background === 'castle' ? '#1A1A1A' : '#000000')
+      dark.addColorStop(1, background === 'castle' ? '#3B1F1F' : '#101830')
+      this.ctx.fillStyle = dark
+      this.ctx.fillRect(0, 0, skyWidth, skyHeight)
+      return
+    }
+
+    const gradient = this.ctx.createLinearGradient(0, 0, 0, skyHeight)
     gradient.addColorStop(0, '#5C94FC')
     gradient.addColorStop(1, '#87CEEB')
     this.ctx.fillStyle = gradient
-    this.ctx.fillRect(0, 0, this.width * 3, this.height)
+    this.ctx.fillRect(0, 0, skyWidth, skyHeight)
 
     // Draw background mountains
     this.spriteLoader.drawSprite(this.ctx, 'mountain', 0, 50, this.height - 200, 128, 128)
@@ -80,11 +95,15 @@ export class Renderer {
     this.ctx.fill()
   }
 
-  public renderLevel(level: Level) {
+  /**
+   * Draw the level's platforms and polygons - alpha (0..1) blends moving
+   * platforms between their last two positions
+   */
+  public renderLevel(level: Level, alpha = 1) {
     // Render platforms
     const platforms = level.getPlatforms()
     platforms.forEach(platform => {
-      this.renderPlatform(platform)
+      this.renderPlatform(platform, alpha)
     })
 
     // Render polygons
@@ -92,6 +111,124 @@ export class Renderer {
     polygons.forEach(polygon => {
       this.renderPolygon(polygon)
     })
+
+    // Regions sit over the ground they cover - water waits for renderWater
+    level.getRegions().forEach(region => {
+      if (region.material !== 'water') {
+        this.renderRegion(region)
+      }
+    })
+  }
+
+  /**
+   * Draw the level's water over everything else in the world, so whatever is
+   * swimming shows through it
+   */
+  public renderWater(level: Level) {
+    level.getRegions().forEach(region => {
+      if (region.material !== 'water' || region.contours.length === 0) return
+      const bounds = region.getBounds()
+
+      this.ctx.save()
+      this.traceRegion(region)
+      this.ctx.clip()
+      this.ctx.globalAlpha = 0.5
+
+      let drawn = true
+      for (let x = bounds.left; x < bounds.right; x += 32) {
+        for (let y = bounds.top; y < bounds.bottom; y += 32) {
+          if (!this.spriteLoader.drawSprite(this.ctx, 'water', 0, x, y, 32, 32)) drawn = false
+        }
+      }
+
+      // Fallback if sprite failed
+      if (!drawn) {
+        this.ctx.globalAlpha = 1
+        this.ctx.fillStyle = 'rgba(32, 96, 224, 0.45)'
+        this.ctx.fillRect(bounds.left, bounds.top, bounds.right - bounds.left, bounds.bottom - bounds.top)
+      }
+      this.ctx.restore()
+
+      // Surface highlight
+      this.ctx.save()
+      this.traceRegion(region)
+      this.ctx.strokeStyle = 'rgba(180, 220, 255, 0.8)'
+      this.ctx.lineWidth = 2
+      this.ctx.stroke()
+      this.ctx.restore()
+    })
+  }
+
+  private renderRegion(region: Region) {
+    if (region.contours.length === 0) return
+    const bounds = region.getBounds()
+
+    this.ctx.save()
+    this.traceRegion(region)
+
+    switch (region.material) {
+      case 'lava': {
+        const gradient = this.ctx.createLinearGradient(0, bounds.top, 0, bounds.bottom)
+        gradient.addColorStop(0, '#FFB000')
+        gradient.addColorStop(0.3, '#E25822')
+        gradient.addColorStop(1, '#8B1A00')
+        this.ctx.fillStyle = gradient
+        this.ctx.fill()
+        break
+      }
+
+      case 'pit': {
+        // Fades into the dark from its top edge
+        const gradient = this.ctx.createLinearGradient(0, bounds.top, 0, Math.min(bounds.bottom, bounds.top + 64))
+        gradient.addColorStop(0, 'rgba(0, 0, 0, 0.4)')
+        gradient.addColorStop(1, '#000000')
+        this.ctx.fillStyle = gradient
+        this.ctx.fill()
+        break
+      }
+
+      case 'ice':
+        this.ctx.fillStyle = 'rgba(200, 240, 255, 0.75)'
+        this.ctx.fill()
+        this.ctx.strokeStyle = '#FFFFFF'
+        this.ctx.lineWidth = 2
+        this.ctx.stroke()
+        break
+
+      case 'conveyor': {
+        this.ctx.fillStyle = '#3A3A3A'
+        this.ctx.fill()
+        this.ctx.clip()
+
+        // Chevrons scroll the way the belt runs
+        const direction = region.speed < 0 ? -1 : 1
+        const offset = (performance.now() / 1000 * region.speed) % 16
+        const middle = (bounds.top + bounds.bottom) / 2
+        const size = Math.min(6, (bounds.bottom - bounds.top) / 2 - 1)
+        this.ctx.strokeStyle = '#FFD700'
+        this.ctx.lineWidth = 2
+        this.ctx.beginPath()
+        for (let x = bounds.left - 16 + offset; x < bounds.right + 16; x += 16) {
+          this.ctx.moveTo(x - size * direction, middle - size)
+          this.ctx.lineTo(x, middle)
+          this.ctx.lineTo(x - size * direction, middle + size)
+        }
+        this.ctx.stroke()
+        break
+      }
+    }
+
+    this.ctx.restore()
+  }
+
+  private traceRegion(region: Region) {
+    const contours = region.contours
+    this.ctx.beginPath()
+    this.ctx.moveTo(contours[0][0], contours[0][1])
+    for (let i = 1; i < contours.length; i++) {
+      this.ctx.lineTo(contours[i][0], contours[i][1])
+    }
+    this.ctx.closePath()
   }
 
   private renderPolygon(polygon: any) {
@@ -119,15 +256,39 @@ export class Renderer {
     this.ctx.restore()
   }
 
-  private renderPlatform(platform: any) {
-    // Skip rendering invisible platforms
-    if (platform.invisible) {
+  private renderPlatform(platform: any, alpha = 1) {
+    // Skip rendering invisible platforms, and crumbled or fallen ones until they come back
+    if (platform.invisible || !platform.isPresent()) {
       return
     }
 
     this.ctx.save()
 
-    switch(platform.type) {
+    if (platform.motion) {
+      const offset = platform.motion.getDrawOffset(platform, alpha)
+      this.ctx.translate(offset.x, offset.y)
+    }
+
+    // Blocks bounce when hit from below
+    if (platform.isBlock()) {
+      this.ctx.translate(0, -platform.getBumpOffset())
+    }
+
+    switch(platform.used ? 'used' : platform.type) {
+
+      case 'used':
+        // Emptied block - plain with a rivet in each corner
+        this.ctx.fillStyle = '#8B5A2B'
+        this.ctx.fillRect(platform.x, platform.y, platform.width, platform.height)
+        this.ctx.strokeStyle = '#3E2614'
+        this.ctx.lineWidth = 2
+        this.ctx.strokeRect(platform.x + 1, platform.y + 1, platform.width - 2, platform.height - 2)
+        this.ctx.fillStyle = '#3E2614'
+        this.ctx.fillRect(platform.x + 4, platform.y + 4, 4, 4)
+        this.ctx.fillRect(platform.x + platform.width - 8, platform.y + 4, 4, 4)
+        this.ctx.fillRect(platform.x + 4, platform.y + platform.height - 8, 4, 4)
+        this.ctx.fillRect(platform.x + platform.width - 8, platform.y + platform.height - 8, 4, 4)
+        break
 
       case 'brick':
         let brickSuccess = true
@@ -381,6 +542,31 @@ export class Renderer {
         this.debugMode.logPlatformRender(`UNKNOWN:${platform.type}`, false)
     }
 
+    // Cracks across platforms that crumble
+    if (platform.motion?.trigger === 'crumbling') {
+      this.ctx.strokeStyle = 'rgba(0, 0, 0, 0.5)'
+      this.ctx.lineWidth = 2
+      this.ctx.beginPath()
+      for (let x = 12; x < platform.width - 8; x += 24) {
+        this.ctx.moveTo(platform.x + x, platform.y)
+        this.ctx.lineTo(platform.x + x + 4, platform.y + platform.height / 2)
+        this.ctx.lineTo(platform.x + x - 2, platform.y + platform.height)
+      }
+      this.ctx.stroke()
+    }
+
+    // One-way platforms have a dashed underside
+    if (platform.oneWay) {
+      this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)'
+      this.ctx.lineWidth = 2
+      this.ctx.setLineDash([6, 6])
+      this.ctx.beginPath()
+      this.ctx.moveTo(platform.x, platform.y + platform.height - 1)
+      this.ctx.lineTo(platform.x + platform.width, platform.y + platform.height - 1)
+      this.ctx.stroke()
+      this.ctx.setLineDash([])
+    }
+
     // Draw debug collision box
     this.debugMode.drawCollisionBox(
       this.ctx,
@@ -0,0 +1,68 @@
+import { TouchControls } from '../input/TouchControls'
+import type { TouchControlsConfig, TouchControlsState } from '../input/TouchControls'
+
+/**
+ * TouchControlsRenderer - Draws the on-screen stick and buttons in screen space
+ */
+export class TouchControlsRenderer {
+  private ctx: CanvasRenderingContext2D
+  private width: number
+  private height: number
+
+  constructor(ctx: CanvasRenderingContext2D, width: number, height: number) {
+    this.ctx = ctx
+    this.width = width
+    this.height = height
+  }
+
+  public render(config: TouchControlsConfig, state: TouchControlsState) {
+    const ctx = this.ctx
+    const layout = TouchControls.getLayout(config, this.width, this.height)
+    // Held controls light up, up to fully opaque
+    const idle = Math.max(0, Math.min(1, config.opacity))
+    const held = Math.min(1, idle + 0.3)
+
+    ctx.save()
+
+    // Stick base, with the knob following the thumb
+    const { stick } = layout
+    const stickActive = state.stick.x !== 0 || state.stick.y !== 0
+    ctx.globalAlpha = stickActive ? held : idle
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.35)'
+    ctx.strokeStyle = '#FFFFFF'
+    ctx.lineWidth = 3
+    ctx.beginPath()
+    ctx.arc(stick.x, stick.y, stick.radius, 0, Math.PI * 2)
+    ctx.fill()
+    ctx.stroke()
+
+    ctx.fillStyle = '#FFFFFF'
+    ctx.beginPath()
+    ctx.arc(
+      stick.x + state.stick.x * stick.radius,
+      stick.y + state.stick.y * stick.radius,
+      stick.radius * 0.45,
+      0,
+      Math.PI * 2
+    )
+    ctx.fill()
+
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    layout.buttons.forEach(button => {
+      const pressed = state.pressed.includes(button.action)
+      ctx.globalAlpha = pressed ? held : idle
+      ctx.fillStyle = pressed ? '#FFD700' : 'rgba(0, 0, 0, 0.35)'
+      ctx.beginPath()
+      ctx.arc(button.x, button.y, button.radius, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.stroke()
+
+      ctx.fillStyle = pressed ? '#000000' : '#FFFFFF'
+      ctx.font = `bold ${Math.round(button.radius * 0.8)}px Arial`
+      ctx.fillText(button.label, button.x, button.y)
+    })
+
+    ctx.restore()
+  }
+}
@@ -0,0 +1,194 @@
+import { InputState } from '../input/InputManager'
+import type { LevelSource } from '../GameEngine'
+
+export const REPLAY_FORMAT_VERSION = 1
+
+/**
+ * Engine settings a replay must be played back with to reproduce the run
+ */
+export interface ReplayConfig {
+  tickRate: number
+  seed: number
+  gravity: number
+}
+
+/**
+ * A run of identical inputs: [input bitmask, number of ticks]
+ */
+export type InputRun = [number, number]
+
+export interface Replay {
+  version: number
+  levelId: string | null
+  // Level the run was recorded on (null for the built-in demo level)
+  level: LevelSource | null
+  config: ReplayConfig
+  tickCount: number
+  inputs: InputRun[]
+  recordedAt: string
+}
+
+// Bit order is part of the file format - only ever append new buttons
+const INPUT_BITS: (keyof InputState)[] = ['left', 'right', 'up', 'down', 'jump', 'run', 'action']
+
+const BINARY_MAGIC = 0x4d52504c // 'MRPL'
+const MAX_BINARY_RUN = 0xffff
+
+/**
+ * ReplayCodec - Compact encodings for recorded input
+ * Inputs are stored as one bitmask per tick and run-length encoded, so a
+ * player holding right for ten seconds costs a single entry.
+ */
+export class ReplayCodec {
+  static encodeInput(input: InputState): number {
+    let mask = 0
+    INPUT_BITS.forEach((key, bit) => {
+      if (input[key]) mask |= 1 << bit
+    })
+    return mask
+  }
+
+  static decodeInput(mask: number): InputState {
+    const input = {} as InputState
+    INPUT_BITS.forEach((key, bit) => {
+      input[key] = (mask & (1 << bit)) !== 0
+    })
+    return input
+  }
+
+  static toJSON(replay: Replay): string {
+    return JSON.stringify(replay)
+  }
+
+  static fromJSON(json: string | object): Replay {
+    const data: any = typeof json === 'string' ? JSON.parse(json) : json
+    return ReplayCodec.validate(data)
+  }
+
+  /**
+   * Binary layout (little endian):
+   * magic u32 | version u8 | tickRate u16 | seed u32 | gravity f64 | tickCount u32 |
+   * metadata length u32 | metadata JSON (levelId, level, recordedAt) |
+   * run count u32 | runs (mask u8, ticks u16)*
+   */
+  static toBinary(replay: Replay): Uint8Array {
+    const metadata = new TextEncoder().encode(JSON.stringify({
+      levelId: replay.levelId,
+      level: replay.level,
+      recordedAt: replay.recordedAt
+    }))
+
+    // Split runs that overflow the 16-bit tick counter
+    const runs: InputRun[] = []
+    replay.inputs.forEach(([mask, ticks]) => {
+      let remaining = ticks
+      while (remaining > 0) {
+        const length = Math.min(remaining, MAX_BINARY_RUN)
+        runs.push([mask, length])
+        remaining -= length
+      }
+    })
+
+    const headerSize = 4 + 1 + 2 + 4 + 8 + 4 + 4
+    const size = headerSize + metadata.length + 4 + runs.length * 3
+    const bytes = new Uint8Array(size)
+    const view = new DataView(bytes.buffer)
+    let offset = 0
+
+    view.setUint32(offset, BINARY_MAGIC, true); offset += 4
+    view.setUint8(offset, replay.version); offset += 1
+    view.setUint16(offset, replay.config.tickRate, true); offset += 2
+    view.setUint32(offset, replay.config.seed >>> 0, true); offset += 4
+    view.setFloat64(offset, replay.config.gravity, true); offset += 8
+    view.setUint32(offset, replay.tickCount, true); offset += 4
+    view.setUint32(offset, metadata.length, true); offset += 4
+    bytes.set(metadata, offset); offset += metadata.length
+    view.setUint32(offset, runs.length, true); offset += 4
+
+    runs.forEach(([mask, ticks]) => {
+      view.setUint8(offset, mask); offset += 1
+      view.setUint16(offset, ticks, true); offset += 2
+    })
+
+    return bytes
+  }
+
+  static fromBinary(bytes: Uint8Array): Replay {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    let offset = 0
+
+    if (bytes.byteLength < 4 || view.getUint32(offset, true) !== BINARY_MAGIC) {
+      throw new Error('Not a replay file')
+    }
+    offset += 4
+
+    const version = view.getUint8(offset); offset += 1
+    const tickRate = view.getUint16(offset, true); offset += 2
+    const seed = view.getUint32(offset, true); offset += 4
+    const gravity = view.getFloat64(offset, true); offset += 8
+    const tickCount = view.getUint32(offset, true); offset += 4
+    const metadataLength = view.getUint32(offset, true); offset += 4
+    const metadata = JSON.parse(new TextDecoder().decode(bytes.subarray(offset, offset + metadataLength)))
+    offset += metadataLength
+
+    const runCount = view.getUint32(offset, true); offset += 4
+    const inputs: InputRun[] = []
+    for (let i = 0; i < runCount; i++) {
+      const mask = view.getUint8(offset); offset += 1
+      const ticks = view.getUint16(offset, true); offset += 2
+      inputs.push([mask, ticks])
+    }
+
+    return ReplayCodec.validate({
+      version,
+      levelId: metadata.levelId ?? null,
+      level: metadata.level ?? null,
+      config: { tickRate, seed, gravity },
+      tickCount,
+      inputs,
+      recordedAt: metadata.recordedAt
+    })
+  }
+
+  private static validate(data: any): Replay {
+    if (!data || typeof data !== 'object') {
+      throw new Error('Replay must be an object')
+    }
+    if (data.version !== REPLAY_FORMAT_VERSION) {
+      throw new Error(`Unsupported replay version: ${data.version}`)
+    }
+    const config = data.config
+    if (!config || typeof config.tickRate !== 'number' || config.tickRate <= 0 ||
+        typeof config.seed !== 'number' || typeof config.gravity !== 'number') {
+      throw new Error('Replay is missing its engine config')
+    }
+    if (!Array.isArray(data.inputs)) {
+      throw new Error('Replay is missing its input track')
+    }
+
+    const total = data.inputs.reduce((sum: number, run: any) => {
+      if (!Array.isArray(run) || run.length !== 2 || !(run[1] >= 1)) {
+        throw new Error('Replay input track is corrupt')
+      }
+      return sum + run[1]
+    }, 0)
+    if (total !== data.tickCount) {
+      throw new Error(`Replay input track covers ${total} ticks, expected ${data.tickCount}`)
+    }
+
+    const level = data.level ?? null
+    if (level !== null && (!['document', 'drawn', 'builder'].includes(level.format) || !level.data)) {
+      throw new Error('Replay level must be a level document or drawn or builder data')
+    }
+
+    return {
+      version: data.version,
+      levelId: data.levelId ?? null,
+      level,
+      config: { tickRate: config.tickRate, seed: config.seed, gravity: config.gravity },
+      tickCount: data.tickCount,
+      inputs: data.inputs,
+      recordedAt: data.recordedAt || new Date(0).toISOString()
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { InputSource, InputState } from '../input/InputManager'
+import { Replay, ReplayCodec } from './Replay'
+
+/**
+ * ReplayPlayer - Feeds a recorded input track back to the engine one tick at a time
+ */
+export class ReplayPlayer implements InputSource {
+  private replay: Replay
+  private runIndex = 0
+  private runTick = 0
+  private tick = 0
+
+  constructor(replay: Replay) {
+    this.replay = replay
+  }
+
+  public getInput(): InputState {
+    const run = this.replay.inputs[this.runIndex]
+    if (!run) {
+      // Past the end of the recording - nothing held
+      return ReplayCodec.decodeInput(0)
+    }
+
+    const input = ReplayCodec.decodeInput(run[0])
+    this.tick++
+    this.runTick++
+    if (this.runTick >= run[1]) {
+      this.runIndex++
+      this.runTick = 0
+    }
+    return input
+  }
+
+  public isFinished(): boolean {
+    return this.tick >= this.replay.tickCount
+  }
+
+  public getTick(): number {
+    return this.tick
+  }
+
+  public getReplay(): Replay {
+    return this.replay
+  }
+}
@@ -0,0 +1,49 @@
+import { InputState } from '../input/InputManager'
+import type { LevelSource } from '../GameEngine'
+import { Replay, ReplayCodec, ReplayConfig, InputRun, REPLAY_FORMAT_VERSION } from './Replay'
+
+/**
+ * ReplayRecorder - Captures the input the engine consumed on every tick
+ */
+export class ReplayRecorder {
+  private inputs: InputRun[] = []
+  private tickCount = 0
+  private levelId: string | null
+  private level: LevelSource | null
+  private config: ReplayConfig
+
+  constructor(levelId: string | null, level: LevelSource | null, config: ReplayConfig) {
+    this.levelId = levelId
+    // Copy so later edits to the live level can't change what was recorded
+    this.level = level ? { format: level.format, data: JSON.parse(JSON.stringify(level.data)) } : null
+    this.config = { ...config }
+  }
+
+  public record(input: InputState) {
+    const mask = ReplayCodec.encodeInput(input)
+    const last = this.inputs[this.inputs.length - 1]
+
+    if (last && last[0] === mask) {
+      last[1]++
+    } else {
+      this.inputs.push([mask, 1])
+    }
+    this.tickCount++
+  }
+
+  public getTickCount(): number {
+    return this.tickCount
+  }
+
+  public finish(): Replay {
+    return {
+      version: REPLAY_FORMAT_VERSION,
+      levelId: this.levelId,
+      level: this.level,
+      config: { ...this.config },
+      tickCount: this.tickCount,
+      inputs: this.inputs.map(([mask, ticks]) => [mask, ticks] as InputRun),
+      recordedAt: new Date().toISOString()
+    }
+  }
+}
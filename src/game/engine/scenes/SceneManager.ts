@@ -0,0 +1,155 @@
+import type { AABB } from '../physics/PhysicsEngine'
+import type { MenuInput } from '../input/InputManager'
+
+export type SceneName = 'title' | 'playing' | 'paused' | 'level_complete' | 'game_over' | 'pack_complete'
+
+export interface MenuItem {
+  label: string
+  action: () => void
+}
+
+/**
+ * What a scene shows over the frozen (or still running) level
+ */
+export interface SceneMenu {
+  title: string
+  // Smaller lines under the title (score, level counter...)
+  lines: string[]
+  items: MenuItem[]
+  // Run when pause/back is pressed inside the menu
+  back?: () => void
+}
+
+const NO_MENU_INPUT: MenuInput = { up: false, down: false, confirm: false, pause: false, taps: [] }
+
+// Seconds a new scene ignores input, so a button mashed in play doesn't pick a menu item
+const SCENE_INPUT_DELAY = 0.4
+
+const MENU_ITEM_WIDTH = 320
+const MENU_ITEM_HEIGHT = 44
+const MENU_ITEM_GAP = 12
+// Menu items start this far below the screen centre, leaving room for the title and lines
+const MENU_TOP_OFFSET = 40
+
+// Touch target for pausing during play (top-right corner)
+const PAUSE_BUTTON_SIZE = 44
+const PAUSE_BUTTON_MARGIN = 12
+
+/**
+ * SceneManager - Which screen the game is on and the menu cursor within it
+ * The engine owns the transitions and builds each scene's menu; this class
+ * turns edges of menu input (keys, pad, taps) into selections and actions.
+ */
+export class SceneManager {
+  private scene: SceneName
+  private selected = 0
+  private previous: MenuInput = NO_MENU_INPUT
+  private inputDelay = 0
+
+  constructor(initial: SceneName) {
+    this.scene = initial
+  }
+
+  public getScene(): SceneName {
+    return this.scene
+  }
+
+  public setScene(scene: SceneName) {
+    if (scene === this.scene) return
+
+    this.scene = scene
+    this.selected = 0
+    this.inputDelay = SCENE_INPUT_DELAY
+  }
+
+  /**
+   * Scenes where the level keeps ticking underneath
+   */
+  public isSimulating(): boolean {
+    return this.scene === 'playing' || this.scene === 'level_complete'
+  }
+
+  public getSelected(): number {
+    return this.selected
+  }
+
+  /**
+   * React to this frame's menu input. onPause runs when pause is pressed or
+   * the pause button tapped during play.
+   */
+  public handleInput(input: MenuInput, menu: SceneMenu | null, width: number, height: number, dt: number, onPause: () => void) {
+    const previous = this.previous
+    this.previous = input
+
+    if (this.inputDelay > 0) {
+      this.inputDelay = Math.max(0, this.inputDelay - dt)
+      return
+    }
+
+    const pressed = (key: 'up' | 'down' | 'confirm' | 'pause') => input[key] && !previous[key]
+
+    if (this.scene === 'playing') {
+      const pauseButton = SceneManager.getPauseButtonBounds(width)
+      if (pressed('pause') || input.taps.some(tap => this.contains(pauseButton, tap))) {
+        onPause()
+      }
+      return
+    }
+
+    if (!menu) return
+
+    if (pressed('pause') && menu.back) {
+      menu.back()
+      return
+    }
+
+    const count = menu.items.length
+    if (count === 0) return
+
+    if (pressed('up')) {
+      this.selected = (this.selected - 1 + count) % count
+    }
+    if (pressed('down')) {
+      this.selected = (this.selected + 1) % count
+    }
+
+    const layout = SceneManager.layoutItems(count, width, height)
+    const tapped = layout.findIndex(bounds => input.taps.some(tap => this.contains(bounds, tap)))
+    if (tapped !== -1) {
+      this.selected = tapped
+      menu.items[tapped].action()
+      return
+    }
+
+    if (pressed('confirm')) {
+      menu.items[Math.min(this.selected, count - 1)].action()
+    }
+  }
+
+  /**
+   * Screen-space boxes of a menu's items, shared by drawing and tap hit-testing
+   */
+  public static layoutItems(count: number, width: number, height: number): AABB[] {
+    const x = (width - MENU_ITEM_WIDTH) / 2
+    const top = height / 2 + MENU_TOP_OFFSET
+    const items: AABB[] = []
+    for (let i = 0; i < count; i++) {
+      items.push({ x, y: top + i * (MENU_ITEM_HEIGHT + MENU_ITEM_GAP), width: MENU_ITEM_WIDTH, height: MENU_ITEM_HEIGHT })
+    }
+    return items
+  }
+
+  public static getPauseButtonBounds(width: number): AABB {
+    return {
+      x: width - PAUSE_BUTTON_SIZE - PAUSE_BUTTON_MARGIN,
+      y: PAUSE_BUTTON_MARGIN,
+      width: PAUSE_BUTTON_SIZE,
+      height: PAUSE_BUTTON_SIZE
+    }
+  }
+
+  private contains(bounds: AABB, point: { x: number; y: number }): boolean {
+    return point.x >= bounds.x && point.x <= bounds.x + bounds.width &&
+           point.y >= bounds.y && point.y <= bounds.y + bounds.height
+  }
+}
@@ -0,0 +1,248 @@
+import type { LevelData as DrawnLevelData } from '../../levelLoader'
+import type { LevelData as BuilderLevelData } from '../LevelBuilder'
+import { LEVEL_SCHEMA_VERSION, MUSIC_MOODS, REGION_TYPES } from './LevelSchema'
+import type { LevelDocument, LevelExtras, LevelPoint } from './LevelSchema'
+
+// MapProcessingService's view of a recognized map, scaled up to the photo's size
+export interface GamePosition {
+  x: number
+  y: number
+  area?: number
+}
+
+export interface GamePlatform {
+  id: string
+  x: number
+  y: number
+  width: number
+  height: number
+  centroid: { x: number; y: number }
+  area: number
+  vertices: { x: number; y: number }[]
+}
+
+export interface GameData {
+  startPosition: GamePosition | null
+  endPosition: GamePosition | null
+  checkpoints?: GamePosition[]
+  platforms: GamePlatform[]
+  worldSize: { width: number; height: number }
+  metadata: {
+    totalShapes: number
+    startPoints: number
+    endPoints: number
+    platforms: number
+    scaleFactor: number
+  }
+}
+
+export type LegacyLevelFormat = 'drawn' | 'builder' | 'gameData'
+
+// Scale the recognizer applies when the backend doesn't report one
+const DEFAULT_SCALE_FACTOR = 0.3
+
+/**
+ * Everything in `source` except `known`, or undefined when nothing is left
+ */
+function collectExtras(source: Record<string, any>, known: string[]): LevelExtras | undefined {
+  const extras: LevelExtras = {}
+  Object.keys(source).forEach(key => {
+    if (!known.includes(key) && source[key] !== undefined) {
+      extras[key] = source[key]
+    }
+  })
+  return Object.keys(extras).length > 0 ? extras : undefined
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value)
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// The entries of a list that are objects - the backend sometimes sends broken ones
+function objects(value: unknown): Record<string, any>[] {
+  return Array.isArray(value) ? value.filter(isObject) : []
+}
+
+function isCoordinates(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length >= 2 && isNumber(value[0]) && isNumber(value[1])
+}
+
+// Only the [x, y] pairs that are numbers
+function toPoints(value: unknown): [number, number][] {
+  return Array.isArray(value) ? value.filter(isCoordinates).map(([x, y]) => [x, y] as [number, number]) : []
+}
+
+function isImageSize(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length >= 2 && value[0] > 0 && value[1] > 0
+}
+
+function withExtras<T extends object>(value: T, extras: LevelExtras | undefined): T & { extras?: LevelExtras } {
+  return extras ? { ...value, extras } : value
+}
+
+/**
+ * LegacyFormats - Converters from the level formats that predate LevelDocument
+ *
+ * - drawn: the recognition backend's starting_points / end_points / checkpoint_points / rigid_bodies
+ * - builder: LevelBuilder's platforms / polygons / playerStart / goal
+ * - gameData: MapProcessingService's startPosition / platforms / worldSize
+ *
+ * Fields a format has that the schema doesn't model are kept in `extras`.
+ */
+export class LegacyFormats {
+  /**
+   * Which format the data is in, or null if none - throws when it has the
+   * fields of more than one, rather than guessing
+   */
+  static detect(data: any): LegacyLevelFormat | null {
+    if (!data || typeof data !== 'object') return null
+
+    // GameData also has `platforms`, so it takes its start position and platform list together
+    const isGameData = 'startPosition' in data && Array.isArray(data.platforms)
+    if ('startPosition' in data && !isGameData) {
+      throw new Error('GameData level data needs a platforms array')
+    }
+
+    const formats: LegacyLevelFormat[] = []
+    if (isGameData) formats.push('gameData')
+    if ('rigid_bodies' in data || 'starting_points' in data || 'end_points' in data) formats.push('drawn')
+    if (!isGameData && ('platforms' in data || 'polygons' in data || 'playerStart' in data)) formats.push('builder')
+
+    if (formats.length > 1) {
+      throw new Error(`Ambiguous level data - it has fields of both ${formats.join(' and ')} levels`)
+    }
+    return formats[0] ?? null
+  }
+
+  static toDocument(data: any): LevelDocument {
+    const format = this.detect(data)
+    switch (format) {
+      case 'drawn':
+        return this.fromDrawn(data)
+      case 'builder':
+        return this.fromBuilder(data)
+      case 'gameData':
+        return this.fromGameData(data)
+      default:
+        throw new Error('Unrecognized level format - expected drawn, builder or GameData level data')
+    }
+  }
+
+  /**
+   * Entries the backend got wrong - points without coordinates, outlines with
+   * too few points, unknown region types - are dropped, the way the old loader
+   * did, so one bad shape doesn't stop the whole level loading
+   */
+  static fromDrawn(data: DrawnLevelData & Record<string, any>): LevelDocument {
+    const toPoint = (entry: Record<string, any>): LevelPoint => withExtras(
+      { x: entry.coordinates[0], y: entry.coordinates[1] },
+      collectExtras(entry, ['coordinates'])
+    )
+    const points = (value: unknown) => objects(value).filter(entry => isCoordinates(entry.coordinates))
+    const [start, ...otherStarts] = points(data.starting_points)
+    const [end, ...otherEnds] = points(data.end_points)
+
+    // The engine only uses the first start and end point; the rest ride along untouched
+    const extras = collectExtras(data, ['starting_points', 'end_points', 'checkpoint_points', 'rigid_bodies', 'regions', 'coins', 'enemies', 'image_size', 'camera', 'music']) || {}
+    if (otherStarts.length > 0) extras.starting_points = otherStarts
+    if (otherEnds.length > 0) extras.end_points = otherEnds
+
+    return withExtras({
+      version: LEVEL_SCHEMA_VERSION,
+      playerStart: start ? toPoint(start) : null,
+      goal: end ? toPoint(end) : null,
+      platforms: [],
+      polygons: objects(data.rigid_bodies)
+        .map(body => ({ body, points: toPoints(body.contour_points) }))
+        // Fewer than 3 points can't enclose anything - the old loader dropped these too
+        .filter(({ points }) => points.length >= 3)
+        .map(({ body, points }) => withExtras({ points }, collectExtras(body, ['contour_points']))),
+      ...(data.regions !== undefined ? {
+        regions: objects(data.regions)
+          .map(region => ({ region, points: toPoints(region.contour_points) }))
+          .filter(({ region, points }) => REGION_TYPES.includes(region.type) && points.length >= 3)
+          .map(({ region, points }) => withExtras(
+            { type: region.type, points, ...(isNumber(region.speed) ? { speed: region.speed } : {}) },
+            collectExtras(region, ['contour_points', 'type', 'speed'])
+          ))
+      } : {}),
+      enemies: objects(data.enemies)
+        .filter(enemy => isNumber(enemy.x) && isNumber(enemy.y))
+        .map(enemy => withExtras(
+          { x: enemy.x, y: enemy.y, type: typeof enemy.type === 'string' && enemy.type ? enemy.type : 'goomba' },
+          collectExtras(enemy, ['x', 'y', 'type'])
+        )),
+      coins: objects(data.coins)
+        .filter(coin => isNumber(coin.x) && isNumber(coin.y))
+        .map(coin => withExtras({ x: coin.x, y: coin.y }, collectExtras(coin, ['x', 'y']))),
+      powerUps: [],
+      ...(data.checkpoint_points !== undefined ? { checkpoints: points(data.checkpoint_points).map(toPoint) } : {}),
+      // image_size is [height, width] - the canvas the shapes were recognized on
+      ...(isImageSize(data.image_size) ? { worldSize: { width: data.image_size[1], height: data.image_size[0] } } : {}),
+      // Pack levels may carry a camera setup and music mood - LevelSchema validates the camera,
+      // a mood this game doesn't know just falls back to the default
+      ...(data.camera !== undefined ? { camera: data.camera } : {}),
+      ...(MUSIC_MOODS.includes(data.music) ? { music: data.music } : {})
+    }, Object.keys(extras).length > 0 ? extras : undefined)
+  }
+
+  static fromBuilder(data: BuilderLevelData & Record<string, any>): LevelDocument {
+    const known = ['platforms', 'polygons', 'enemies', 'coins', 'powerUps', 'playerStart', 'goal']
+
+    return withExtras({
+      version: LEVEL_SCHEMA_VERSION,
+      playerStart: data.playerStart ? { x: data.playerStart.x, y: data.playerStart.y } : null,
+      goal: data.goal ? { x: data.goal.x, y: data.goal.y } : null,
+      platforms: (data.platforms || []).map(p => withExtras(
+        { x: p.x, y: p.y, width: p.width, height: p.height, type: p.type },
+        collectExtras(p, ['x', 'y', 'width', 'height', 'type'])
+      )),
+      polygons: (data.polygons || []).map(p => withExtras(
+        { points: p.contours.map(point => [point[0], point[1]] as [number, number]), type: p.type },
+        collectExtras(p, ['contours', 'type'])
+      )),
+      enemies: (data.enemies || []).map(e => withExtras(
+        { x: e.x, y: e.y, type: e.type, size: e.size },
+        collectExtras(e, ['x', 'y', 'type', 'size'])
+      )),
+      coins: (data.coins || []).map(c => withExtras(
+        { x: c.x, y: c.y },
+        collectExtras(c, ['x', 'y'])
+      )),
+      powerUps: (data.powerUps || []).map(p => withExtras(
+        { x: p.x, y: p.y, type: p.type },
+        collectExtras(p, ['x', 'y', 'type'])
+      ))
+    }, collectExtras(data, known))
+  }
+
+  /**
+   * GameData is scaled up by 1 / scaleFactor for display - scale it back down
+   * into the level space the engine plays in
+   */
+  static fromGameData(data: GameData): LevelDocument {
+    const scale = data.metadata?.scaleFactor || DEFAULT_SCALE_FACTOR
+    const toPoint = (position: GamePosition): LevelPoint => withExtras(
+      { x: position.x * scale, y: position.y * scale },
+      collectExtras(position, ['x', 'y'])
+    )
+
+    return withExtras({
+      version: LEVEL_SCHEMA_VERSION,
+      playerStart: data.startPosition ? toPoint(data.startPosition) : null,
+      goal: data.endPosition ? toPoint(data.endPosition) : null,
+      platforms: [],
+      polygons: (data.platforms || [])
+        .filter(platform => platform.vertices && platform.vertices.length >= 3)
+        .map(platform => withExtras(
+          { points: platform.vertices.map(vertex => [vertex.x * scale, vertex.y * scale] as [number, number]) },
+          // Bounding box, centroid and area stay in GameData's display scale
+          collectExtras(platform, ['vertices'])
+        )),
+      enemies: [],
+      coins: [],
+      powerUps: [],
+      ...(data.checkpoints ? { checkpoints: data.checkpoints.map(toPoint) } : {}),
+      ...(data.worldSize ? { worldSize: { width: data.worldSize.width * scale, height: data.worldSize.height * scale } } : {})
+    }, collectExtras(data, ['startPosition', 'endPosition', 'checkpoints', 'platforms', 'worldSize']))
+  }
+}
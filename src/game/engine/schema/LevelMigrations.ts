@@ -0,0 +1,44 @@
+import { LegacyFormats } from './LegacyFormats'
+import { LEVEL_SCHEMA_VERSION, LevelSchema } from './LevelSchema'
+import type { LevelDocument } from './LevelSchema'
+
+/**
+ * Each migration upgrades a level from the version it is keyed on to the next one.
+ * Version 0 is any unversioned legacy format.
+ */
+const MIGRATIONS: Record<number, (level: any) => any> = {
+  0: level => LegacyFormats.toDocument(level)
+}
+
+/**
+ * LevelMigrations - Brings level data of any known format or version up to
+ * the current LevelDocument schema and validates the result
+ */
+export class LevelMigrations {
+  static getVersion(data: any): number {
+    return typeof data?.version === 'number' ? data.version : 0
+  }
+
+  static migrate(data: unknown): LevelDocument {
+    if (!data || typeof data !== 'object') {
+      throw new Error('Level data must be an object')
+    }
+
+    let level: any = data
+    let version = this.getVersion(level)
+    if (version > LEVEL_SCHEMA_VERSION) {
+      throw new Error(`Level version ${version} is newer than this game supports (${LEVEL_SCHEMA_VERSION})`)
+    }
+
+    while (version < LEVEL_SCHEMA_VERSION) {
+      const migration = MIGRATIONS[version]
+      if (!migration) {
+        throw new Error(`No migration from level version ${version}`)
+      }
+      level = { ...migration(level), version: version + 1 }
+      version++
+    }
+
+    return LevelSchema.validate(level)
+  }
+}
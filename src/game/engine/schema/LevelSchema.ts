@@ -0,0 +1,565 @@
+export const LEVEL_SCHEMA_VERSION = 1
+
+// Where the player spawns when a level doesn't say
+export const DEFAULT_PLAYER_START = { x: 100, y: 400 }
+
+// World size for a level with no terrain to measure
+export const DEFAULT_WORLD_SIZE = { width: 3000, height: 600 }
+
+// The goal is built as a pipe this size at the goal point
+const GOAL_SIZE = { width: 50, height: 100 }
+
+// Checkpoint flags are this size, drawn from their point down
+export const CHECKPOINT_SIZE = { width: 24, height: 64 }
+
+/**
+ * Fields from a source format the schema doesn't model, carried along
+ * untouched so converting a legacy level never throws information away
+ */
+export type LevelExtras = Record<string, unknown>
+
+export interface LevelSize {
+  width: number
+  height: number
+}
+
+export const CAMERA_MODES = ['horizontal', 'follow', 'lookahead', 'vertical'] as const
+export type CameraMode = typeof CAMERA_MODES[number]
+
+// Background music styles - the LevelBuilder presets plus sky levels
+export const MUSIC_MOODS = ['overworld', 'underground', 'castle', 'sky'] as const
+export type MusicMood = typeof MUSIC_MOODS[number]
+
+// How the sky behind a level or area is drawn
+export const LEVEL_BACKGROUNDS = ['sky', 'underground', 'castle'] as const
+export type LevelBackground = typeof LEVEL_BACKGROUNDS[number]
+
+// What a block gives when hit from below - 'coins' is a block that pays out several
+export const BLOCK_CONTENTS = ['coin', 'coins', 'mushroom', 'flower', 'star', '1up'] as const
+export type BlockContents = typeof BLOCK_CONTENTS[number]
+
+// Areas that change how things move inside them rather than blocking them.
+// Water can be swum in, lava and pits are deadly, ice is slippery and
+// conveyors carry whatever stands on them.
+export const REGION_TYPES = ['water', 'lava', 'pit', 'ice', 'conveyor'] as const
+export type RegionType = typeof REGION_TYPES[number]
+
+// How a moving platform runs its path - out and back again, or round from the last point to the first
+export const PATH_MODES = ['linear', 'loop'] as const
+export type PathMode = typeof PATH_MODES[number]
+
+// What a platform does once stood on - drop away, or break up and reform a few seconds later
+export const PLATFORM_TRIGGERS = ['falling', 'crumbling'] as const
+export type PlatformTrigger = typeof PLATFORM_TRIGGERS[number]
+
+/**
+ * How the camera tracks the player on this level. Every field is optional -
+ * the camera picks horizontal or follow from the world's shape when mode is unset.
+ */
+export interface LevelCamera {
+  mode?: CameraMode
+  // 0 snaps to the target each tick, values towards 1 ease in more slowly
+  smoothing?: number
+  // Box around the screen centre the player can move in without the camera moving
+  deadZone?: LevelSize
+  // How far ahead of the player the lookahead camera leads
+  lookAhead?: number
+  // World area the camera is kept within
+  bounds?: { minX: number; maxX: number; minY: number; maxY: number }
+}
+
+export interface LevelPoint {
+  x: number
+  y: number
+  extras?: LevelExtras
+}
+
+/**
+ * Waypoints a moving platform travels through, as [dx, dy] offsets from where
+ * it is placed - the placed position is always the first point
+ */
+export interface LevelPlatformPath {
+  points: [number, number][]
+  // Pixels per second
+  speed: number
+  // linear when unset
+  mode?: PathMode
+}
+
+/**
+ * Where a warp pipe takes the player - a point in the main level, or in one
+ * of its areas
+ */
+export interface LevelWarp {
+  x: number
+  y: number
+  // Id of the area to come out in - the main level when unset
+  area?: string
+}
+
+export interface LevelPlatform {
+  x: number
+  y: number
+  width: number
+  height: number
+  type?: string
+  // Question, brick and hidden blocks only - question blocks hold a coin and hidden blocks a 1-up unless set
+  contents?: BlockContents
+  path?: LevelPlatformPath
+  trigger?: PlatformTrigger
+  // Can be jumped up through and only landed on from above
+  oneWay?: boolean
+  // Pipes only - pressing down on top of the pipe warps the player here
+  warp?: LevelWarp
+  extras?: LevelExtras
+}
+
+export interface LevelPolygon {
+  points: [number, number][]
+  type?: string
+  extras?: LevelExtras
+}
+
+export interface LevelEnemy {
+  x: number
+  y: number
+  type: string
+  size?: number
+  extras?: LevelExtras
+}
+
+export interface LevelPowerUp {
+  x: number
+  y: number
+  type: string
+  extras?: LevelExtras
+}
+
+/**
+ * A region's outline, like a polygon's. Ice and conveyors act on whatever
+ * stands with its feet inside them, so they are drawn over the top of the
+ * ground they cover.
+ */
+export interface LevelRegion {
+  type: RegionType
+  points: [number, number][]
+  // Conveyors only - pixels per second, negative runs left
+  speed?: number
+  extras?: LevelExtras
+}
+
+/**
+ * A separate room a level's warp pipes can lead to, such as an underground
+ * bonus room. It has its own world, camera, music and background; checkpoints,
+ * the player's start and the goal always belong to the main level.
+ */
+export interface LevelArea {
+  id: string
+  platforms: LevelPlatform[]
+  polygons: LevelPolygon[]
+  enemies: LevelEnemy[]
+  coins: LevelPoint[]
+  powerUps: LevelPowerUp[]
+  regions?: LevelRegion[]
+  worldSize?: LevelSize
+  camera?: LevelCamera
+  music?: MusicMood
+  // Underground when unset
+  background?: LevelBackground
+  extras?: LevelExtras
+}
+
+/**
+ * The canonical level format. Drawn levels, LevelBuilder levels and the
+ * recognizer's GameData are all migrated to this before they are played.
+ */
+export interface LevelDocument {
+  version: number
+  // null when the source had none - the engine falls back to a default spawn
+  playerStart: LevelPoint | null
+  goal: LevelPoint | null
+  platforms: LevelPlatform[]
+  polygons: LevelPolygon[]
+  enemies: LevelEnemy[]
+  coins: LevelPoint[]
+  powerUps: LevelPowerUp[]
+  // Respawn flags - a checkpoint's number is its index here
+  checkpoints?: LevelPoint[]
+  // Water, lava, pits, ice and conveyors
+  regions?: LevelRegion[]
+  // Explicit world bounds, e.g. the scanned image's size - grown to fit content if smaller
+  worldSize?: LevelSize
+  camera?: LevelCamera
+  // Style of the level's generated music - overworld when unset
+  music?: MusicMood
+  // Sky when unset
+  background?: LevelBackground
+  // Rooms reached through warp pipes
+  areas?: LevelArea[]
+  extras?: LevelExtras
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value)
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * LevelSchema - Runtime validation for LevelDocument
+ * validate() checks every field and reports all problems at once, returning a
+ * copy holding only the fields the schema knows about.
+ */
+export class LevelSchema {
+  static createEmpty(): LevelDocument {
+    return {
+      version: LEVEL_SCHEMA_VERSION,
+      playerStart: { ...DEFAULT_PLAYER_START },
+      goal: null,
+      platforms: [],
+      polygons: [],
+      enemies: [],
+      coins: [],
+      powerUps: []
+    }
+  }
+
+  /**
+   * The world a level plays in: its explicit worldSize, grown to cover every
+   * platform, shape and entity it contains. The world always starts at 0, 0.
+   */
+  static getWorldSize(level: Omit<LevelArea, 'id'> & Partial<Pick<LevelDocument, 'playerStart' | 'goal' | 'checkpoints'>>): LevelSize {
+    let right = 0
+    let bottom = 0
+    const include = (x: number, y: number) => {
+      right = Math.max(right, x)
+      bottom = Math.max(bottom, y)
+    }
+
+    level.platforms.forEach(p => {
+      include(p.x + p.width, p.y + p.height)
+      p.path?.points.forEach(([dx, dy]) => include(p.x + dx + p.width, p.y + dy + p.height))
+    })
+    level.polygons.forEach(p => p.points.forEach(([x, y]) => include(x, y)))
+    level.regions?.forEach(r => r.points.forEach(([x, y]) => include(x, y)))
+    level.enemies.forEach(e => include(e.x, e.y))
+    level.coins.forEach(c => include(c.x, c.y))
+    level.powerUps.forEach(p => include(p.x, p.y))
+    level.checkpoints?.forEach(c => include(c.x + CHECKPOINT_SIZE.width, c.y + CHECKPOINT_SIZE.height))
+    if (level.playerStart) include(level.playerStart.x, level.playerStart.y)
+    if (level.goal) include(level.goal.x + GOAL_SIZE.width, level.goal.y + GOAL_SIZE.height)
+
+    // Nothing solid to measure - e.g. a level that is still being built
+    if (!level.worldSize && level.platforms.length === 0 && level.polygons.length === 0) {
+      return { ...DEFAULT_WORLD_SIZE }
+    }
+    return {
+      width: Math.max(level.worldSize?.width ?? 0, right),
+      height: Math.max(level.worldSize?.height ?? 0, bottom)
+    }
+  }
+
+  static validate(data: unknown): LevelDocument {
+    const problems: string[] = []
+
+    if (!isObject(data)) {
+      throw new Error('Invalid level: expected an object')
+    }
+    if (data.version !== LEVEL_SCHEMA_VERSION) {
+      problems.push(`version must be ${LEVEL_SCHEMA_VERSION}, got ${JSON.stringify(data.version)}`)
+    }
+
+    const extras = (value: any, path: string): { extras?: LevelExtras } => {
+      if (value === undefined) return {}
+      if (!isObject(value)) {
+        problems.push(`${path}.extras must be an object`)
+        return {}
+      }
+      return { extras: value }
+    }
+
+    const optionalString = (value: any, path: string): string | undefined => {
+      if (value === undefined) return undefined
+      if (typeof value !== 'string') problems.push(`${path} must be a string`)
+      return value
+    }
+
+    const point = (value: any, path: string): LevelPoint | null => {
+      if (!isObject(value) || !isNumber(value.x) || !isNumber(value.y)) {
+        problems.push(`${path} must have numeric x and y`)
+        return null
+      }
+      return { x: value.x, y: value.y, ...extras(value.extras, path) }
+    }
+
+    const worldSize = (value: any, path = 'worldSize'): { worldSize?: LevelSize } => {
+      if (value === undefined) return {}
+      if (!isObject(value) || !isNumber(value.width) || !isNumber(value.height) || value.width <= 0 || value.height <= 0) {
+        problems.push(`${path} must have a positive width and height`)
+        return {}
+      }
+      return { worldSize: { width: value.width, height: value.height } }
+    }
+
+    const camera = (value: any, path = 'camera'): { camera?: LevelCamera } => {
+      if (value === undefined) return {}
+      if (!isObject(value)) {
+        problems.push(`${path} must be an object`)
+        return {}
+      }
+      const result: LevelCamera = {}
+      if (value.mode !== undefined) {
+        if (CAMERA_MODES.includes(value.mode)) result.mode = value.mode
+        else problems.push(`${path}.mode must be one of ${CAMERA_MODES.join(', ')}`)
+      }
+      if (value.smoothing !== undefined) {
+        if (isNumber(value.smoothing) && value.smoothing >= 0 && value.smoothing < 1) result.smoothing = value.smoothing
+        else problems.push(`${path}.smoothing must be a number from 0 up to 1`)
+      }
+      if (value.deadZone !== undefined) {
+        if (isObject(value.deadZone) && isNumber(value.deadZone.width) && isNumber(value.deadZone.height) &&
+            value.deadZone.width >= 0 && value.deadZone.height >= 0) {
+          result.deadZone = { width: value.deadZone.width, height: value.deadZone.height }
+        } else {
+          problems.push(`${path}.deadZone must have a non-negative width and height`)
+        }
+      }
+      if (value.lookAhead !== undefined) {
+        if (isNumber(value.lookAhead) && value.lookAhead >= 0) result.lookAhead = value.lookAhead
+        else problems.push(`${path}.lookAhead must be a non-negative number`)
+      }
+      if (value.bounds !== undefined) {
+        const b = value.bounds
+        if (isObject(b) && isNumber(b.minX) && isNumber(b.maxX) && isNumber(b.minY) && isNumber(b.maxY) &&
+            b.maxX > b.minX && b.maxY > b.minY) {
+          result.bounds = { minX: b.minX, maxX: b.maxX, minY: b.minY, maxY: b.maxY }
+        } else {
+          problems.push(`${path}.bounds must have numeric minX < maxX and minY < maxY`)
+        }
+      }
+      return { camera: result }
+    }
+
+    const music = (value: any, path = 'music'): { music?: MusicMood } => {
+      if (value === undefined) return {}
+      if (!MUSIC_MOODS.includes(value)) {
+        problems.push(`${path} must be one of ${MUSIC_MOODS.join(', ')}`)
+        return {}
+      }
+      return { music: value }
+    }
+
+    const background = (value: any, path = 'background'): { background?: LevelBackground } => {
+      if (value === undefined) return {}
+      if (!LEVEL_BACKGROUNDS.includes(value)) {
+        problems.push(`${path} must be one of ${LEVEL_BACKGROUNDS.join(', ')}`)
+        return {}
+      }
+      return { background: value }
+    }
+
+    // Checked against the level's area ids once every area has been read
+    const warpAreas: { area: string; path: string }[] = []
+    const warp = (value: any, path: string): { warp?: LevelWarp } => {
+      if (value === undefined) return {}
+      if (!isObject(value) || !isNumber(value.x) || !isNumber(value.y)) {
+        problems.push(`${path}.warp must have numeric x and y`)
+        return {}
+      }
+      if (value.area !== undefined && typeof value.area !== 'string') {
+        problems.push(`${path}.warp.area must be a string`)
+        return {}
+      }
+      if (value.area !== undefined) {
+        warpAreas.push({ area: value.area, path: `${path}.warp.area` })
+      }
+      return { warp: { x: value.x, y: value.y, area: value.area } }
+    }
+
+    const platformPath = (value: any, path: string): { path?: LevelPlatformPath } => {
+      if (value === undefined) return {}
+      if (!isObject(value) || !Array.isArray(value.points) || value.points.length === 0 ||
+          !value.points.every((p: any) => Array.isArray(p) && p.length === 2 && isNumber(p[0]) && isNumber(p[1]))) {
+        problems.push(`${path}.path.points must be one or more [dx, dy] pairs`)
+        return {}
+      }
+      if (!isNumber(value.speed) || value.speed <= 0) {
+        problems.push(`${path}.path.speed must be a positive number`)
+        return {}
+      }
+      if (value.mode !== undefined && !PATH_MODES.includes(value.mode)) {
+        problems.push(`${path}.path.mode must be one of ${PATH_MODES.join(', ')}`)
+        return {}
+      }
+      return {
+        path: {
+          points: value.points.map((p: [number, number]) => [p[0], p[1]] as [number, number]),
+          speed: value.speed,
+          mode: value.mode
+        }
+      }
+    }
+
+    const list = <T>(value: any, path: string, item: (value: any, path: string) => T | null): T[] => {
+      if (!Array.isArray(value)) {
+        problems.push(`${path} must be an array`)
+        return []
+      }
+      return value
+        .map((entry, index) => item(entry, `${path}[${index}]`))
+        .filter((entry): entry is T => entry !== null)
+    }
+
+    const platform = (value: any, path: string): LevelPlatform | null => {
+      const base = point(value, path)
+      if (!base) return null
+      if (!isNumber(value.width) || !isNumber(value.height) || value.width <= 0 || value.height <= 0) {
+        problems.push(`${path} must have a positive width and height`)
+        return null
+      }
+      if (value.contents !== undefined && !BLOCK_CONTENTS.includes(value.contents)) {
+        problems.push(`${path}.contents must be one of ${BLOCK_CONTENTS.join(', ')}`)
+      }
+      if (value.trigger !== undefined && !PLATFORM_TRIGGERS.includes(value.trigger)) {
+        problems.push(`${path}.trigger must be one of ${PLATFORM_TRIGGERS.join(', ')}`)
+      }
+      if (value.oneWay !== undefined && typeof value.oneWay !== 'boolean') {
+        problems.push(`${path}.oneWay must be a boolean`)
+      }
+      return {
+        ...base,
+        width: value.width,
+        height: value.height,
+        type: optionalString(value.type, `${path}.type`),
+        ...(BLOCK_CONTENTS.includes(value.contents) ? { contents: value.contents as BlockContents } : {}),
+        ...platformPath(value.path, path),
+        ...(PLATFORM_TRIGGERS.includes(value.trigger) ? { trigger: value.trigger as PlatformTrigger } : {}),
+        ...(value.oneWay === true ? { oneWay: true } : {}),
+        ...warp(value.warp, path)
+      }
+    }
+
+    const polygon = (value: any, path: string): LevelPolygon | null => {
+      if (!isObject(value) || !Array.isArray(value.points)) {
+        problems.push(`${path}.points must be an array`)
+        return null
+      }
+      if (value.points.length < 3) {
+        problems.push(`${path} needs at least 3 points`)
+        return null
+      }
+      if (!value.points.every((p: any) => Array.isArray(p) && p.length === 2 && isNumber(p[0]) && isNumber(p[1]))) {
+        problems.push(`${path}.points must be [x, y] pairs`)
+        return null
+      }
+      return {
+        points: value.points.map((p: [number, number]) => [p[0], p[1]] as [number, number]),
+        type: optionalString(value.type, `${path}.type`),
+        ...extras(value.extras, path)
+      }
+    }
+
+    const region = (value: any, path: string): LevelRegion | null => {
+      if (!isObject(value) || !REGION_TYPES.includes(value.type)) {
+        problems.push(`${path}.type must be one of ${REGION_TYPES.join(', ')}`)
+        return null
+      }
+      if (!Array.isArray(value.points) || value.points.length < 3 ||
+          !value.points.every((p: any) => Array.isArray(p) && p.length === 2 && isNumber(p[0]) && isNumber(p[1]))) {
+        problems.push(`${path}.points must be at least 3 [x, y] pairs`)
+        return null
+      }
+      if (value.speed !== undefined && !isNumber(value.speed)) {
+        problems.push(`${path}.speed must be a number`)
+      }
+      return {
+        type: value.type,
+        points: value.points.map((p: [number, number]) => [p[0], p[1]] as [number, number]),
+        ...(isNumber(value.speed) ? { speed: value.speed } : {}),
+        ...extras(value.extras, path)
+      }
+    }
+
+    const enemy = (value: any, path: string): LevelEnemy | null => {
+      const base = point(value, path)
+      if (!base) return null
+      if (typeof value.type !== 'string') {
+        problems.push(`${path}.type must be a string`)
+        return null
+      }
+      if (value.size !== undefined && !(isNumber(value.size) && value.size > 0)) {
+        problems.push(`${path}.size must be a positive number`)
+      }
+      return { ...base, type: value.type, size: value.size }
+    }
+
+    const powerUp = (value: any, path: string): LevelPowerUp | null => {
+      const base = point(value, path)
+      if (!base) return null
+      if (typeof value.type !== 'string') {
+        problems.push(`${path}.type must be a string`)
+        return null
+      }
+      return { ...base, type: value.type }
+    }
+
+    const areas = (value: any): { areas?: LevelArea[] } => {
+      if (value === undefined) return {}
+      const ids = new Set<string>()
+      const result = list(value, 'areas', (area, path) => {
+        if (!isObject(area) || typeof area.id !== 'string' || area.id === '') {
+          problems.push(`${path}.id must be a non-empty string`)
+          return null
+        }
+        if (ids.has(area.id)) {
+          problems.push(`${path}.id "${area.id}" is used by another area`)
+        }
+        ids.add(area.id)
+        return {
+          id: area.id,
+          platforms: list(area.platforms, `${path}.platforms`, platform),
+          polygons: list(area.polygons, `${path}.polygons`, polygon),
+          enemies: list(area.enemies, `${path}.enemies`, enemy),
+          coins: list(area.coins, `${path}.coins`, point),
+          powerUps: list(area.powerUps, `${path}.powerUps`, powerUp),
+          ...(area.regions !== undefined ? { regions: list(area.regions, `${path}.regions`, region) } : {}),
+          ...worldSize(area.worldSize, `${path}.worldSize`),
+          ...camera(area.camera, `${path}.camera`),
+          ...music(area.music, `${path}.music`),
+          ...background(area.background, `${path}.background`),
+          ...extras(area.extras, path)
+        }
+      })
+      return { areas: result }
+    }
+
+    const document: LevelDocument = {
+      version: LEVEL_SCHEMA_VERSION,
+      playerStart: data.playerStart === null ? null : point(data.playerStart, 'playerStart'),
+      goal: data.goal === null ? null : point(data.goal, 'goal'),
+      platforms: list(data.platforms, 'platforms', platform),
+      polygons: list(data.polygons, 'polygons', polygon),
+      enemies: list(data.enemies, 'enemies', enemy),
+      coins: list(data.coins, 'coins', point),
+      powerUps: list(data.powerUps, 'powerUps', powerUp),
+      ...(data.checkpoints !== undefined ? { checkpoints: list(data.checkpoints, 'checkpoints', point) } : {}),
+      ...(data.regions !== undefined ? { regions: list(data.regions, 'regions', region) } : {}),
+      ...worldSize(data.worldSize),
+      ...camera(data.camera),
+      ...music(data.music),
+      ...background(data.background),
+      ...areas(data.areas),
+      ...extras(data.extras, 'level')
+    }
+
+    // Warps may lead into areas listed after the pipe, so these are checked last
+    const areaIds = new Set((document.areas || []).map(area => area.id))
+    warpAreas.forEach(({ area, path }) => {
+      if (!areaIds.has(area)) problems.push(`${path} "${area}" is not one of the level's areas`)
+    })
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid level: ${problems.join('; ')}`)
+    }
+
+    // Drop keys left undefined by optional fields so documents serialize cleanly
+    return JSON.parse(JSON.stringify(document))
+  }
+}
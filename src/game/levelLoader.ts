@@ -1,3 +1,11 @@
+import { LevelMigrations } from './engine/schema/LevelMigrations'
+import { REGION_TYPES } from './engine/schema/LevelSchema'
+import type { LevelDocument, RegionType } from './engine/schema/LevelSchema'
+
+/**
+ * The recognition backend's level format (starting_points, rigid_bodies, ...)
+ * Loaders migrate it to a LevelDocument before handing it to the game.
+ */
 export interface LevelData {
   starting_points: Array<{
     coordinates: [number, number]
@@ -5,9 +13,19 @@ export interface LevelData {
   end_points: Array<{
     coordinates: [number, number]
   }>
+  // Diamonds - respawn flags, in drawing order
+  checkpoint_points?: Array<{
+    coordinates: [number, number]
+  }>
   rigid_bodies: Array<{
     contour_points: Array<[number, number]>
   }>
+  // Water, lava, pits, ice and conveyors - speed is for conveyors, in pixels per second
+  regions?: Array<{
+    contour_points: Array<[number, number]>
+    type: RegionType
+    speed?: number
+  }>
   coins?: Array<{
     x: number
     y: number
@@ -17,10 +35,12 @@ export interface LevelData {
     y: number
     type: string
   }>
+  // [height, width] of the canvas the shapes were recognized on
+  image_size?: [number, number]
 }
 
 export interface LevelLoadResult {
-  data: LevelData
+  data: LevelDocument
   source: 'api' | 'url' | 'json' | 'default' | 'pack'
   id?: string
   packId?: number
@@ -36,7 +56,8 @@ export interface LevelLoadResult {
 
 export class LevelLoader {
   private static defaultApiUrl = 'https://25hackmit--image-recognition-api-fastapi-app.modal.run'
-  private static backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8000'
+  // import.meta.env only exists under Vite - fall back when loaded from Node
+  private static backendUrl = import.meta.env?.VITE_BACKEND_URL || 'http://localhost:8000'
 
   /**
    * Load a level pack with all its levels
@@ -75,7 +96,7 @@ export class LevelLoader {
           : levelRow.data
 
         return {
-          data: this.validateLevelData(levelData.level_data || levelData),
+          data: LevelMigrations.migrate(levelData.level_data || levelData),
           source: 'pack' as const,
           id: levelRow.id?.toString(),
           packId: packId,
@@ -136,7 +157,7 @@ export class LevelLoader {
       console.log('📋 Extracted level data:', levelData)
 
       return {
-        data: this.validateLevelData(levelData),
+        data: LevelMigrations.migrate(levelData),
         source: 'json',
         id: data.id || this.extractIdFromUrl(jsonUrl)
       }
@@ -175,7 +196,7 @@ export class LevelLoader {
       console.log('📋 Extracted level data:', levelData)
 
       return {
-        data: this.validateLevelData(levelData),
+        data: LevelMigrations.migrate(levelData),
         source: 'api',
         id: data.id || levelId
       }
@@ -193,7 +214,7 @@ export class LevelLoader {
       console.log('📋 Loading level from inline JSON data:', jsonData)
 
       return {
-        data: this.validateLevelData(jsonData),
+        data: LevelMigrations.migrate(jsonData),
         source: 'json',
         id: jsonData.level_id || 'inline'
       }
@@ -208,7 +229,7 @@ export class LevelLoader {
    */
   static getDefaultLevel(): LevelLoadResult {
     return {
-      data: this.getDefaultLevelData(),
+      data: LevelMigrations.migrate(this.getDefaultLevelData()),
       source: 'default',
       id: 'default'
     }
@@ -230,7 +251,7 @@ export class LevelLoader {
 
       console.log('📋 Level data loaded from URL:', levelData)
       return {
-        data: this.validateLevelData(levelData),
+        data: LevelMigrations.migrate(levelData),
         source: 'url',
         id: urlParams.get('id') || 'url-data'
       }
@@ -242,6 +263,8 @@ export class LevelLoader {
 
   /**
    * 验证和规范化地图数据
+   * Clamps drawn data to the recognizer's canvas (image_size, or 1024x576 when
+   * missing); loaders use LevelMigrations instead
    */
   static validateLevelData(data: any): LevelData {
     const validated: LevelData = {
@@ -250,14 +273,21 @@ export class LevelLoader {
       rigid_bodies: []
     }
 
+    const hasImageSize = Array.isArray(data.image_size) && data.image_size[0] > 0 && data.image_size[1] > 0
+    const maxX = hasImageSize ? data.image_size[1] : 1024
+    const maxY = hasImageSize ? data.image_size[0] : 576
+    if (hasImageSize) {
+      validated.image_size = [maxY, maxX]
+    }
+
     // 验证起始点
     if (data.starting_points && Array.isArray(data.starting_points)) {
       validated.starting_points = data.starting_points
         .filter((point: any) => point.coordinates && Array.isArray(point.coordinates))
         .map((point: any) => ({
           coordinates: [
-            Math.max(0, Math.min(1024, point.coordinates[0])),
-            Math.max(0, Math.min(576, point.coordinates[1]))
+            Math.max(0, Math.min(maxX, point.coordinates[0])),
+            Math.max(0, Math.min(maxY, point.coordinates[1]))
           ] as [number, number]
         }))
     }
@@ -268,8 +298,8 @@ export class LevelLoader {
         .filter((point: any) => point.coordinates && Array.isArray(point.coordinates))
         .map((point: any) => ({
           coordinates: [
-            Math.max(0, Math.min(1024, point.coordinates[0])),
-            Math.max(0, Math.min(576, point.coordinates[1]))
+            Math.max(0, Math.min(maxX, point.coordinates[0])),
+            Math.max(0, Math.min(maxY, point.coordinates[1]))
           ] as [number, number]
         }))
     }
@@ -282,20 +312,37 @@ export class LevelLoader {
           contour_points: body.contour_points
             .filter((point: any) => Array.isArray(point) && point.length >= 2)
             .map((point: any) => [
-              Math.max(0, Math.min(1024, point[0])),
-              Math.max(0, Math.min(576, point[1]))
+              Math.max(0, Math.min(maxX, point[0])),
+              Math.max(0, Math.min(maxY, point[1]))
             ] as [number, number])
         }))
         .filter((body: any) => body.contour_points.length >= 3) // 至少3个点才能形成多边形
     }
 
+    // Regions (optional) - same outlines as rigid bodies, plus a known type
+    if (data.regions && Array.isArray(data.regions)) {
+      validated.regions = data.regions
+        .filter((region: any) => REGION_TYPES.includes(region.type) && Array.isArray(region.contour_points))
+        .map((region: any) => ({
+          contour_points: region.contour_points
+            .filter((point: any) => Array.isArray(point) && point.length >= 2)
+            .map((point: any) => [
+              Math.max(0, Math.min(maxX, point[0])),
+              Math.max(0, Math.min(maxY, point[1]))
+            ] as [number, number]),
+          type: region.type,
+          ...(typeof region.speed === 'number' ? { speed: region.speed } : {})
+        }))
+        .filter((region: any) => region.contour_points.length >= 3)
+    }
+
     // 验证金币（可选）
     if (data.coins && Array.isArray(data.coins)) {
       validated.coins = data.coins
         .filter((coin: any) => typeof coin.x === 'number' && typeof coin.y === 'number')
         .map((coin: any) => ({
-          x: Math.max(0, Math.min(1024, coin.x)),
-          y: Math.max(0, Math.min(576, coin.y))
+          x: Math.max(0, Math.min(maxX, coin.x)),
+          y: Math.max(0, Math.min(maxY, coin.y))
         }))
     }
 
@@ -304,8 +351,8 @@ export class LevelLoader {
       validated.enemies = data.enemies
         .filter((enemy: any) => typeof enemy.x === 'number' && typeof enemy.y === 'number')
         .map((enemy: any) => ({
-          x: Math.max(0, Math.min(1024, enemy.x)),
-          y: Math.max(0, Math.min(576, enemy.y)),
+          x: Math.max(0, Math.min(maxX, enemy.x)),
+          y: Math.max(0, Math.min(maxY, enemy.y)),
           type: enemy.type || 'goomba'
         }))
     }
@@ -285,6 +285,31 @@ export class GameAPI {
     }
   }
 
+  // Show or hide a saved level in the public list
+  async setLevelPublic(levelId: string | number, isPublic: boolean, publicName?: string): Promise<any> {
+    try {
+      const response = await fetch(`${this.backendUrl}/api/db/level/${levelId}/set-public`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          is_public: isPublic,
+          ...(publicName !== undefined ? { public_name: publicName } : {})
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to update level visibility: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error updating level visibility:', error);
+      throw error;
+    }
+  }
+
   // Load levels from database
   async loadLevels(difficulty?: string, limit: number = 50): Promise<any> {
     try {
@@ -432,6 +457,8 @@ export class GameAPI {
     completed_levels: number[];
     total_time_ms?: number;
     total_deaths?: number;
+    // Checkpoint indices reached on unfinished levels, keyed by level index
+    checkpoints?: Record<number, number[]>;
   }): Promise<any> {
     try {
       const response = await fetch(`${this.backendUrl}/api/level-packs/${packId}/progress`, {
@@ -444,7 +471,8 @@ export class GameAPI {
           current_level_index: data.current_level_index,
           completed_levels: data.completed_levels,
           total_time_ms: data.total_time_ms || 0,
-          total_deaths: data.total_deaths || 0
+          total_deaths: data.total_deaths || 0,
+          checkpoints: data.checkpoints || {}
         })
       });
 
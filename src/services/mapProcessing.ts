@@ -1,38 +1,36 @@
 // Map Processing Service - Integration with OpenCV Backend
-
-
-interface GamePosition {
-  x: number;
-  y: number;
+import { LevelSolvabilityChecker } from '../game/engine/analysis/LevelSolvability';
+import type { SolvabilityReport } from '../game/engine/analysis/LevelSolvability';
+import { LevelMigrations } from '../game/engine/schema/LevelMigrations';
+import type { GameData } from '../game/engine/schema/LegacyFormats';
+import { gameAPI } from './api';
+
+// Shapes as the OpenCV backend reports them, in the recognizer's image space
+export interface RecognizedPoint {
+  coordinates: [number, number];
   area?: number;
 }
 
-interface Platform {
-  id: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  centroid: { x: number; y: number };
-  area: number;
-  vertices: { x: number; y: number }[];
+export interface RecognizedBody {
+  contour_points: [number, number][];
+  centroid?: [number, number];
+  bounding_box?: [number, number, number, number];
+  area?: number;
 }
 
-interface GameData {
-  startPosition: GamePosition | null;
-  endPosition: GamePosition | null;
-  platforms: Platform[];
-  worldSize: { width: number; height: number };
-  metadata: {
-    totalShapes: number;
-    startPoints: number;
-    endPoints: number;
-    platforms: number;
-    scaleFactor: number;
-  };
+export interface RecognizedLevelData {
+  starting_points: RecognizedPoint[];
+  end_points: RecognizedPoint[];
+  // Diamonds - respawn flags
+  checkpoint_points?: RecognizedPoint[];
+  rigid_bodies: RecognizedBody[];
+  // [height, width]
+  image_size?: [number, number];
+  scale_factor?: number;
+  [key: string]: any;
 }
 
-interface ProcessingResult {
+export interface ProcessingResult {
   success: boolean;
   data?: GameData;
   rawData?: any;
@@ -49,6 +47,9 @@ interface ProcessingResult {
 interface ValidationResult {
   isValid: boolean;
   issues: string[];
+  // Problems that don't stop the level from being beaten
+  warnings: string[];
+  solvability?: SolvabilityReport;
 }
 
 interface DrawingInstructions {
@@ -212,7 +213,7 @@ class MapProcessingService {
   // Transform backend OpenCV data to game-compatible format
   transformOpenCVToGameData(backendData: any): GameData {
     // 处理后端返回的OpenCV识别数据
-    const { starting_points, end_points, rigid_bodies, image_size, scale_factor } = backendData;
+    const { starting_points, end_points, checkpoint_points, rigid_bodies, image_size, scale_factor } = backendData;
 
     // 默认缩放因子
     const gameScale = 1 / (scale_factor || 0.3);
@@ -230,6 +231,12 @@ class MapProcessingService {
         area: end_points[0].area || 100
       } : null,
 
+      checkpoints: (checkpoint_points || []).map((point: any) => ({
+        x: point.coordinates[0] * gameScale,
+        y: point.coordinates[1] * gameScale,
+        area: point.area || 100
+      })),
+
       platforms: (rigid_bodies || []).map((body: any, index: number) => ({
         id: `platform_${index}`,
         x: body.centroid ? body.centroid[0] * gameScale : 0,
@@ -264,7 +271,7 @@ class MapProcessingService {
 
   // Transform OpenCV data to game-compatible format (legacy)
   transformToGameData(cvData: any): GameData {
-    const { starting_points, end_points, rigid_bodies, image_size, scale_factor } = cvData;
+    const { starting_points, end_points, checkpoint_points, rigid_bodies, image_size, scale_factor } = cvData;
 
     // Scale coordinates to game world
     const gameScale = 1 / (scale_factor || 0.3);
@@ -282,6 +289,12 @@ class MapProcessingService {
         area: end_points[0].area
       } : null,
 
+      checkpoints: (checkpoint_points || []).map((point: any) => ({
+        x: point.coordinates[0] * gameScale,
+        y: point.coordinates[1] * gameScale,
+        area: point.area
+      })),
+
       platforms: rigid_bodies.map((body: any, index: number) => ({
         id: `platform_${index}`,
         x: body.bounding_box[0] * gameScale,
@@ -362,9 +375,99 @@ class MapProcessingService {
       issues.push('Too many platforms detected (max 50) - simplify your drawing');
     }
 
+    // Only worth simulating jumps once the basic shapes are there
+    const warnings: string[] = [];
+    let solvability: SolvabilityReport | undefined;
+    if (issues.length === 0) {
+      solvability = new LevelSolvabilityChecker().analyze(LevelMigrations.migrate(gameData));
+      // Swimming and rooms behind pipes aren't simulated, so then an unreachable goal is only a guess
+      if (solvability.solvable || solvability.approximate) {
+        warnings.push(...solvability.issues);
+      } else {
+        issues.push(...solvability.issues);
+      }
+    }
+
     return {
       isValid: issues.length === 0,
-      issues
+      issues,
+      warnings,
+      solvability
+    };
+  }
+
+  // Pull the detected shapes out of a processing result, if there are any to review
+  getRecognizedLevelData(result: ProcessingResult): RecognizedLevelData | null {
+    const raw = result.levelData?.level_data || result.levelData;
+    if (!raw || !Array.isArray(raw.rigid_bodies)) {
+      return null;
+    }
+
+    return {
+      ...raw,
+      starting_points: raw.starting_points || [],
+      end_points: raw.end_points || []
+    };
+  }
+
+  // Recompute the derived fields of a contour after it has been edited
+  describeContour(points: [number, number][]): RecognizedBody {
+    const xs = points.map(point => point[0]);
+    const ys = points.map(point => point[1]);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+
+    // Shoelace formula
+    let area = 0;
+    points.forEach((point, i) => {
+      const next = points[(i + 1) % points.length];
+      area += point[0] * next[1] - next[0] * point[1];
+    });
+
+    return {
+      contour_points: points,
+      centroid: [
+        xs.reduce((sum, x) => sum + x, 0) / points.length,
+        ys.reduce((sum, y) => sum + y, 0) / points.length
+      ],
+      bounding_box: [minX, minY, Math.max(...xs) - minX, Math.max(...ys) - minY],
+      area: Math.abs(area) / 2
+    };
+  }
+
+  // Save the user-corrected shapes and return a result describing the saved level.
+  // The backend stored the uncorrected level during recognition and has no way to
+  // update or delete a level, so the corrected one is saved as a new level and the
+  // original is taken out of the public list. Only called once the user confirms
+  // their corrections.
+  async saveCorrectedLevel(result: ProcessingResult, corrected: RecognizedLevelData, name: string): Promise<ProcessingResult> {
+    // Keep the backend's envelope so saved levels look like freshly recognized ones
+    const levelData = result.levelData?.level_data
+      ? { ...result.levelData, level_data: corrected }
+      : corrected;
+
+    const saved = await gameAPI.saveLevel(name, levelData, 'medium');
+    const levelId = saved?.level_id ?? saved?.id;
+    if (levelId === undefined) {
+      throw new Error('Backend did not return an ID for the saved level');
+    }
+
+    // The corrected level is saved either way - a stray hidden original is better than a failed save
+    if (result.level_id) {
+      try {
+        await gameAPI.setLevelPublic(result.level_id, false);
+      } catch (error) {
+        console.warn(`Could not hide the uncorrected level ${result.level_id}:`, error);
+      }
+    }
+
+    const data = this.transformOpenCVToGameData(corrected);
+    return {
+      ...result,
+      level_id: levelId.toString(),
+      levelData,
+      data,
+      summary: this.generateSummary(data)
     };
   }
 